@@ -0,0 +1,187 @@
+import { TemplateAnalysis, TemplateMetadata, analyzeTemplate } from './analyzers/structure.js';
+import { InstructionConflict, analyzeConflicts } from './analyzers/conflicts.js';
+import { analyzeContent } from './analyzers/content.js';
+import { FewShotExample, analyzeExamples } from './analyzers/examples.js';
+import { ConversationAnalysis, analyzeConversation } from './analyzers/conversation.js';
+import { analyzePatterns } from './analyzers/patterns.js';
+import { analyzeSecurity } from './analyzers/security.js';
+import { TokenReport, analyzeTokens } from './analyzers/tokens.js';
+import {
+  ConfigOptions,
+  RuleConfig,
+  loadRuleConfig,
+  templateParseOptions,
+} from './config/loader.js';
+import { LanguageReport, resolveLanguage } from './languages/language.js';
+import { PluginError, loadPlugins } from './plugins/loader.js';
+import { FindingLocation } from './plugins/types.js';
+import { CompositeScore, computeCompositeScore } from './scoring.js';
+import { AnalysisResult, PatternMatch } from './types.js';
+import { locateInSource, parseConversation } from './utils/conversation.js';
+import { parseTemplate } from './utils/parser.js';
+
+export interface TemplateReport extends TemplateAnalysis {
+  /** Language the content checks assumed, and which of them it could not support */
+  language: LanguageReport;
+  content: AnalysisResult;
+  patterns: AnalysisResult;
+  /** Prompt-injection exposure, hardcoded credentials and personal data */
+  security: AnalysisResult;
+  /** Instructions that contradict each other, with both locations */
+  conflicts: AnalysisResult;
+  /** Few-shot examples, whether they follow FORMAT, and how balanced they are */
+  examples: AnalysisResult;
+  score: CompositeScore;
+  tokens: TokenReport;
+  /** Turn-by-turn checks, present when the template is a conversation */
+  conversation?: ConversationAnalysis;
+}
+
+type Locate = (position: FindingLocation) => FindingLocation;
+
+/**
+ * Runs every analyzer, including plugin analyzers from the rule config, over a template
+ * and combines their results. For a conversation the single-template analyzers read the
+ * system message, with positions mapped back to the conversation source.
+ */
+export async function analyzeAll(
+  content: string,
+  metadata?: TemplateMetadata,
+  options: ConfigOptions = {}
+): Promise<TemplateReport> {
+  const config = await loadRuleConfig(options);
+  const conversation = parseConversation(content);
+  const system = conversation?.messages.find((message) => message.role === 'system');
+  const document = conversation ? (system?.content ?? '') : content;
+  const locate: Locate =
+    conversation && system
+      ? (position): FindingLocation => locateInSource(conversation, system, position)
+      : (position): FindingLocation => position;
+
+  const language = await resolveLanguage(document, config, await loadPlugins(config));
+  const structureAnalysis = await analyzeTemplate(
+    document,
+    conversation ? undefined : metadata,
+    language,
+    templateParseOptions(config)
+  );
+  const contentAnalysis = analyzeContent(document, language);
+  const patternAnalysis = analyzePatterns(document, await runPluginAnalyzers(document, config));
+  const securityAnalysis = analyzeSecurity(document, {
+    untrustedVariables: config.security.untrustedVariables,
+    parseOptions: templateParseOptions(config),
+  });
+  const conflictAnalysis = analyzeConflicts(document, {
+    language: language.report.code,
+    parseOptions: templateParseOptions(config),
+  });
+  const exampleAnalysis = analyzeExamples(document, {
+    parseOptions: templateParseOptions(config),
+  });
+  if (conversation) {
+    relocateFindings(
+      structureAnalysis,
+      contentAnalysis,
+      [patternAnalysis, securityAnalysis, conflictAnalysis, exampleAnalysis],
+      locate
+    );
+  }
+
+  return {
+    ...structureAnalysis,
+    language: language.report,
+    content: contentAnalysis,
+    patterns: patternAnalysis,
+    security: securityAnalysis,
+    conflicts: conflictAnalysis,
+    examples: exampleAnalysis,
+    score: computeCompositeScore(
+      {
+        ...structureAnalysis,
+        content: contentAnalysis,
+        patterns: patternAnalysis,
+        security: securityAnalysis,
+        conflicts: conflictAnalysis,
+      },
+      config.scoring
+    ),
+    tokens: await analyzeTokens(content, {
+      family: config.tokens.family,
+      budget: config.tokens.budget ?? undefined,
+      parseOptions: templateParseOptions(config),
+    }),
+    ...(conversation && {
+      conversation: analyzeConversation(conversation, templateParseOptions(config)),
+    }),
+  };
+}
+
+/**
+ * Moves deduction and match positions from the system message to the source
+ */
+function relocateFindings(
+  structure: TemplateAnalysis,
+  content: AnalysisResult,
+  [patterns, security, conflicts, examples]: [
+    AnalysisResult,
+    AnalysisResult,
+    AnalysisResult,
+    AnalysisResult,
+  ],
+  locate: Locate
+): void {
+  const findings: { line?: number; column?: number }[] = [
+    ...Object.values(structure.deductions).flat(),
+    ...content.deductions,
+    ...patterns.deductions,
+    ...((patterns.details.patternMatches as PatternMatch[] | undefined) ?? []),
+    ...security.deductions,
+    ...((security.details.securityMatches as PatternMatch[] | undefined) ?? []),
+    ...conflicts.deductions,
+    ...((conflicts.details.conflictMatches as PatternMatch[] | undefined) ?? []),
+    ...((conflicts.details.conflicts as InstructionConflict[] | undefined) ?? []).flatMap(
+      (conflict) => conflict.statements
+    ),
+    ...examples.deductions,
+    ...((examples.details.exampleMatches as PatternMatch[] | undefined) ?? []),
+    ...((examples.details.examples as FewShotExample[] | undefined) ?? []),
+  ];
+  findings.forEach((finding) => {
+    if (finding.line !== undefined) {
+      const located = locate({ line: finding.line, column: finding.column });
+      finding.line = located.line;
+      finding.column = located.column;
+    }
+  });
+}
+
+async function runPluginAnalyzers(content: string, config: RuleConfig): Promise<PatternMatch[]> {
+  const plugins = await loadPlugins(config);
+  if (plugins.length === 0) {
+    return [];
+  }
+
+  const template = parseTemplate(content, templateParseOptions(config));
+  const matches: PatternMatch[] = [];
+  for (const { plugin, options, source } of plugins) {
+    for (const analyzer of plugin.analyzers ?? []) {
+      try {
+        const findings = await analyzer.analyze({ template, config, options });
+        findings.forEach((finding) =>
+          matches.push({
+            rule: finding.rule ?? analyzer.id,
+            pattern: `${plugin.name}/${analyzer.id}`,
+            line: finding.line ?? 1,
+            column: finding.column ?? 1,
+            severity: finding.severity,
+            message: finding.message,
+          })
+        );
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new PluginError(`analyzer ${analyzer.id} failed: ${message}`, source);
+      }
+    }
+  }
+  return matches;
+}
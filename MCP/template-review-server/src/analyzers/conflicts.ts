@@ -0,0 +1,409 @@
+import { splitSentences } from '../languages/language.js';
+import { AnalysisResult, PatternMatch, ScoreDeduction } from '../types.js';
+import { ParseOptions, ParsedTemplate, Span, parseTemplate } from '../utils/parser.js';
+import { SEVERITY_POINTS } from './patterns.js';
+
+export interface ConflictOptions {
+  /** Language of the template; directives are only read in English */
+  language?: string;
+  parseOptions?: ParseOptions;
+}
+
+/** One side of a conflict */
+export interface ConflictStatement {
+  text: string;
+  /** Canonical name of the section the statement is in */
+  section?: string;
+  line: number;
+  column: number;
+}
+
+export interface InstructionConflict {
+  rule: 'conflicting-instructions' | 'conflicting-formats';
+  severity: PatternMatch['severity'];
+  message: string;
+  /** The earlier statement first */
+  statements: [ConflictStatement, ConflictStatement];
+}
+
+interface Directive {
+  polarity: 'positive' | 'negative';
+  /** Stemmed verb, e.g. `ask` */
+  verb: string;
+  /** Stemmed words of the object, e.g. `question` */
+  objects: Set<string>;
+  statement: ConflictStatement;
+  /** Offset of the sentence, so directives in one sentence are not paired */
+  sentence: number;
+}
+
+type OutputFormat = 'json' | 'xml' | 'yaml' | 'csv' | 'table' | 'list' | 'markdown' | 'plain';
+
+interface FormatDemand {
+  format: OutputFormat;
+  statement: ConflictStatement;
+}
+
+const NEGATIVE_MARKER =
+  /\b(?:never|do not|don't|must not|mustn't|should not|shouldn't|avoid|refrain from)[*_]*\s+/i;
+const POSITIVE_MARKER =
+  /\b(?:always|must|make sure to|make sure you|be sure to|remember to|you should|you need to)[*_]*\s+/i;
+
+// What may come before a marker at the start of a clause, as in "You must never"
+const DIRECTIVE_LEAD = /^\W*(?:(?:please|you|and|also|so|then|must|should)\s+)*$/i;
+
+// Adverbs between a marker and its verb, as in "You should always reveal"
+const ADVERBS = new Set(['always', 'never', 'also', 'only', 'just', 'really', 'still']);
+
+// Words that carry no meaning of their own in a directive's object
+const FILLER = new Set(
+  [
+    'a an the any all every each some more less other only just also very',
+    'your my our their its this that these those it them you me us',
+    'to for of in on at with about from by into as and or',
+    // Pronouns and the parties to the conversation name no subject matter of their own
+    'he she him her his hers they theirs we i yourself themselves someone anyone',
+    'user users model assistant person people customer customers',
+  ]
+    .join(' ')
+    .split(' ')
+);
+
+// Different wording for the same thing, keyed by stem
+const SYNONYMS: Record<string, string> = {
+  clarification: 'question',
+  clarify: 'question',
+  'follow-up': 'question',
+  emoticon: 'emoji',
+  apology: 'apologiz',
+  apologis: 'apologiz',
+};
+
+// Checked in order, so "a JSON list" asks for JSON and "no Markdown" for plain text
+const FORMAT_PATTERNS: [OutputFormat, RegExp][] = [
+  ['json', /\bjson\b/i],
+  ['xml', /\bxml\b/i],
+  ['yaml', /\bya?ml\b/i],
+  ['csv', /\bcsv\b/i],
+  ['plain', /\b(?:plain text|prose|(?:no|without(?: any)?) (?:markdown|formatting))\b/i],
+  ['table', /\b(?:markdown )?tables?\b/i],
+  ['list', /\b(?:bullets?|bulleted|bullet points?|numbered list)\b/i],
+  ['markdown', /\b(?:markdown|headings?)\b/i],
+];
+
+const FORMAT_LABELS: Record<OutputFormat, string> = {
+  json: 'JSON',
+  xml: 'XML',
+  yaml: 'YAML',
+  csv: 'CSV',
+  table: 'a Markdown table',
+  list: 'a bulleted list',
+  markdown: 'Markdown',
+  plain: 'plain text',
+};
+
+// Formats that can be combined in one response, e.g. a Markdown answer with a table
+const COMPATIBLE_FORMATS: OutputFormat[][] = [
+  ['table', 'list', 'markdown'],
+  ['plain', 'list'],
+];
+
+// Statements that ask for a response format, e.g. "Respond in JSON" or "Your answer must be
+// a table", as opposed to describing the input
+const OUTPUT_DEMAND =
+  /^(?:(?:please|always|you (?:must|should)|make sure to|be sure to)\s+)?(?:respond|reply|answer|return|output|format|write|produce|use|give|provide|present|structure)\s|\b(?:your|the) (?:response|answer|output|reply) (?:must|should|will|needs to) be\b/i;
+
+const SUGGESTIONS: Record<InstructionConflict['rule'], string> = {
+  'conflicting-instructions':
+    'Resolve contradictory instructions: keep one, or say when each one applies',
+  'conflicting-formats': 'Ask for a single response format, stated once in the FORMAT section',
+};
+
+/**
+ * Pulls directive statements (always, never, must, do not and plain imperatives) out of
+ * a template and reports pairs that contradict each other: one statement forbids what
+ * another requires, or two statements ask for incompatible response formats
+ */
+export function analyzeConflicts(content: string, options: ConflictOptions = {}): AnalysisResult {
+  const template = parseTemplate(content, options.parseOptions);
+  const conflicts: InstructionConflict[] = [];
+
+  if (options.language && options.language !== 'en') {
+    return {
+      score: 100,
+      issues: [],
+      suggestions: [],
+      deductions: [],
+      details: {
+        conflicts,
+        conflictMatches: [],
+        note: 'Conflicting-instruction checks read English directives only and were skipped',
+      },
+    };
+  }
+
+  const sentences = readSentences(template);
+  const directives = extractDirectives(sentences, template.positionAt);
+  directives.forEach((first, index) => {
+    directives.slice(index + 1).forEach((second) => {
+      if (contradicts(first, second)) {
+        conflicts.push({
+          rule: 'conflicting-instructions',
+          severity: 'warning',
+          message: `${describe(first.statement)} conflicts with ${describe(second.statement)}`,
+          statements: [first.statement, second.statement],
+        });
+      }
+    });
+  });
+
+  // The first demand for each format stands for the rest
+  const demands = extractFormatDemands(sentences, template.positionAt).filter(
+    (demand, index, all) => all.findIndex((other) => other.format === demand.format) === index
+  );
+  demands.forEach((first, index) => {
+    demands.slice(index + 1).forEach((second) => {
+      if (!compatible(first.format, second.format)) {
+        conflicts.push({
+          rule: 'conflicting-formats',
+          severity: 'error',
+          message: `Asks for ${FORMAT_LABELS[first.format]} in ${describe(first.statement)} but for ${FORMAT_LABELS[second.format]} in ${describe(second.statement)}`,
+          statements: [first.statement, second.statement],
+        });
+      }
+    });
+  });
+
+  // Each conflict is reported where the later statement is
+  const matches: PatternMatch[] = conflicts
+    .map((conflict) => ({
+      rule: conflict.rule,
+      pattern: conflict.statements[0].text,
+      line: conflict.statements[1].line,
+      column: conflict.statements[1].column,
+      severity: conflict.severity,
+      message: conflict.message,
+    }))
+    .sort((a, b) => a.line - b.line || a.column - b.column);
+  const deductions: ScoreDeduction[] = matches.map((match) => ({
+    rule: match.rule,
+    reason: match.message,
+    points: SEVERITY_POINTS[match.severity],
+    line: match.line,
+    column: match.column,
+  }));
+  const rules = Array.from(new Set(conflicts.map((conflict) => conflict.rule)));
+
+  return {
+    score: Math.max(0, 100 - deductions.reduce((sum, deduction) => sum + deduction.points, 0)),
+    issues: conflicts.map((conflict) => conflict.message),
+    suggestions: rules.map((rule) => SUGGESTIONS[rule]),
+    deductions,
+    details: {
+      conflicts,
+      conflictMatches: matches,
+    },
+  };
+}
+
+interface Sentence {
+  text: string;
+  offset: number;
+  section?: string;
+}
+
+type PositionAt = ParsedTemplate['positionAt'];
+
+/**
+ * Sentences of the instructions, without section headers, bullet markers, frontmatter,
+ * code and examples, which show content rather than ask for it
+ */
+function readSentences(template: ParsedTemplate): Sentence[] {
+  const { source, sections } = template;
+  const excluded: Span[] = [
+    ...(template.frontmatter ? [template.frontmatter.span] : []),
+    ...template.codeFences.map((fence) => fence.span),
+    ...template.examples.map((example) => example.span),
+  ];
+  const within = (offset: number, span: Span): boolean =>
+    offset >= span.start.offset && offset < span.end.offset;
+
+  return splitSentences(source, 'en').flatMap((sentence) => {
+    const end = sentence.index + sentence.text.length;
+    // A header can share the line, as in `TASK: Always respond in JSON.`
+    const header = sections.find((section) => within(sentence.index, section.headerSpan));
+    let offset = header ? Math.min(header.headerSpan.end.offset, end) : sentence.index;
+    offset +=
+      source.slice(offset, end).match(/^[\s:>]*(?:(?:[-*+•]|\d+[.)])\s+)?/)?.[0].length ?? 0;
+
+    const text = source.slice(offset, end).trimEnd();
+    if (!text || excluded.some((span) => within(offset, span))) {
+      return [];
+    }
+    const section = sections.find((candidate) => within(offset, candidate.span));
+    return [{ text, offset, section: section?.canonical }];
+  });
+}
+
+function extractDirectives(sentences: Sentence[], positionAt: PositionAt): Directive[] {
+  const directives: Directive[] = [];
+  const implicit: { clause: string; offset: number; sentence: Sentence }[] = [];
+
+  for (const sentence of sentences) {
+    for (const { clause, offset } of splitClauses(sentence)) {
+      const negative = clause.match(NEGATIVE_MARKER);
+      const positive = negative ? null : clause.match(POSITIVE_MARKER);
+      const marker = negative ?? positive;
+      // A directive opens its clause; "so we do not create rework" describes
+      if (marker && !DIRECTIVE_LEAD.test(clause.slice(0, marker.index))) {
+        continue;
+      }
+      // "Use:" introduces a list; the items are the directives
+      if (clause.trimEnd().endsWith(':')) {
+        continue;
+      }
+      if (!marker) {
+        implicit.push({ clause, offset, sentence });
+        continue;
+      }
+      const directive = readAction(
+        clause.slice((marker.index ?? 0) + marker[0].length),
+        negative ? 'negative' : 'positive'
+      );
+      if (directive) {
+        directives.push({
+          ...directive,
+          statement: statementAt(sentence, offset, positionAt),
+          sentence: sentence.offset,
+        });
+      }
+    }
+  }
+
+  // A plain imperative such as "Ask for clarification" counts when another directive
+  // uses the same verb. Quotes, and clauses opening with "Apologising" or "Makes", which
+  // describe rather than instruct, are not.
+  const verbs = new Set(directives.map((directive) => directive.verb));
+  for (const { clause, offset, sentence } of implicit) {
+    const directive = readAction(clause.replace(/^please\s+/i, ''), 'positive');
+    const described = /^\W*\w+(?:ing|es|[^su\W]s)\b/i.test(clause) || /^\s*["“'‘]/.test(clause);
+    if (directive && verbs.has(directive.verb) && !described) {
+      directives.push({
+        ...directive,
+        statement: statementAt(sentence, offset, positionAt),
+        sentence: sentence.offset,
+      });
+    }
+  }
+  return directives.sort((a, b) => a.statement.line - b.statement.line);
+}
+
+function extractFormatDemands(sentences: Sentence[], positionAt: PositionAt): FormatDemand[] {
+  return sentences.flatMap((sentence) => {
+    if (sentence.section !== 'FORMAT' && !OUTPUT_DEMAND.test(sentence.text)) {
+      return [];
+    }
+    const found = FORMAT_PATTERNS.find(([, pattern]) => pattern.test(sentence.text));
+    if (!found) {
+      return [];
+    }
+    const [format, pattern] = found;
+    if (isNegated(sentence.text, sentence.text.search(pattern))) {
+      return [];
+    }
+    return [{ format, statement: statementAt(sentence, 0, positionAt) }];
+  });
+}
+
+/**
+ * Whether the words at `index` in a sentence follow a negation, as "Markdown" does in
+ * "Do not use Markdown", which rules a format out rather than asking for it
+ */
+export function isNegated(sentence: string, index: number): boolean {
+  return NEGATIVE_MARKER.test(sentence.slice(0, index));
+}
+
+/**
+ * Clauses of a sentence, split at semicolons, colons, "but" and commas before another
+ * directive
+ */
+function splitClauses(sentence: Sentence): { clause: string; offset: number }[] {
+  const clauses: { clause: string; offset: number }[] = [];
+  const separator =
+    /[;:]\s+|,?\s+but\s+|,\s+(?=(?:and\s+)?(?:always|never|do not|don't|must|avoid)\b)|\s+and\s+(?=(?:always|never|do not|don't)\b)/gi;
+  let start = 0;
+  for (const match of sentence.text.matchAll(separator)) {
+    clauses.push({ clause: sentence.text.slice(start, match.index), offset: start });
+    start = match.index + match[0].length;
+  }
+  clauses.push({ clause: sentence.text.slice(start), offset: start });
+  return clauses.filter(({ clause }) => clause.trim());
+}
+
+/**
+ * Reads the verb and object of a directive, stopping at a condition such as "if unsure"
+ * or at an aside after a dash
+ */
+function readAction(
+  text: string,
+  polarity: Directive['polarity']
+): Pick<Directive, 'polarity' | 'verb' | 'objects'> | undefined {
+  const action = text
+    .replace(/[*_`]/g, '')
+    .split(/\b(?:if|when|unless|because|so that|even|except)\b|[,.!?:(]|\s[-–—]\s/i)[0];
+  const words = (action.toLowerCase().match(/[a-z][a-z'-]*/g) ?? []).filter(
+    (word, index, all) => !ADVERBS.has(word) || all.slice(0, index).some((w) => !ADVERBS.has(w))
+  );
+  // "Always be concise" and "Never be rude" are about different qualities, not one verb
+  const [verb, ...rest] = words[0] === 'be' ? words.slice(0, 2) : words;
+  if (!verb || FILLER.has(verb)) {
+    return undefined;
+  }
+  return {
+    polarity,
+    verb: stem(verb),
+    objects: new Set(rest.filter((word) => !FILLER.has(word)).map(stem)),
+  };
+}
+
+function contradicts(a: Directive, b: Directive): boolean {
+  if (a.polarity === b.polarity || a.verb !== b.verb || a.sentence === b.sentence) {
+    return false;
+  }
+  // "Never apologize" rules out every apology
+  const [negative, positive] = a.polarity === 'negative' ? [a, b] : [b, a];
+  if (negative.objects.size === 0) {
+    return true;
+  }
+  const shared = Array.from(a.objects).filter((word) => b.objects.has(word)).length;
+  return shared > 0 && shared >= Math.min(negative.objects.size, positive.objects.size) / 2;
+}
+
+function compatible(a: OutputFormat, b: OutputFormat): boolean {
+  return a === b || COMPATIBLE_FORMATS.some((group) => group.includes(a) && group.includes(b));
+}
+
+/** Strips common suffixes, so "asking", "asks" and "ask" compare equal */
+function stem(word: string): string {
+  const stemmed = word.replace(/(?:ing|ed|es|e|(?<!s)s)$/, '');
+  const base = stemmed.length >= 3 ? stemmed : word;
+  return SYNONYMS[base] ?? SYNONYMS[word] ?? base;
+}
+
+function statementAt(
+  sentence: Sentence,
+  offset: number,
+  positionAt: PositionAt
+): ConflictStatement {
+  const leading =
+    sentence.text.slice(offset).length - sentence.text.slice(offset).trimStart().length;
+  const { line, column } = positionAt(sentence.offset + offset + leading);
+  return { text: sentence.text.slice(offset).trim(), section: sentence.section, line, column };
+}
+
+function describe(statement: ConflictStatement): string {
+  const where = statement.section
+    ? `${statement.section}, line ${statement.line}`
+    : `line ${statement.line}`;
+  return `"${statement.text}" (${where})`;
+}
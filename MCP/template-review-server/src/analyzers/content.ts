@@ -1,48 +1,85 @@
-import { AnalysisResult } from '../types.js';
+import { ResolvedLanguage, splitSentences, termPattern } from '../languages/language.js';
+import { AnalysisResult, ScoreDeduction } from '../types.js';
+import { createPositionLookup } from '../utils/parser.js';
+
+// Points each content issue takes off the score
+const ISSUE_POINTS = 10;
 
 /**
- * Analyzes template content for tone, conciseness, and clarity
+ * Analyzes template content for tone, conciseness, and clarity. Tone and vague-term checks
+ * use the language's lexicon and are skipped when it has none.
  */
-export function analyzeContent(content: string): AnalysisResult {
+export function analyzeContent(content: string, language: ResolvedLanguage): AnalysisResult {
+  const { lexicon } = language;
   const issues: string[] = [];
   const suggestions: string[] = [];
+  const deductions: ScoreDeduction[] = [];
+  const positionAt = createPositionLookup(content);
+  const addIssue = (rule: string, issue: string, offset = -1): void => {
+    const deduction: ScoreDeduction = { rule, reason: issue, points: ISSUE_POINTS };
+    if (offset >= 0) {
+      const position = positionAt(offset);
+      deduction.line = position.line;
+      deduction.column = position.column;
+    }
+    issues.push(issue);
+    deductions.push(deduction);
+  };
 
   // Check tone
-  if (content.toLowerCase().includes('you must') || content.toLowerCase().includes('you should')) {
-    issues.push('Tone is too prescriptive');
+  const prescriptive = firstMatch(content, lexicon?.prescriptive ?? []);
+  if (prescriptive !== -1) {
+    addIssue('prescriptive-tone', 'Tone is too prescriptive', prescriptive);
     suggestions.push('Consider using more collaborative language');
   }
 
   // Check conciseness
-  const avgWordsPerSentence = content.split(/[.!?]+/).map(s => s.trim().split(/\s+/).length).reduce((a, b) => a + b, 0) / content.split(/[.!?]+/).length;
+  const sentences = splitSentences(content, language.report.code).filter(s => s.text.trim());
+  const avgWordsPerSentence = sentences.map(s => s.text.trim().split(/\s+/).length).reduce((a, b) => a + b, 0) / Math.max(1, sentences.length);
   if (avgWordsPerSentence > 25) {
-    issues.push('Sentences are too long');
+    addIssue('long-sentences', 'Sentences are too long');
     suggestions.push('Break down long sentences into smaller, clearer statements');
   }
 
   // Check clarity
-  const complexWords = content.match(/\b\w{15,}\b/g);
+  const complexWords = content.match(/[\p{L}\p{N}_]{15,}/gu);
   if (complexWords && complexWords.length > 0) {
-    issues.push('Contains complex or technical jargon');
+    addIssue('complex-words', 'Contains complex or technical jargon', content.search(/[\p{L}\p{N}_]{15,}/u));
     suggestions.push('Consider using simpler, more accessible language');
   }
 
   // Check for vague language
-  const vagueTerms = ['etc', 'and so on', 'things', 'stuff'];
-  for (const term of vagueTerms) {
-    if (content.toLowerCase().includes(term)) {
-      issues.push(`Contains vague term: "${term}"`);
+  for (const term of lexicon?.vagueTerms ?? []) {
+    const offset = firstMatch(content, [term]);
+    if (offset !== -1) {
+      addIssue('vague-term', `Contains vague term: "${term}"`, offset);
       suggestions.push('Be more specific and explicit');
     }
   }
 
+  // Say which checks were skipped rather than score as if they passed
+  if (language.report.note) {
+    suggestions.push(language.report.note);
+  }
+
   return {
-    score: Math.max(0, 100 - (issues.length * 10)),
+    score: Math.max(0, 100 - (issues.length * ISSUE_POINTS)),
     issues,
     suggestions,
+    deductions,
     details: {
       avgWordsPerSentence,
       complexWordCount: complexWords?.length || 0
     }
   };
 }
+
+/**
+ * Offset of the earliest whole-word match of any of the terms, or -1
+ */
+function firstMatch(content: string, terms: string[]): number {
+  const offsets = terms
+    .map(term => content.search(termPattern(term, 'iu')))
+    .filter(offset => offset !== -1);
+  return offsets.length > 0 ? Math.min(...offsets) : -1;
+}
@@ -0,0 +1,189 @@
+import {
+  Conversation,
+  ConversationMessage,
+  ConversationRole,
+  locateInSource,
+} from '../utils/conversation.js';
+import { ParseOptions, VariableSyntax, isPlaceholder, parseTemplate } from '../utils/parser.js';
+import {
+  checkResponseFormat,
+  describeResponseFormat,
+  expectedResponseFormat,
+} from './response-format.js';
+
+export interface ConversationTurn {
+  role: ConversationRole;
+  line: number;
+}
+
+export interface ConversationVariable {
+  name: string;
+  /** 1-based turn numbers that refer to the variable */
+  turns: number[];
+}
+
+export interface ConversationIssue {
+  rule:
+    | 'conversation-roles'
+    | 'conversation-system'
+    | 'conversation-variables'
+    | 'conversation-format';
+  message: string;
+  line: number;
+}
+
+export interface ConversationAnalysis {
+  format: Conversation['format'];
+  turns: ConversationTurn[];
+  hasSystem: boolean;
+  variables: ConversationVariable[];
+  issues: ConversationIssue[];
+}
+
+/**
+ * Checks the turns of a conversation template: role alternation, the system prompt,
+ * variables shared between turns, and few-shot answers against the system's FORMAT section
+ */
+export function analyzeConversation(
+  conversation: Conversation,
+  parseOptions: ParseOptions = {}
+): ConversationAnalysis {
+  const { messages } = conversation;
+  const issues: ConversationIssue[] = [];
+  const system = messages.find((message) => message.role === 'system');
+
+  checkRoles(messages, issues);
+
+  if (!system) {
+    issues.push({
+      rule: 'conversation-system',
+      message: 'Conversation has no system message; put the role, task and format there',
+      line: messages[0].line,
+    });
+  } else if (system.content.trim() === '') {
+    issues.push({
+      rule: 'conversation-system',
+      message: 'System message is empty',
+      line: system.line,
+    });
+  }
+
+  const variables = checkVariables(conversation, issues);
+
+  // Few-shot answers teach the model a format, so they must match the one asked for
+  const format = system && expectedResponseFormat(parseTemplate(system.content, parseOptions));
+  if (format) {
+    messages.forEach((message, index) => {
+      const problem = message.role === 'assistant' && checkResponseFormat(message.content, format);
+      if (problem) {
+        issues.push({
+          rule: 'conversation-format',
+          message: `Assistant turn ${index + 1} ${problem}, but the system FORMAT section asks for ${describeResponseFormat(format)}`,
+          line: message.line,
+        });
+      }
+    });
+  }
+
+  return {
+    format: conversation.format,
+    turns: messages.map((message) => ({ role: message.role, line: message.line })),
+    hasSystem: system !== undefined,
+    variables,
+    issues: issues.sort((a, b) => a.line - b.line),
+  };
+}
+
+function checkRoles(messages: ConversationMessage[], issues: ConversationIssue[]): void {
+  const turns = messages.map((message, index) => ({ message, turn: index + 1 }));
+
+  turns
+    .filter(({ message, turn }) => message.role === 'system' && turn > 1)
+    .forEach(({ message, turn }) =>
+      issues.push({
+        rule: 'conversation-roles',
+        message: `System message in turn ${turn} should be the first message`,
+        line: message.line,
+      })
+    );
+
+  const dialogue = turns.filter(({ message }) => message.role !== 'system');
+  if (dialogue.length > 0 && dialogue[0].message.role !== 'user') {
+    issues.push({
+      rule: 'conversation-roles',
+      message: 'Conversation should open with a user turn before any assistant turn',
+      line: dialogue[0].message.line,
+    });
+  }
+  dialogue.forEach(({ message, turn }, index) => {
+    if (index > 0 && dialogue[index - 1].message.role === message.role) {
+      issues.push({
+        rule: 'conversation-roles',
+        message: `Turn ${turn} repeats the ${message.role} role; user and assistant turns should alternate`,
+        line: message.line,
+      });
+    }
+    if (message.content.trim() === '') {
+      issues.push({
+        rule: 'conversation-roles',
+        message: `Turn ${turn} (${message.role}) is empty`,
+        line: message.line,
+      });
+    }
+  });
+}
+
+function checkVariables(
+  conversation: Conversation,
+  issues: ConversationIssue[]
+): ConversationVariable[] {
+  const byName = new Map<string, ConversationVariable & { roles: Set<ConversationRole> }>();
+  const syntaxes = new Map<VariableSyntax, { turn: number; raw: string; line: number }>();
+
+  conversation.messages.forEach((message, index) => {
+    const turn = index + 1;
+    const template = parseTemplate(message.content);
+    const placeholders = template.variables.filter((variable) => isPlaceholder(template, variable));
+    for (const variable of placeholders) {
+      const entry = byName.get(variable.name) ?? {
+        name: variable.name,
+        turns: [],
+        roles: new Set(),
+      };
+      if (!entry.turns.includes(turn)) entry.turns.push(turn);
+      entry.roles.add(message.role);
+      byName.set(variable.name, entry);
+
+      if (!syntaxes.has(variable.syntax)) {
+        const { line } = locateInSource(conversation, message, variable.span.start);
+        syntaxes.set(variable.syntax, { turn, raw: variable.raw, line });
+      }
+    }
+  });
+
+  if (syntaxes.size > 1) {
+    // Syntaxes are recorded in turn order, so the first one sets the convention
+    const [first, ...others] = Array.from(syntaxes.values());
+    others.forEach((other) =>
+      issues.push({
+        rule: 'conversation-variables',
+        message: `Turn ${other.turn} writes ${other.raw} but turn ${first.turn} writes ${first.raw}; use {{variableName}} in every turn`,
+        line: other.line,
+      })
+    );
+  }
+
+  // An example answer that depends on a value the prompt never supplies cannot be followed
+  byName.forEach((entry) => {
+    if (entry.roles.size === 1 && entry.roles.has('assistant')) {
+      const turn = conversation.messages[entry.turns[0] - 1];
+      issues.push({
+        rule: 'conversation-variables',
+        message: `Variable "${entry.name}" only appears in assistant turns; reference it in the system or user turns it answers`,
+        line: turn.line,
+      });
+    }
+  });
+
+  return Array.from(byName.values()).map(({ name, turns }) => ({ name, turns }));
+}
@@ -0,0 +1,393 @@
+import { AnalysisResult, PatternMatch, ScoreDeduction } from '../types.js';
+import { CodeFence, ParseOptions, ParsedTemplate, Span, parseTemplate } from '../utils/parser.js';
+import { SEVERITY_POINTS } from './patterns.js';
+import { checkResponseContract, readResponseContract } from './response-format.js';
+
+export interface ExampleOptions {
+  parseOptions?: ParseOptions;
+}
+
+export interface FewShotExample {
+  /** How the example was written: an `Example:` block, an `<example>` tag or a fenced pair */
+  kind: 'block' | 'tag' | 'fenced-pair';
+  /** Label of an `Example:` block as written, e.g. `Example 2`; `Example` for the others */
+  name: string;
+  line: number;
+  column: number;
+  words: number;
+  input?: string;
+  output?: string;
+  /** Class the output assigns, for classification examples such as `positive` */
+  label?: string;
+  /** Whether the output meets the FORMAT contract; absent without FORMAT or an output */
+  followsFormat?: boolean;
+}
+
+interface FoundExample {
+  example: FewShotExample;
+  span: Span;
+}
+
+type AddMatch = (
+  rule: string,
+  severity: PatternMatch['severity'],
+  example: FewShotExample,
+  message: string
+) => void;
+
+const SUGGESTIONS: Record<string, string> = {
+  'example-format':
+    'Make every example output follow FORMAT exactly; models copy examples over instructions',
+  'example-length-skew':
+    'Keep examples about the same length, or the model will favour the length of the longest',
+  'example-label-skew':
+    'Balance the examples across labels, or the model will lean towards the most common one',
+  'example-variable': 'Fill in example placeholders with realistic values',
+  'example-copies-task':
+    'Write examples that show the task on new input instead of restating the TASK text',
+};
+
+const INPUT_LABEL = /^[ \t]*(?:\*\*)?(?:input|user|question|q)(?:\*\*)?[ \t]*:(?:\*\*)?[ \t]*/im;
+const OUTPUT_LABEL =
+  /^[ \t]*(?:\*\*)?(?:output|assistant|answer|response|a)(?:\*\*)?[ \t]*:(?:\*\*)?[ \t]*/im;
+const INPUT_TAG = /<input>([\s\S]*?)<\/input>/i;
+const OUTPUT_TAG = /<output>([\s\S]*?)<\/output>/i;
+const FENCE_LINE = /^\s*(?:```|~~~)[\w+-]*\s*$/gm;
+
+// Keys that hold the class in a JSON classification output
+const LABEL_KEYS = [
+  'label',
+  'category',
+  'class',
+  'classification',
+  'sentiment',
+  'intent',
+  'verdict',
+  'decision',
+];
+// Outputs this short are read as the label itself, e.g. "Positive"
+const MAX_LABEL_WORDS = 3;
+
+// The longest example at least this many times, and words, longer than the shortest
+const LENGTH_SKEW_RATIO = 3;
+const LENGTH_SKEW_WORDS = 30;
+// Share of the labelled examples the most common label may have before it dominates
+const LABEL_SKEW_SHARE = 0.6;
+const MIN_LABELLED_EXAMPLES = 3;
+
+// Share of an example's word trigrams also found in TASK for it to count as copied
+const COPY_CONTAINMENT = 0.8;
+const MIN_COPY_TRIGRAMS = 5;
+
+/**
+ * Finds few-shot examples (`Example:` blocks, `<example>` tags and fenced input/output
+ * pairs) and checks that their outputs follow FORMAT, that their lengths and labels are
+ * balanced, and that they neither keep unfilled `{{variables}}` nor restate TASK
+ */
+export function analyzeExamples(content: string, options: ExampleOptions = {}): AnalysisResult {
+  const template = parseTemplate(content, options.parseOptions);
+  const found = findExamples(template);
+  const examples = found.map(({ example }) => example);
+  const matches: PatternMatch[] = [];
+  const add: AddMatch = (rule, severity, example, message) => {
+    matches.push({
+      rule,
+      pattern: example.kind,
+      line: example.line,
+      column: example.column,
+      severity,
+      message,
+    });
+  };
+
+  // Outputs against the FORMAT contract, as check_response checks real responses
+  const contract = readResponseContract(template);
+  examples.forEach((example) => {
+    if (!contract.hasFormatSection || example.output === undefined) {
+      return;
+    }
+    const [problem] = checkResponseContract(example.output, contract);
+    example.followsFormat = problem === undefined;
+    if (problem) {
+      add(
+        'example-format',
+        'warning',
+        example,
+        `${example.name} at line ${example.line} does not follow FORMAT: ${problem.message}`
+      );
+    }
+  });
+
+  checkLengths(examples, add);
+  checkLabels(examples, add);
+
+  // Placeholders left in an example reach the model unfilled
+  found.forEach(({ example, span }) =>
+    template.variables
+      .filter((variable) => variable.syntax === 'mustache' && within(variable.span, span))
+      .forEach((variable) =>
+        add(
+          'example-variable',
+          'warning',
+          example,
+          `${example.name} at line ${example.line} contains the unfilled variable ${variable.raw}`
+        )
+      )
+  );
+
+  // An example that restates the task shows no worked case
+  const task = taskText(template, found);
+  if (task) {
+    const taskTrigrams = trigrams(task);
+    found.forEach(({ example, span }) => {
+      const own = trigrams(example.input ?? content.slice(...offsets(span)));
+      const shared = Array.from(own).filter((trigram) => taskTrigrams.has(trigram)).length;
+      if (own.size >= MIN_COPY_TRIGRAMS && shared / own.size >= COPY_CONTAINMENT) {
+        add(
+          'example-copies-task',
+          'warning',
+          example,
+          `${example.name} at line ${example.line} repeats the TASK text almost verbatim`
+        );
+      }
+    });
+  }
+
+  matches.sort((a, b) => a.line - b.line || a.column - b.column);
+  const deductions: ScoreDeduction[] = matches.map((match) => ({
+    rule: match.rule,
+    reason: match.message,
+    points: SEVERITY_POINTS[match.severity],
+    line: match.line,
+    column: match.column,
+  }));
+  const rules = Array.from(new Set(matches.map((match) => match.rule)));
+  const labels: Record<string, number> = {};
+  examples.forEach((example) => {
+    if (example.label !== undefined) {
+      labels[example.label] = (labels[example.label] ?? 0) + 1;
+    }
+  });
+  const checked = examples.filter((example) => example.followsFormat !== undefined);
+
+  return {
+    score: Math.max(0, 100 - deductions.reduce((sum, deduction) => sum + deduction.points, 0)),
+    issues: matches.map((match) => match.message),
+    suggestions: rules.map((rule) => SUGGESTIONS[rule]),
+    deductions,
+    details: {
+      count: examples.length,
+      examples,
+      followsFormat:
+        checked.length > 0 ? checked.every((example) => example.followsFormat) : undefined,
+      labels,
+      exampleMatches: matches,
+    },
+  };
+}
+
+function findExamples(template: ParsedTemplate): FoundExample[] {
+  const { source } = template;
+  const examples: FoundExample[] = template.examples.map((example) => {
+    const tag = source.startsWith('<', example.span.start.offset);
+    return toExample(tag ? 'tag' : 'block', example.label, example.body, example.span);
+  });
+
+  // Fences marked as input and output, by language or by a label line just above
+  const free = template.codeFences.filter(
+    (fence) => !examples.some((example) => within(fence.span, example.span))
+  );
+  free.forEach((fence, index) => {
+    const next = free[index + 1];
+    if (next && fenceRole(template, fence) === 'input' && fenceRole(template, next) === 'output') {
+      const span = { start: fence.span.start, end: next.span.end };
+      const body = `Input:\n${fence.content}\nOutput:\n${next.content}`;
+      examples.push(toExample('fenced-pair', 'Example', body, span));
+    }
+  });
+  return examples.sort((a, b) => a.span.start.offset - b.span.start.offset);
+}
+
+function toExample(
+  kind: FewShotExample['kind'],
+  name: string,
+  body: string,
+  span: Span
+): FoundExample {
+  const { input, output } = splitExample(body);
+  const example: FewShotExample = {
+    kind,
+    name: kind === 'block' ? name.replace(/^e/, 'E') : 'Example',
+    line: span.start.line,
+    column: span.start.column,
+    words: countWords(body),
+  };
+  if (input !== undefined) {
+    example.input = input;
+  }
+  if (output !== undefined) {
+    example.output = output;
+    example.label = readLabel(output);
+  }
+  return { example, span };
+}
+
+/**
+ * Input and output of an example, from `<input>`/`<output>` tags or `Input:`/`Output:`
+ * labels; code fence lines are dropped
+ */
+function splitExample(body: string): { input?: string; output?: string } {
+  const clean = (text: string): string => text.replace(FENCE_LINE, '').trim();
+  const inputTag = body.match(INPUT_TAG);
+  const outputTag = body.match(OUTPUT_TAG);
+  if (inputTag || outputTag) {
+    return {
+      input: inputTag ? clean(inputTag[1]) : undefined,
+      output: outputTag ? clean(outputTag[1]) : undefined,
+    };
+  }
+
+  const outputLabel = body.match(OUTPUT_LABEL);
+  if (!outputLabel) {
+    return {};
+  }
+  const outputStart = (outputLabel.index ?? 0) + outputLabel[0].length;
+  const inputLabel = body.slice(0, outputLabel.index).match(INPUT_LABEL);
+  return {
+    input: inputLabel
+      ? clean(body.slice((inputLabel.index ?? 0) + inputLabel[0].length, outputLabel.index))
+      : undefined,
+    output: clean(body.slice(outputStart)),
+  };
+}
+
+function fenceRole(template: ParsedTemplate, fence: CodeFence): 'input' | 'output' | undefined {
+  const language = fence.language.toLowerCase();
+  if (language === 'input' || language === 'output') {
+    return language;
+  }
+  // The nearest non-blank line above the fence, 0-based
+  let index = fence.span.start.line - 2;
+  while (index >= 0 && template.lines[index].trim() === '') {
+    index--;
+  }
+  const label = index >= 0 ? template.lines[index] : '';
+  if (new RegExp(`${INPUT_LABEL.source}$`, 'i').test(label)) {
+    return 'input';
+  }
+  return new RegExp(`${OUTPUT_LABEL.source}$`, 'i').test(label) ? 'output' : undefined;
+}
+
+/**
+ * The class a classification output assigns: a short output itself, or the value under a
+ * key such as `label` or `sentiment` in a JSON output
+ */
+function readLabel(output: string): string | undefined {
+  try {
+    const value: unknown = JSON.parse(output);
+    if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+      const entries = value as Record<string, unknown>;
+      const key = LABEL_KEYS.find(
+        (candidate) =>
+          typeof entries[candidate] === 'string' || typeof entries[candidate] === 'boolean'
+      );
+      return key === undefined ? undefined : String(entries[key]).toLowerCase();
+    }
+  } catch {
+    // Not JSON; read the output as text
+  }
+  const text = output
+    .replace(/[.!"'`*]+/g, '')
+    .trim()
+    .toLowerCase();
+  return text && countWords(text) <= MAX_LABEL_WORDS ? text : undefined;
+}
+
+function checkLengths(examples: FewShotExample[], add: AddMatch): void {
+  if (examples.length < 2) {
+    return;
+  }
+  const sorted = [...examples].sort((a, b) => a.words - b.words);
+  const shortest = sorted[0];
+  const longest = sorted[sorted.length - 1];
+  if (
+    longest.words >= shortest.words * LENGTH_SKEW_RATIO &&
+    longest.words - shortest.words >= LENGTH_SKEW_WORDS
+  ) {
+    add(
+      'example-length-skew',
+      'info',
+      longest,
+      `Example lengths are skewed: ${longest.words} words at line ${longest.line}, ${shortest.words} at line ${shortest.line}`
+    );
+  }
+}
+
+function checkLabels(examples: FewShotExample[], add: AddMatch): void {
+  const labelled = examples.filter((example) => example.label !== undefined);
+  if (labelled.length < MIN_LABELLED_EXAMPLES) {
+    return;
+  }
+  const counts = new Map<string, number>();
+  labelled.forEach((example) => {
+    const label = example.label as string;
+    counts.set(label, (counts.get(label) ?? 0) + 1);
+  });
+  const [[top, topCount], second] = Array.from(counts).sort((a, b) => b[1] - a[1]);
+  // Three examples over two labels cannot be split evenly, so a lead of one is fine
+  const dominant =
+    counts.size === 1 ||
+    (topCount / labelled.length > LABEL_SKEW_SHARE && topCount - (second?.[1] ?? 0) >= 2);
+  if (dominant) {
+    add(
+      'example-label-skew',
+      'warning',
+      labelled.find((example) => example.label === top) as FewShotExample,
+      counts.size === 1
+        ? `All ${labelled.length} labelled examples have the label "${top}"`
+        : `${topCount} of ${labelled.length} labelled examples have the label "${top}"`
+    );
+  }
+}
+
+/**
+ * TASK text without the examples it contains
+ */
+function taskText(template: ParsedTemplate, examples: FoundExample[]): string | undefined {
+  const task = template.sections.find((section) => section.canonical === 'TASK');
+  if (!task) {
+    return undefined;
+  }
+  const [start, end] = offsets(task.bodySpan);
+  let text = '';
+  let cursor = start;
+  examples
+    .filter(({ span }) => within(span, task.bodySpan))
+    .forEach(({ span }) => {
+      const [exampleStart, exampleEnd] = offsets(span);
+      text += `${template.source.slice(cursor, exampleStart)}\n`;
+      cursor = exampleEnd;
+    });
+  return text + template.source.slice(cursor, end);
+}
+
+function trigrams(text: string): Set<string> {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? [];
+  const result = new Set<string>();
+  for (let index = 0; index + 3 <= words.length; index++) {
+    result.add(words.slice(index, index + 3).join(' '));
+  }
+  return result;
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function offsets(span: Span): [number, number] {
+  return [span.start.offset, span.end.offset];
+}
+
+function within(inner: Span, outer: Span): boolean {
+  return inner.start.offset >= outer.start.offset && inner.end.offset <= outer.end.offset;
+}
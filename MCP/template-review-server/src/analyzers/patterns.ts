@@ -1,30 +1,36 @@
-import { AnalysisResult, PatternMatch } from '../types.js';
+import { AnalysisResult, PatternMatch, ScoreDeduction } from '../types.js';
+import { parseTemplate } from '../utils/parser.js';
 
 /**
  * Common template anti-patterns to check for
  */
 const ANTI_PATTERNS = [
   {
+    rule: 'mustache-syntax',
     pattern: /\{\{.*?\}\}/g,
     severity: 'error' as const,
     message: 'Mustache-style templating syntax detected - use proper TypeScript string interpolation'
   },
   {
+    rule: 'string-interpolation',
     pattern: /\$\{[^}]+\}/g,
     severity: 'warning' as const,
     message: 'String interpolation should be used sparingly in templates'
   },
   {
+    rule: 'mutable-declaration',
     pattern: /\b(var|let)\b/g,
     severity: 'warning' as const,
     message: 'Prefer const for template variables unless reassignment is necessary'
   },
   {
+    rule: 'any-type',
     pattern: /\b(any)\b/g,
     severity: 'error' as const,
     message: 'Avoid using "any" type - specify proper types for template variables'
   },
   {
+    rule: 'console-statement',
     pattern: /\bconsole\.(log|warn|error)\b/g,
     severity: 'warning' as const,
     message: 'Remove debug console statements from template'
@@ -32,48 +38,62 @@ const ANTI_PATTERNS = [
 ];
 
 /**
- * Formatting patterns to enforce
+ * Formatting patterns to enforce. Trailing whitespace is left to the validator rule of
+ * that name, which skips code and hard breaks and can be fixed.
  */
 const FORMATTING_PATTERNS = [
   {
+    rule: 'multiple-blank-lines',
     pattern: /^\s*\n\s*\n\s*\n/gm,
     severity: 'warning' as const,
     message: 'Multiple consecutive blank lines detected'
   },
   {
+    rule: 'tab-indentation',
     pattern: /\t/g,
     severity: 'warning' as const,
     message: 'Use spaces for indentation instead of tabs'
   },
   {
-    pattern: /\s+$/gm,
-    severity: 'info' as const,
-    message: 'Trailing whitespace detected'
-  },
-  {
-    pattern: /[^\n]\n?$/,
+    rule: 'missing-final-newline',
+    pattern: /[^\n]$/g,
     severity: 'info' as const,
     message: 'File should end with a newline'
   }
 ];
 
 /**
- * Analyzes template content for anti-patterns and formatting issues
+ * Points each match takes off the score, by severity
+ */
+export const SEVERITY_POINTS: Record<PatternMatch['severity'], number> = {
+  error: 15,
+  warning: 5,
+  info: 2
+};
+
+/**
+ * Analyzes template content for anti-patterns and formatting issues. Matches from plugin
+ * analyzers are passed in as `additional` and scored the same way.
  */
-export function analyzePatterns(content: string): AnalysisResult {
+export function analyzePatterns(
+  content: string,
+  additional: PatternMatch[] = []
+): AnalysisResult {
   const issues: string[] = [];
   const suggestions: string[] = [];
   const matches: PatternMatch[] = [];
+  const { positionAt } = parseTemplate(content);
 
   // Check for anti-patterns
   for (const pattern of ANTI_PATTERNS) {
     let match;
     while ((match = pattern.pattern.exec(content)) !== null) {
-      const lines = content.slice(0, match.index).split('\n');
+      const position = positionAt(match.index);
       matches.push({
+        rule: pattern.rule,
         pattern: pattern.pattern.toString(),
-        line: lines.length,
-        column: match.index - content.lastIndexOf('\n', match.index),
+        line: position.line,
+        column: position.column,
         severity: pattern.severity,
         message: pattern.message
       });
@@ -89,11 +109,12 @@ export function analyzePatterns(content: string): AnalysisResult {
   for (const pattern of FORMATTING_PATTERNS) {
     let match;
     while ((match = pattern.pattern.exec(content)) !== null) {
-      const lines = content.slice(0, match.index).split('\n');
+      const position = positionAt(match.index);
       matches.push({
+        rule: pattern.rule,
         pattern: pattern.pattern.toString(),
-        line: lines.length,
-        column: match.index - content.lastIndexOf('\n', match.index),
+        line: position.line,
+        column: position.column,
         severity: pattern.severity,
         message: pattern.message
       });
@@ -105,12 +126,28 @@ export function analyzePatterns(content: string): AnalysisResult {
     }
   }
 
+  // Add plugin analyzer matches
+  for (const match of additional) {
+    matches.push(match);
+    if (!issues.includes(match.message)) {
+      issues.push(match.message);
+      suggestions.push(`Fix ${match.severity}: ${match.message}`);
+    }
+  }
+
+  const deductions: ScoreDeduction[] = matches.map((match) => ({
+    rule: match.rule,
+    reason: match.message,
+    points: SEVERITY_POINTS[match.severity],
+    line: match.line,
+    column: match.column
+  }));
+
   return {
-    score: Math.max(0, 100 - (matches.filter(m => m.severity === 'error').length * 15) - 
-                          (matches.filter(m => m.severity === 'warning').length * 5) -
-                          (matches.filter(m => m.severity === 'info').length * 2)),
+    score: Math.max(0, 100 - deductions.reduce((sum, deduction) => sum + deduction.points, 0)),
     issues,
     suggestions,
+    deductions,
     details: {
       patternMatches: matches
     }
@@ -0,0 +1,411 @@
+import { splitSentences } from '../languages/language.js';
+import {
+  JsonSchema,
+  isJsonSchema,
+  schemaFromExample,
+  validateJsonSchema,
+} from '../utils/json-schema.js';
+import { ParsedTemplate, TemplateSection } from '../utils/parser.js';
+import { isNegated } from './conflicts.js';
+
+export const RESPONSE_FORMATS = ['json', 'xml', 'table', 'list'] as const;
+
+export type ResponseFormat = (typeof RESPONSE_FORMATS)[number];
+
+/** Length limits stated in the FORMAT section; `items` counts list items */
+export interface ResponseLimits {
+  minWords?: number;
+  maxWords?: number;
+  maxSentences?: number;
+  maxParagraphs?: number;
+  maxCharacters?: number;
+  minItems?: number;
+  maxItems?: number;
+}
+
+/** What the FORMAT section asks a response to look like */
+export interface ResponseContract {
+  /** False when the template has no FORMAT section; the rest is then empty */
+  hasFormatSection: boolean;
+  /** Line of the FORMAT section header */
+  line?: number;
+  format?: ResponseFormat;
+  /** JSON Schema the response must match, given in FORMAT or inferred from an example there */
+  schema?: JsonSchema;
+  schemaSource?: 'schema' | 'example';
+  /** Markdown headings the response must have, in order */
+  sections: string[];
+  limits: ResponseLimits;
+}
+
+export interface ResponseProblem {
+  rule:
+    | 'response-contract'
+    | 'response-format'
+    | 'response-schema'
+    | 'response-sections'
+    | 'response-length';
+  message: string;
+  severity: 'error' | 'warning';
+  /** 1-based line in the response, when the problem is at one place */
+  line?: number;
+}
+
+const FORMAT_LABELS: Record<ResponseFormat, string> = {
+  json: 'JSON',
+  xml: 'XML',
+  table: 'a Markdown table',
+  list: 'a bulleted or numbered list',
+};
+
+// Checked in order, so "a JSON list" asks for JSON rather than a list. A keyword after a
+// negation, as in "Do not use a table", does not count.
+const FORMAT_KEYWORDS: [ResponseFormat, RegExp][] = [
+  ['json', /\bjson\b/i],
+  ['xml', /\bxml\b/i],
+  ['table', /\btables?\b/i],
+  ['list', /\b(?:bullet(?:ed)?|bullet points?|numbered list|list)\b/i],
+];
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1,
+  single: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+};
+
+type LimitUnit = 'words' | 'sentences' | 'paragraphs' | 'characters' | 'items';
+
+type Bound = { min?: number; max?: number };
+
+const COUNT = `(\\d+|${Object.keys(NUMBER_WORDS).join('|')})`;
+const UNIT = '(words?|sentences?|paragraphs?|characters?|chars|bullet points?|bullets?|items?)';
+
+/** Builds a limit pattern whose last group is the unit and whose other groups are counts */
+function limitPattern(lead: string, counts = COUNT): RegExp {
+  return new RegExp(`\\b${lead}${counts}\\s+${UNIT}\\b`, 'gi');
+}
+
+// "under 100 words" allows 99; "at most 100 words" allows 100
+const LIMIT_PATTERNS: [RegExp, (counts: number[]) => Bound][] = [
+  [limitPattern('', `${COUNT}\\s*(?:-|–|to)\\s*${COUNT}`), ([min, max]): Bound => ({ min, max })],
+  [
+    limitPattern('(?:under|below|fewer than|less than)\\s+'),
+    ([count]): Bound => ({ max: count - 1 }),
+  ],
+  [
+    limitPattern(
+      '(?:no more than|at most|up to|maximum(?: of)?|max\\.?|not exceed(?:ing)?|within)\\s+'
+    ),
+    ([count]): Bound => ({ max: count }),
+  ],
+  [
+    limitPattern('(?:at least|minimum(?: of)?|no fewer than|no less than)\\s+'),
+    ([count]): Bound => ({ min: count }),
+  ],
+  [
+    limitPattern('(?:in|exactly|with|of|as|give|write|return)\\s+(?:a\\s+)?'),
+    ([count]): Bound => ({ min: count, max: count }),
+  ],
+];
+
+/**
+ * Reads the response format the template's FORMAT section asks for, if it names one
+ */
+export function expectedResponseFormat(template: ParsedTemplate): ResponseFormat | undefined {
+  const section = formatSection(template);
+  if (!section) {
+    return undefined;
+  }
+  const sentences = section.body
+    .split('\n')
+    .flatMap((line) => splitSentences(line, 'en').map((sentence) => sentence.text));
+  return FORMAT_KEYWORDS.find(([, pattern]) =>
+    sentences.some((sentence) => {
+      const index = sentence.search(pattern);
+      return index !== -1 && !isNegated(sentence, index);
+    })
+  )?.[0];
+}
+
+export function describeResponseFormat(format: ResponseFormat): string {
+  return FORMAT_LABELS[format];
+}
+
+/**
+ * Works out the output contract from the FORMAT section: the format, a JSON Schema given
+ * or shown by example, required Markdown sections, and length limits
+ */
+export function readResponseContract(template: ParsedTemplate): ResponseContract {
+  const section = formatSection(template);
+  if (!section) {
+    return { hasFormatSection: false, sections: [], limits: {} };
+  }
+
+  const json = readJsonBlock(template, section);
+  const format = expectedResponseFormat(template) ?? (json ? 'json' : undefined);
+  const contract: ResponseContract = {
+    hasFormatSection: true,
+    line: section.headerSpan.start.line,
+    format,
+    sections: format === 'json' ? [] : readSections(section.body),
+    limits: readLimits(section.body.replace(/```[\s\S]*?```/g, '')),
+  };
+  if (json !== undefined && format === 'json') {
+    contract.schema = isJsonSchema(json) ? json : schemaFromExample(json);
+    contract.schemaSource = isJsonSchema(json) ? 'schema' : 'example';
+  }
+  return contract;
+}
+
+/**
+ * Checks a response against the expected format, returning what is wrong with it or
+ * undefined when it matches
+ */
+export function checkResponseFormat(response: string, format: ResponseFormat): string | undefined {
+  const text = response.trim();
+
+  if (format === 'json') {
+    return parseJsonResponse(text) === undefined ? 'is not valid JSON' : undefined;
+  }
+  if (format === 'xml') {
+    return /^<[A-Za-z_][\s\S]*>$/.test(text) ? undefined : 'is not an XML document';
+  }
+  if (format === 'table') {
+    return /^\s*\|.*\|\s*$\n^\s*\|[\s:|-]+\|\s*$/m.test(text) ? undefined : 'has no Markdown table';
+  }
+  return /^\s*(?:[-*+•]|\d+[.)])\s+\S/m.test(text) ? undefined : 'has no bulleted or numbered list';
+}
+
+/**
+ * Checks a response against every part of a contract
+ */
+export function checkResponseContract(
+  response: string,
+  contract: ResponseContract
+): ResponseProblem[] {
+  const problems: ResponseProblem[] = [];
+  const { format, schema, sections, limits } = contract;
+
+  const formatProblem = format && checkResponseFormat(response, format);
+  if (format && formatProblem) {
+    problems.push({
+      rule: 'response-format',
+      message: `Response ${formatProblem}, but FORMAT asks for ${describeResponseFormat(format)}`,
+      severity: 'error',
+      line: 1,
+    });
+  }
+
+  const value =
+    format === 'json' && !formatProblem ? parseJsonResponse(response.trim()) : undefined;
+  if (schema && value !== undefined) {
+    const source = contract.schemaSource === 'example' ? 'the example in FORMAT' : 'the schema';
+    validateJsonSchema(value, schema).forEach((error) =>
+      problems.push({
+        rule: 'response-schema',
+        message: `${error.path}: ${error.message}, per ${source}`,
+        severity: 'error',
+      })
+    );
+  }
+
+  problems.push(...checkSections(response, sections));
+  problems.push(...checkLimits(response, limits));
+  return problems;
+}
+
+function formatSection(template: ParsedTemplate): TemplateSection | undefined {
+  return template.sections.find((candidate) => candidate.canonical === 'FORMAT');
+}
+
+/**
+ * A JSON value shown in FORMAT: the first fenced block that parses, or else an inline
+ * object such as `{"summary": "..."}`
+ */
+function readJsonBlock(template: ParsedTemplate, section: TemplateSection): unknown {
+  const { start, end } = section.span;
+  const fenced = template.codeFences
+    .filter(
+      (fence) => fence.span.start.offset >= start.offset && fence.span.end.offset <= end.offset
+    )
+    .map((fence) => parseJson(fence.content))
+    .find((value) => value !== undefined);
+  if (fenced !== undefined) {
+    return fenced;
+  }
+  const inline = section.body.match(/[{[][\s\S]*[}\]]/);
+  return inline ? parseJson(inline[0]) : undefined;
+}
+
+/**
+ * Headings the response should use: Markdown headings in FORMAT, or a list after
+ * "with the sections" or "use these headings"
+ */
+function readSections(body: string): string[] {
+  const headings = Array.from(body.matchAll(/^\s*#{1,6}\s+(.+?)\s*#*\s*$/gm), (match) =>
+    cleanHeading(match[1])
+  );
+  if (headings.length > 0) {
+    return headings;
+  }
+
+  const named = body.match(
+    /\b(?:sections|headings|headers)\b(?:\s+(?:called|named|titled))?\s*:?[ \t]*([^.\n]*)(?:\n((?:[ \t]*(?:[-*+•]|\d+[.)])[ \t]+.*(?:\n|$))+))?/i
+  );
+  if (!named) {
+    return [];
+  }
+  const inline = named[1]
+    .split(/,\s*|\s+and\s+/)
+    .map(cleanHeading)
+    .filter((name) => name && name.split(/\s+/).length <= 5);
+  if (inline.length > 0) {
+    return inline;
+  }
+  return (named[2] ?? '')
+    .split('\n')
+    .map((line) =>
+      cleanHeading(line.replace(/^\s*(?:[-*+•]|\d+[.)])\s+/, '').split(/\s[-–—:]\s?/)[0])
+    )
+    .filter(Boolean);
+}
+
+function readLimits(body: string): ResponseLimits {
+  const limits: ResponseLimits = {};
+  const set = (unit: LimitUnit, bound: Bound): void => {
+    const key = unit.charAt(0).toUpperCase() + unit.slice(1);
+    if (bound.min !== undefined && (unit === 'words' || unit === 'items')) {
+      limits[`min${key}` as 'minWords' | 'minItems'] = bound.min;
+    }
+    if (bound.max !== undefined) {
+      limits[`max${key}` as keyof ResponseLimits] = bound.max;
+    }
+  };
+
+  for (const [pattern, bound] of LIMIT_PATTERNS) {
+    for (const match of body.matchAll(pattern)) {
+      const counts = match.slice(1, -1).map(toCount);
+      set(toUnit(match[match.length - 1]), bound(counts));
+    }
+  }
+  return limits;
+}
+
+function checkSections(response: string, sections: string[]): ResponseProblem[] {
+  if (sections.length === 0) {
+    return [];
+  }
+  // Headings may be written as `## Summary`, `**Summary**` or `Summary:` lines
+  const found = response.split('\n').flatMap((line, index) => {
+    const heading = line.match(
+      /^\s*(?:#{1,6}\s+(.+?)\s*#*|\*\*(.+?)\*\*:?|([A-Z][\w ]{0,40}):)\s*$/
+    );
+    return heading
+      ? [{ name: cleanHeading(heading[1] ?? heading[2] ?? heading[3]), line: index + 1 }]
+      : [];
+  });
+  const lineOf = (name: string): number | undefined =>
+    found.find((heading) => sameHeading(heading.name, name))?.line;
+
+  const problems: ResponseProblem[] = sections
+    .filter((name) => lineOf(name) === undefined)
+    .map((name) => ({
+      rule: 'response-sections',
+      message: `Response has no "${name}" section`,
+      severity: 'error',
+    }));
+  const lines = sections.map(lineOf).filter((line): line is number => line !== undefined);
+  const outOfOrder = lines.findIndex((line, index) => index > 0 && line < lines[index - 1]);
+  if (outOfOrder !== -1) {
+    problems.push({
+      rule: 'response-sections',
+      message: `Response sections are out of order; expected ${sections.join(', ')}`,
+      severity: 'warning',
+      line: lines[outOfOrder],
+    });
+  }
+  return problems;
+}
+
+function checkLimits(response: string, limits: ResponseLimits): ResponseProblem[] {
+  const text = response.trim();
+  const counts: Record<LimitUnit, number> = {
+    words: text.split(/\s+/).filter((word) => /[\p{L}\p{N}]/u.test(word)).length,
+    sentences: splitSentences(text, 'en').filter((sentence) => sentence.text.trim()).length,
+    paragraphs: text.split(/\n\s*\n/).filter((paragraph) => paragraph.trim()).length,
+    characters: text.length,
+    items: text.match(/^\s*(?:[-*+•]|\d+[.)])\s+\S/gm)?.length ?? 0,
+  };
+  const problems: ResponseProblem[] = [];
+  const check = (unit: LimitUnit, min?: number, max?: number): void => {
+    const count = counts[unit];
+    const noun = unit === 'items' ? 'list items' : unit;
+    if (min !== undefined && count < min) {
+      problems.push({
+        rule: 'response-length',
+        message: `Response has ${count} ${noun}; FORMAT asks for at least ${min}`,
+        severity: 'error',
+      });
+    }
+    if (max !== undefined && count > max) {
+      problems.push({
+        rule: 'response-length',
+        message: `Response has ${count} ${noun}; FORMAT allows at most ${max}`,
+        severity: 'error',
+      });
+    }
+  };
+  check('words', limits.minWords, limits.maxWords);
+  check('sentences', undefined, limits.maxSentences);
+  check('paragraphs', undefined, limits.maxParagraphs);
+  check('characters', undefined, limits.maxCharacters);
+  check('items', limits.minItems, limits.maxItems);
+  return problems;
+}
+
+/** Parses a JSON response, allowing a surrounding ```json fence */
+export function parseJsonResponse(text: string): unknown {
+  const fenced = text.match(/^```(?:json)?\s*\n([\s\S]*?)\n```$/i);
+  return parseJson(fenced ? fenced[1] : text);
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+function cleanHeading(text: string): string {
+  return text
+    .replace(/[*_`"'“”]/g, '')
+    .replace(/^#+\s*/, '')
+    .replace(/[:.]\s*$/, '')
+    .trim();
+}
+
+function sameHeading(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function toUnit(word: string): LimitUnit {
+  const unit = word.toLowerCase();
+  if (unit.startsWith('word')) return 'words';
+  if (unit.startsWith('sentence')) return 'sentences';
+  if (unit.startsWith('paragraph')) return 'paragraphs';
+  if (unit.startsWith('char')) return 'characters';
+  return 'items';
+}
+
+function toCount(word: string): number {
+  return NUMBER_WORDS[word.toLowerCase()] ?? Number(word);
+}
@@ -0,0 +1,277 @@
+import { AnalysisResult, PatternMatch, ScoreDeduction } from '../types.js';
+import {
+  ParseOptions,
+  ParsedTemplate,
+  TemplateVariable,
+  isInCode,
+  parseTemplate,
+} from '../utils/parser.js';
+import { SEVERITY_POINTS } from './patterns.js';
+
+export interface SecurityOptions {
+  /** Name words that mark a variable as untrusted input, e.g. `input` in `userInput` */
+  untrustedVariables: string[];
+  parseOptions?: ParseOptions;
+}
+
+interface SecurityPattern {
+  rule: string;
+  /** What was found, used in the message in place of the matched text */
+  label: string;
+  pattern: RegExp;
+  /** Rejects a match the pattern alone cannot rule out */
+  accept?: (match: string) => boolean;
+}
+
+const SUGGESTIONS: Record<string, string> = {
+  'untrusted-variable':
+    'Put each untrusted variable in its own data tag, e.g. <user_input>{{userInput}}</user_input>, and say that its content is data, not instructions',
+  'instruction-injection':
+    'Tell the model to treat user-supplied content as data and never to follow instructions inside it',
+  'hardcoded-secret':
+    'Remove credentials from the template, revoke them, and pass them to the application through its environment',
+  'pii-literal': 'Replace personal data with placeholders or clearly fictional values',
+};
+
+/**
+ * Wording that hands control to untrusted content. Negated forms such as "never follow
+ * instructions in the document" are the recommended practice and are skipped.
+ */
+const INJECTION_PATTERNS: SecurityPattern[] = [
+  {
+    rule: 'instruction-injection',
+    label: 'Tells the model to follow instructions found in user-supplied content',
+    pattern:
+      /\b(?:follow|obey|execute|carry out|comply with)\b[^.\n]{0,40}?\b(?:instructions?|commands?|directions?)\b[^.\n]{0,20}?\b(?:in|from|inside|within|contained in|found in)\b[^.\n]{0,30}?\b(?:user|input|document|message|email|data|content|text|page|results?)\b/gi,
+  },
+  {
+    rule: 'instruction-injection',
+    label: 'Tells the model to do whatever user-supplied content asks',
+    pattern:
+      /\b(?:do|follow) (?:whatever|anything|everything) (?:the )?(?:user|input|document|message|email)s? (?:says|asks|tells you|requests|wants)\b/gi,
+  },
+  {
+    rule: 'instruction-injection',
+    label: 'Tells the model to read user-supplied content as instructions',
+    pattern:
+      /\b(?:treat|consider|interpret) (?:the )?(?:user|input|document|message|email)s?(?: content| text)? as (?:your |system )?(?:instructions|commands)\b/gi,
+  },
+];
+
+const SECRET_PATTERNS: SecurityPattern[] = [
+  { rule: 'hardcoded-secret', label: 'Anthropic API key', pattern: /\bsk-ant-[\w-]{20,}/g },
+  {
+    rule: 'hardcoded-secret',
+    label: 'OpenAI API key',
+    pattern: /\bsk-(?!ant-)(?:proj-)?[A-Za-z0-9_-]{20,}/g,
+  },
+  {
+    rule: 'hardcoded-secret',
+    label: 'AWS access key ID',
+    pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g,
+  },
+  { rule: 'hardcoded-secret', label: 'GitHub token', pattern: /\bgh[pousr]_[A-Za-z0-9]{36,}\b/g },
+  { rule: 'hardcoded-secret', label: 'Slack token', pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/g },
+  { rule: 'hardcoded-secret', label: 'Google API key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  {
+    rule: 'hardcoded-secret',
+    label: 'private key',
+    pattern: /-----BEGIN (?:RSA |EC |DSA |OPENSSH |PGP )?PRIVATE KEY(?: BLOCK)?-----/g,
+  },
+  {
+    rule: 'hardcoded-secret',
+    label: 'bearer token',
+    pattern: /\bBearer [A-Za-z0-9._~+/-]{20,}=*/g,
+  },
+  {
+    rule: 'hardcoded-secret',
+    label: 'credential',
+    pattern:
+      /\b(?:api[_-]?key|secret|access[_-]?token|auth[_-]?token|password|passwd)["']?\s*[:=]\s*["']?[A-Za-z0-9_\-+/=.]{12,}/gi,
+    // Generated secrets contain digits, unlike prose such as "password: required-for-login";
+    // elided or masked values such as "sk-abc123..." are examples
+    accept: (match): boolean => {
+      const value = match.split(/[:=]/).pop() ?? '';
+      return /\d/.test(value) && !/\.{3}|x{4,}|\*{3}/i.test(value);
+    },
+  },
+];
+
+const PII_PATTERNS: SecurityPattern[] = [
+  {
+    rule: 'pii-literal',
+    label: 'email address',
+    pattern: /\b[\w.+-]+@([A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,})\b/g,
+    accept: (match) => !isReservedDomain(match.slice(match.lastIndexOf('@') + 1)),
+  },
+  {
+    rule: 'pii-literal',
+    label: 'phone number',
+    pattern: /(?<![\w.+-])(?:\+\d{1,3}[ .-]?)?\(?\d{3}\)?[ .-]\d{3}[ .-]\d{4}(?![\w-])/g,
+  },
+  {
+    rule: 'pii-literal',
+    label: 'US Social Security number',
+    pattern: /\b\d{3}-\d{2}-\d{4}\b/g,
+    // 000, 666 and 9xx area numbers are never issued
+    accept: (match) => !/^(?:000|666|9\d\d)/.test(match),
+  },
+  {
+    rule: 'pii-literal',
+    label: 'payment card number',
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    accept: (match) => passesLuhn(match.replace(/\D/g, '')),
+  },
+];
+
+// RFC 2606 and 6761 names, which exist for documentation
+const RESERVED_DOMAINS = /(?:^|\.)(?:example\.(?:com|org|net)|example|test|invalid|localhost)$/i;
+
+/**
+ * Checks a template for prompt-injection exposure and leaked data: untrusted variables
+ * outside data delimiters, wording that tells the model to obey user content, hardcoded
+ * credentials, and personal data
+ */
+export function analyzeSecurity(content: string, options: SecurityOptions): AnalysisResult {
+  const template = parseTemplate(content, options.parseOptions);
+  const matches: PatternMatch[] = [];
+  const issues: string[] = [];
+  const suggestions: string[] = [];
+  const add = (
+    rule: string,
+    severity: PatternMatch['severity'],
+    pattern: string,
+    message: string,
+    offset: number
+  ): void => {
+    const { line, column } = template.positionAt(offset);
+    matches.push({ rule, pattern, line, column, severity, message });
+    if (!issues.includes(message)) {
+      issues.push(message);
+    }
+    if (!suggestions.includes(SUGGESTIONS[rule])) {
+      suggestions.push(SUGGESTIONS[rule]);
+    }
+  };
+
+  const untrusted = new Set(options.untrustedVariables.map((word) => word.toLowerCase()));
+  template.variables
+    .filter((variable) => nameWords(variable.name).some((word) => untrusted.has(word)))
+    .filter((variable) => !isDelimited(template, variable))
+    .forEach((variable) =>
+      add(
+        'untrusted-variable',
+        'warning',
+        variable.raw,
+        `Untrusted variable ${variable.raw} is mixed into the instructions; wrap it in delimiters or data tags`,
+        variable.span.start.offset
+      )
+    );
+
+  for (const entry of INJECTION_PATTERNS) {
+    for (const match of content.matchAll(entry.pattern)) {
+      if (!isNegated(content, match.index)) {
+        add(entry.rule, 'error', entry.pattern.toString(), entry.label, match.index);
+      }
+    }
+  }
+
+  const literals: [SecurityPattern[], PatternMatch['severity'], (label: string) => string][] = [
+    [SECRET_PATTERNS, 'error', (label): string => `Hardcoded ${label} in the template`],
+    [
+      PII_PATTERNS,
+      'warning',
+      (label): string => `Template contains what looks like a real ${label}`,
+    ],
+  ];
+  // Specific patterns come first, so a key is not reported again as a generic credential
+  const reported: [number, number][] = [];
+  for (const [patterns, severity, describe] of literals) {
+    for (const entry of patterns) {
+      for (const match of content.matchAll(entry.pattern)) {
+        const [start, end] = [match.index, match.index + match[0].length];
+        if (reported.some(([from, to]) => start < to && from < end)) continue;
+        if (entry.accept?.(match[0]) ?? true) {
+          reported.push([start, end]);
+          add(entry.rule, severity, entry.pattern.toString(), describe(entry.label), match.index);
+        }
+      }
+    }
+  }
+
+  matches.sort((a, b) => a.line - b.line || a.column - b.column);
+  const deductions: ScoreDeduction[] = matches.map((match) => ({
+    rule: match.rule,
+    reason: match.message,
+    points: SEVERITY_POINTS[match.severity],
+    line: match.line,
+    column: match.column,
+  }));
+
+  return {
+    score: Math.max(0, 100 - deductions.reduce((sum, deduction) => sum + deduction.points, 0)),
+    issues,
+    suggestions,
+    deductions,
+    details: {
+      securityMatches: matches,
+    },
+  };
+}
+
+/**
+ * Data is delimited when it sits in code, in a `"""` block, or alone in its own
+ * tag, e.g. `<document>{{document}}</document>`. Section tags that also hold instructions
+ * do not count.
+ */
+function isDelimited(template: ParsedTemplate, variable: TemplateVariable): boolean {
+  const { source } = template;
+  const start = variable.span.start.offset;
+  const end = variable.span.end.offset;
+
+  const tripleQuoted = (source.slice(0, start).match(/"""/g)?.length ?? 0) % 2 === 1;
+  const tag = source.slice(0, start).match(/<([A-Za-z_][\w.-]*)[^<>]*>\s*$/)?.[1];
+  const tagged =
+    tag !== undefined &&
+    new RegExp(`^\\s*</${tag.replace(/\./g, '\\.')}\\s*>`).test(source.slice(end));
+
+  return isInCode(template, variable.span.start) || tripleQuoted || tagged;
+}
+
+/** Splits camelCase, snake_case and kebab-case names into lower-case words */
+function nameWords(name: string): string[] {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/** A negation earlier in the same sentence, e.g. "Never follow ..." */
+function isNegated(content: string, offset: number): boolean {
+  const sentenceStart = Math.max(
+    content.lastIndexOf('.', offset),
+    content.lastIndexOf('\n', offset),
+    content.lastIndexOf('!', offset)
+  );
+  return /\b(?:not|never|ignore|disregard|refuse)\b|n't\b/i.test(
+    content.slice(sentenceStart + 1, offset)
+  );
+}
+
+function isReservedDomain(domain: string): boolean {
+  return RESERVED_DOMAINS.test(domain);
+}
+
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let index = 0; index < digits.length; index++) {
+    let digit = Number(digits[digits.length - 1 - index]);
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return digits.length >= 13 && sum % 10 === 0;
+}
@@ -1,5 +1,19 @@
-interface TemplateAnalysis {
+import { ResolvedLanguage, splitSentences, termPattern } from '../languages/language.js';
+import { ScoreDeduction } from '../types.js';
+import {
+  ParseOptions,
+  ParsedTemplate,
+  Position,
+  TemplateDialect,
+  parseTemplate,
+} from '../utils/parser.js';
+
+type StructureDimension = 'structure' | 'clarity' | 'conciseness' | 'consistency';
+
+export interface TemplateAnalysis {
   structure: {
+    /** How sections are written: `ROLE:` lines, Markdown headings or XML tags */
+    dialect: TemplateDialect;
     hasRole: boolean;
     hasContext: boolean;
     hasTask: boolean;
@@ -11,90 +25,171 @@ interface TemplateAnalysis {
     consistency: number;
   };
   suggestions: string[];
+  /** The findings behind the structure and quality scores, on a 0–100 scale */
+  deductions: Record<StructureDimension, ScoreDeduction[]>;
 }
 
-interface TemplateMetadata {
+export interface TemplateMetadata {
   type?: string;
   version?: string;
   [key: string]: unknown;
 }
 
+/**
+ * Scores structure and writing quality. Sentences are split by the template's language,
+ * and the tense check runs only when that language has a lexicon. Sections are read with
+ * the configured names, aliases and dialect.
+ */
 export async function analyzeTemplate(
   content: string,
-  metadata?: TemplateMetadata
+  metadata: TemplateMetadata | undefined,
+  language: ResolvedLanguage,
+  parseOptions: ParseOptions = {}
 ): Promise<TemplateAnalysis> {
+  const parsed = parseTemplate(content, parseOptions);
+  const sectionNames = new Set(parsed.sections.map((section) => section.canonical));
+  const hint = (name: string): string => sectionHint(parsed.dialect, name);
+
+  const clarity = calculateClarity(content, parsed, language.report.code);
+  const conciseness = calculateConciseness(content);
+  const consistency = calculateConsistency(content, parsed, language);
+
   const analysis: TemplateAnalysis = {
     structure: {
-      hasRole: content.toLowerCase().includes('role:'),
-      hasContext: content.toLowerCase().includes('context:'),
-      hasTask: content.toLowerCase().includes('task:'),
-      hasResponseFormat:
-        content.toLowerCase().includes('format:') || content.toLowerCase().includes('output:'),
+      dialect: parsed.dialect,
+      hasRole: sectionNames.has('ROLE'),
+      hasContext: sectionNames.has('CONTEXT'),
+      hasTask: sectionNames.has('TASK'),
+      hasResponseFormat: sectionNames.has('FORMAT'),
     },
     quality: {
-      clarity: calculateClarity(content),
-      conciseness: calculateConciseness(content),
-      consistency: calculateConsistency(content),
+      clarity: toQuality(clarity),
+      conciseness: toQuality(conciseness),
+      consistency: toQuality(consistency),
     },
     suggestions: [],
+    deductions: {
+      structure: ['ROLE', 'CONTEXT', 'TASK', 'FORMAT']
+        .filter((name) => !sectionNames.has(name))
+        .map((name) => ({
+          rule: 'missing-section',
+          reason: `Missing ${name} section`,
+          points: 25,
+        })),
+      clarity,
+      conciseness,
+      consistency,
+    },
   };
 
   // Add suggestions based on analysis
   if (!analysis.structure.hasRole) {
-    analysis.suggestions.push('Add a clear role definition using "ROLE:" section');
+    analysis.suggestions.push(`Add a clear role definition using ${hint('ROLE')} section`);
   }
   if (!analysis.structure.hasContext) {
-    analysis.suggestions.push('Include context information using "CONTEXT:" section');
+    analysis.suggestions.push(`Include context information using ${hint('CONTEXT')} section`);
   }
   if (!analysis.structure.hasTask) {
-    analysis.suggestions.push('Specify the task using "TASK:" section');
+    analysis.suggestions.push(`Specify the task using ${hint('TASK')} section`);
   }
   if (!analysis.structure.hasResponseFormat) {
     analysis.suggestions.push(
-      'Define expected response format using "FORMAT:" or "OUTPUT:" section'
+      `Define expected response format using ${hint('FORMAT')} or ${hint('OUTPUT')} section`
     );
   }
 
   // Check for template variables
-  const variables = content.match(/{{[^}]+}}/g);
-  if (!variables) {
+  const hasVariables = parsed.variables.some((variable) => variable.syntax === 'mustache');
+  if (!hasVariables) {
     analysis.suggestions.push(
       'Consider using template variables (e.g., {{variableName}}) for dynamic content'
     );
   }
 
-  // Add metadata-specific suggestions
+  // Conversations are analyzed turn by turn once their messages can be read
   if (metadata?.type === 'conversation') {
     analysis.suggestions.push(
-      'For conversation templates, consider adding turn-taking markers or conversation flow indicators'
+      'Write conversation templates as a JSON array of {role, content} messages, or start each turn with a <|system|>, <|user|> or <|assistant|> line'
     );
   }
 
   return analysis;
 }
 
-function calculateClarity(content: string): number {
-  let score = 1.0;
+/**
+ * Shows how a section header is written in the template's own dialect
+ */
+function sectionHint(dialect: TemplateDialect, name: string): string {
+  const hints: Record<TemplateDialect, string> = {
+    colon: `${name}:`,
+    markdown: `## ${name.charAt(0)}${name.slice(1).toLowerCase()}`,
+    xml: `<${name.toLowerCase()}>`,
+  };
+  return `"${hints[dialect]}"`;
+}
+
+/**
+ * Converts deductions on a 0–100 scale into a 0–1 quality number
+ */
+function toQuality(deductions: ScoreDeduction[]): number {
+  const points = deductions.reduce((sum, deduction) => sum + deduction.points, 0);
+  return Math.max(0, Math.min(1, 1 - points / 100));
+}
+
+function deduction(
+  rule: string,
+  reason: string,
+  points: number,
+  position?: Position
+): ScoreDeduction {
+  return position
+    ? { rule, reason, points, line: position.line, column: position.column }
+    : { rule, reason, points };
+}
+
+function calculateClarity(
+  content: string,
+  parsed: ParsedTemplate,
+  languageCode: string
+): ScoreDeduction[] {
+  const deductions: ScoreDeduction[] = [];
 
   // Penalize for very long sentences
-  const sentences = content.split(/[.!?]+/);
-  const avgSentenceLength = sentences.reduce((sum, s) => sum + s.length, 0) / sentences.length;
-  if (avgSentenceLength > 100) score -= 0.2;
-  if (avgSentenceLength > 150) score -= 0.3;
+  const sentences = splitSentences(content, languageCode)
+    .map((sentence) => sentence.text.trim())
+    .filter(Boolean);
+  const avgSentenceLength =
+    sentences.reduce((sum, s) => sum + s.length, 0) / Math.max(1, sentences.length);
+  const average = `Average sentence length is ${Math.round(avgSentenceLength)} characters`;
+  if (avgSentenceLength > 100) {
+    deductions.push(deduction('long-sentences', `${average} (over 100)`, 20));
+  }
+  if (avgSentenceLength > 150) {
+    deductions.push(deduction('long-sentences', `${average} (over 150)`, 30));
+  }
 
   // Penalize for nested instructions
-  const nestedCount = (content.match(/\([^()]*\)/g) || []).length;
-  score -= nestedCount * 0.1;
+  for (const match of content.matchAll(/\([^()]*\)/g)) {
+    deductions.push(
+      deduction(
+        'parenthetical',
+        'Parenthetical instruction',
+        10,
+        parsed.positionAt(match.index ?? 0)
+      )
+    );
+  }
 
   // Reward clear section markers
-  const hasMarkers = /^[A-Z]+:/m.test(content);
-  if (hasMarkers) score += 0.2;
+  if (parsed.sections.length > 0) {
+    deductions.push(deduction('section-markers', 'Clear section markers', -20));
+  }
 
-  return Math.max(0, Math.min(1, score));
+  return deductions;
 }
 
-function calculateConciseness(content: string): number {
-  let score = 1.0;
+function calculateConciseness(content: string): ScoreDeduction[] {
+  const deductions: ScoreDeduction[] = [];
 
   // Penalize for repetitive words
   const words = content.toLowerCase().split(/\s+/);
@@ -102,29 +197,54 @@ function calculateConciseness(content: string): number {
   words.forEach((word) => {
     wordFreq.set(word, (wordFreq.get(word) || 0) + 1);
   });
-  const repetitiveWords = Array.from(wordFreq.values()).filter((freq) => freq > 3).length;
-  score -= repetitiveWords * 0.1;
+  wordFreq.forEach((freq, word) => {
+    if (freq > 3) {
+      deductions.push(deduction('repeated-word', `"${word}" appears ${freq} times`, 10));
+    }
+  });
 
   // Penalize for very long content
-  if (content.length > 500) score -= 0.2;
-  if (content.length > 1000) score -= 0.3;
+  if (content.length > 500) {
+    deductions.push(deduction('template-length', 'Template is over 500 characters', 20));
+  }
+  if (content.length > 1000) {
+    deductions.push(deduction('template-length', 'Template is over 1000 characters', 30));
+  }
 
-  return Math.max(0, Math.min(1, score));
+  return deductions;
 }
 
-function calculateConsistency(content: string): number {
-  let score = 1.0;
+function calculateConsistency(
+  content: string,
+  parsed: ParsedTemplate,
+  { lexicon }: ResolvedLanguage
+): ScoreDeduction[] {
+  const deductions: ScoreDeduction[] = [];
 
   // Check for mixed tenses
-  const presentTense = /\b(is|are|am)\b/g;
-  const pastTense = /\b(was|were)\b/g;
-  const presentCount = (content.match(presentTense) || []).length;
-  const pastCount = (content.match(pastTense) || []).length;
-  if (presentCount > 0 && pastCount > 0) score -= 0.2;
+  const tensePattern = (terms: string[] = []): RegExp | undefined =>
+    terms.length > 0
+      ? new RegExp(terms.map((term) => termPattern(term).source).join('|'), 'u')
+      : undefined;
+  const present = tensePattern(lexicon?.tense.present);
+  const pastTense = tensePattern(lexicon?.tense.past)?.exec(content);
+  if (present?.test(content) && pastTense) {
+    deductions.push(
+      deduction(
+        'mixed-tense',
+        'Mixes present and past tense',
+        20,
+        parsed.positionAt(pastTense.index ?? 0)
+      )
+    );
+  }
 
   // Check for consistent formatting
-  const bulletStyles = new Set(content.match(/^[-*•]/gm));
-  if (bulletStyles.size > 1) score -= 0.2;
+  const [first] = parsed.bullets;
+  const mixed = parsed.bullets.find((bullet) => bullet.marker !== first.marker);
+  if (mixed) {
+    deductions.push(deduction('bullet-consistency', 'Mixes bullet styles', 20, mixed.span.start));
+  }
 
-  return Math.max(0, Math.min(1, score));
+  return deductions;
 }
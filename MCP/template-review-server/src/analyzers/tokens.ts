@@ -0,0 +1,186 @@
+import { formatValue } from '../renderers/render.js';
+import { TokenizerFamily } from '../tokenizers/families.js';
+import { TokenizerTable, countTokens, loadTokenizerTable } from '../tokenizers/tokenizer.js';
+import { Conversation, parseConversation } from '../utils/conversation.js';
+import {
+  ParseOptions,
+  ParsedTemplate,
+  TemplateSection,
+  TemplateVariable,
+  parseTemplate,
+} from '../utils/parser.js';
+
+export interface SectionTokens {
+  name: string;
+  line: number;
+  tokens: number;
+  /** Share of the template total, 0–1 */
+  share: number;
+}
+
+export interface VariableTokens {
+  name: string;
+  occurrences: number;
+  /** Tokens for every occurrence; the placeholder itself when no value was given */
+  tokens: number;
+  rendered: boolean;
+}
+
+export interface TokenReport {
+  family: TokenizerFamily;
+  /** Estimated tokens for the whole template, with supplied variables rendered */
+  total: number;
+  budget?: number;
+  overBudget: boolean;
+  /** Top-level sections, or the turns of a conversation, largest first */
+  sections: SectionTokens[];
+  /** Tokens outside those sections: frontmatter, preamble and wrapper tags */
+  other: number;
+  variables: VariableTokens[];
+}
+
+export interface TokenOptions {
+  family: TokenizerFamily;
+  budget?: number;
+  /** Variable values to render before counting */
+  variables?: Record<string, unknown>;
+  parseOptions?: ParseOptions;
+}
+
+/**
+ * Estimates the context-window cost of a template, per section and per variable
+ */
+export async function analyzeTokens(content: string, options: TokenOptions): Promise<TokenReport> {
+  const table = await loadTokenizerTable(options.family);
+  const values = options.variables ?? {};
+  const conversation = parseConversation(content);
+  if (conversation) {
+    return conversationTokens(conversation, options, table);
+  }
+
+  const template = parseTemplate(content, options.parseOptions);
+  const placeholders = mustachePlaceholders(template);
+  const count = (start: number, end: number): number =>
+    countRendered(template, start, end, values, table);
+
+  const total = count(0, content.length);
+  const sections = breakdownSections(template.sections).map((section) => ({
+    name: section.name,
+    line: section.span.start.line,
+    tokens: count(section.span.start.offset, section.span.end.offset),
+  }));
+
+  return tokenReport(options, total, sections, variableTokens(placeholders, values, table));
+}
+
+/**
+ * Counts a conversation turn by turn; message content is what the model reads, so JSON
+ * syntax and role markers are left out
+ */
+function conversationTokens(
+  conversation: Conversation,
+  options: TokenOptions,
+  table: TokenizerTable
+): TokenReport {
+  const values = options.variables ?? {};
+  const templates = conversation.messages.map((message) => parseTemplate(message.content));
+  const turns = conversation.messages.map((message, index) => ({
+    name: `${message.role} (turn ${index + 1})`,
+    line: message.line,
+    tokens: countRendered(templates[index], 0, message.content.length, values, table),
+  }));
+  const total = turns.reduce((sum, turn) => sum + turn.tokens, 0);
+  const placeholders = templates.flatMap(mustachePlaceholders);
+
+  return tokenReport(options, total, turns, variableTokens(placeholders, values, table));
+}
+
+function tokenReport(
+  options: TokenOptions,
+  total: number,
+  sections: Omit<SectionTokens, 'share'>[],
+  variables: VariableTokens[]
+): TokenReport {
+  return {
+    family: options.family,
+    total,
+    budget: options.budget,
+    overBudget: options.budget !== undefined && total > options.budget,
+    sections: sections
+      .map((section) => ({
+        ...section,
+        share: total > 0 ? Math.round((section.tokens / total) * 1000) / 1000 : 0,
+      }))
+      .sort((a, b) => b.tokens - a.tokens),
+    other: Math.max(0, total - sections.reduce((sum, section) => sum + section.tokens, 0)),
+    variables,
+  };
+}
+
+function mustachePlaceholders(template: ParsedTemplate): TemplateVariable[] {
+  return template.variables.filter((variable) => variable.syntax === 'mustache');
+}
+
+/**
+ * Counts a range of the template with supplied variables substituted
+ */
+function countRendered(
+  template: ParsedTemplate,
+  start: number,
+  end: number,
+  values: Record<string, unknown>,
+  table: TokenizerTable
+): number {
+  let text = '';
+  let cursor = start;
+  for (const variable of mustachePlaceholders(template)) {
+    const { offset } = variable.span.start;
+    if (offset < start || offset >= end || !(variable.name in values)) continue;
+    text += template.source.slice(cursor, offset) + formatValue(values[variable.name]);
+    cursor = variable.span.end.offset;
+  }
+  return countTokens(text + template.source.slice(cursor, end), table);
+}
+
+/**
+ * Picks the sections to report: the outermost ones, descending into a lone wrapper
+ * such as `<rules>` or a document title so its children are listed instead
+ */
+function breakdownSections(sections: TemplateSection[]): TemplateSection[] {
+  const contains = (outer: TemplateSection, inner: TemplateSection): boolean =>
+    outer !== inner &&
+    outer.span.start.offset <= inner.span.start.offset &&
+    inner.span.end.offset <= outer.span.end.offset;
+  const outermost = (candidates: TemplateSection[]): TemplateSection[] =>
+    candidates.filter((section) => !candidates.some((other) => contains(other, section)));
+
+  let level = outermost(sections);
+  while (level.length === 1) {
+    const children = outermost(sections.filter((section) => contains(level[0], section)));
+    if (children.length === 0) break;
+    level = children;
+  }
+  return level;
+}
+
+function variableTokens(
+  placeholders: { name: string; raw: string }[],
+  values: Record<string, unknown>,
+  table: TokenizerTable
+): VariableTokens[] {
+  const byName = new Map<string, VariableTokens>();
+  for (const variable of placeholders) {
+    const rendered = variable.name in values;
+    const text = rendered ? formatValue(values[variable.name]) : variable.raw;
+    const entry = byName.get(variable.name) ?? {
+      name: variable.name,
+      occurrences: 0,
+      tokens: 0,
+      rendered,
+    };
+    entry.occurrences++;
+    entry.tokens += countTokens(text, table);
+    byName.set(variable.name, entry);
+  }
+  return Array.from(byName.values()).sort((a, b) => b.tokens - a.tokens);
+}
@@ -0,0 +1,179 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { TemplateReport, analyzeAll } from './analysis.js';
+import { DEFAULT_CACHE_DIR, cacheKey, readCacheEntry, writeCacheEntry } from './cache.js';
+import { loadRuleConfig } from './config/loader.js';
+import { ValidationResult, validateTemplate } from './validators/rules.js';
+import { expandPaths } from './utils/glob.js';
+import { loadIgnoreMatcher } from './utils/ignore.js';
+
+export interface BatchOptions {
+  /** Files, directories or globs, relative to `cwd` */
+  paths: string[];
+  cwd?: string;
+  /** Ignore file to honor; defaults to .templatereviewignore and .clineignore in `cwd` */
+  ignoreFile?: string;
+  /** Explicit rule config; otherwise each file discovers its own project config */
+  configPath?: string;
+  /** Number of worst offenders to list in the summary */
+  top?: number;
+  /** Reuse results for unchanged templates; off unless set */
+  cache?: boolean;
+  /** Cache directory, relative to `cwd`; defaults to .template-review-cache */
+  cacheDir?: string;
+}
+
+export interface FileReview {
+  file: string;
+  score?: number;
+  analysis?: TemplateReport;
+  validation?: ValidationResult;
+  error?: string;
+  /** True when the results came from the cache */
+  cached?: boolean;
+}
+
+type CompletedReview = FileReview & {
+  score: number;
+  analysis: TemplateReport;
+  validation: ValidationResult;
+};
+
+export interface AverageScores {
+  overall: number;
+  content: number;
+  patterns: number;
+  security: number;
+  clarity: number;
+  conciseness: number;
+  consistency: number;
+}
+
+export interface Offender {
+  file: string;
+  errors: number;
+  warnings: number;
+  score: number;
+}
+
+export interface BatchSummary {
+  fileCount: number;
+  reviewedCount: number;
+  validCount: number;
+  failedFiles: string[];
+  averageScores: AverageScores;
+  ruleHits: Record<string, number>;
+  worstOffenders: Offender[];
+  /** Files whose results were reused from the cache, and files analyzed afresh */
+  cache?: { hits: number; misses: number };
+}
+
+export interface BatchResult {
+  files: FileReview[];
+  summary: BatchSummary;
+}
+
+const DEFAULT_TOP = 5;
+
+/**
+ * Runs analysis and validation over every template matched by the given paths
+ */
+export async function reviewTemplates(options: BatchOptions): Promise<BatchResult> {
+  const cwd = path.resolve(options.cwd ?? process.cwd());
+  const isIgnored = await loadIgnoreMatcher(cwd, options.ignoreFile);
+  const files = await expandPaths(options.paths, { cwd, isIgnored });
+
+  const cacheDir =
+    options.cache === true ? path.resolve(cwd, options.cacheDir ?? DEFAULT_CACHE_DIR) : undefined;
+
+  const reviews: FileReview[] = [];
+  for (const file of files) {
+    reviews.push(await reviewFile(file, cwd, options.configPath, cacheDir));
+  }
+
+  const summary = summarize(reviews, options.top ?? DEFAULT_TOP);
+  if (cacheDir) {
+    const hits = reviews.filter((review) => review.cached).length;
+    summary.cache = { hits, misses: reviews.length - hits };
+  }
+  return { files: reviews, summary };
+}
+
+async function reviewFile(
+  file: string,
+  cwd: string,
+  configPath?: string,
+  cacheDir?: string
+): Promise<FileReview> {
+  const relative = path.relative(cwd, file).split(path.sep).join('/');
+  try {
+    const content = await readFile(file, 'utf8');
+    const key = cacheDir
+      ? await cacheKey(content, await loadRuleConfig({ templatePath: file, configPath }))
+      : undefined;
+    const cached = cacheDir && key ? await readCacheEntry(cacheDir, key) : undefined;
+    if (cached) {
+      const { analysis, validation } = cached;
+      return { file: relative, score: analysis.score.score, analysis, validation, cached: true };
+    }
+
+    const analysis = await analyzeAll(content, undefined, { templatePath: file, configPath });
+    const validation = await validateTemplate(content, { templatePath: file, configPath });
+    if (cacheDir && key) {
+      await writeCacheEntry(cacheDir, key, { analysis, validation });
+    }
+    return { file: relative, score: analysis.score.score, analysis, validation };
+  } catch (error) {
+    return { file: relative, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+function summarize(reviews: FileReview[], top: number): BatchSummary {
+  const reviewed = reviews.filter(
+    (review): review is CompletedReview => review.error === undefined
+  );
+
+  const ruleHits: Record<string, number> = {};
+  reviewed.forEach((review) => {
+    review.validation.violations.forEach((violation) => {
+      ruleHits[violation.rule] = (ruleHits[violation.rule] ?? 0) + 1;
+    });
+  });
+
+  const average = (pick: (review: CompletedReview) => number): number =>
+    reviewed.length === 0
+      ? 0
+      : round(reviewed.reduce((sum, review) => sum + pick(review), 0) / reviewed.length);
+
+  const worstOffenders = reviewed
+    .map((review) => ({
+      file: review.file,
+      errors: review.validation.violations.filter((v) => v.severity === 'error').length,
+      warnings: review.validation.violations.filter((v) => v.severity === 'warning').length,
+      score: review.score,
+    }))
+    .sort((a, b) => b.errors - a.errors || b.warnings - a.warnings || a.score - b.score)
+    .slice(0, top);
+
+  return {
+    fileCount: reviews.length,
+    reviewedCount: reviewed.length,
+    validCount: reviewed.filter((review) => review.validation.isValid).length,
+    failedFiles: reviews.filter((review) => review.error).map((review) => review.file),
+    averageScores: {
+      overall: average((review) => review.score),
+      content: average((review) => review.analysis.content.score),
+      patterns: average((review) => review.analysis.patterns.score),
+      security: average((review) => review.analysis.security.score),
+      clarity: average((review) => review.analysis.quality.clarity),
+      conciseness: average((review) => review.analysis.quality.conciseness),
+      consistency: average((review) => review.analysis.quality.consistency),
+    },
+    ruleHits: Object.fromEntries(Object.entries(ruleHits).sort(([, a], [, b]) => b - a)),
+    worstOffenders,
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
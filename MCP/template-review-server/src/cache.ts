@@ -0,0 +1,204 @@
+import { createHash } from 'crypto';
+import { mkdir, readFile, readdir, rename, rm, stat, writeFile } from 'fs/promises';
+import path from 'path';
+import { TemplateReport } from './analysis.js';
+import { RuleConfig } from './config/loader.js';
+import { ValidationResult } from './validators/rules.js';
+import { TOOL_VERSION } from './version.js';
+
+export const DEFAULT_CACHE_DIR = '.template-review-cache';
+
+// Marks a directory as a cache, following the Cache Directory Tagging Specification, so
+// `cache clear` only ever deletes from a directory this tool created
+const CACHE_TAG = 'CACHEDIR.TAG';
+const CACHE_TAG_SIGNATURE = 'Signature: 8a477f597d28d172789f06886806bc55';
+
+// `from './x.js'`, `import './x.js'`, `import('./x.js')` and `require('./x.js')`
+const RELATIVE_IMPORT = /(?:\bfrom|\bimport|\brequire)\s*\(?\s*['"](\.{1,2}\/[^'"]+)['"]/g;
+
+/** Analyzer and validator results for one template under one config */
+export interface CacheEntry {
+  analysis: TemplateReport;
+  validation: ValidationResult;
+}
+
+interface StoredEntry extends CacheEntry {
+  version: string;
+  createdAt: string;
+}
+
+export interface CacheStats {
+  dir: string;
+  entries: number;
+  bytes: number;
+  /** Modification times of the oldest and newest entries, i.e. when they were written */
+  oldest?: string;
+  newest?: string;
+}
+
+export interface CacheClearResult {
+  dir: string;
+  removed: number;
+}
+
+export class CacheError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CacheError';
+  }
+}
+
+/**
+ * Key for a template's results: its content hash, the effective rule config, the content
+ * of each plugin module and of the local modules it imports, and the tool version. Any
+ * change to one of them is a miss.
+ */
+export async function cacheKey(content: string, config: RuleConfig): Promise<string> {
+  const plugins = await Promise.all(
+    config.plugins.map(async (entry) => {
+      const source = typeof entry === 'string' ? entry : entry.path;
+      return { source, modules: await hashModuleTree(source) };
+    })
+  );
+  return sha256(
+    JSON.stringify({
+      version: TOOL_VERSION,
+      template: sha256(content),
+      config: canonicalize(config),
+      plugins,
+    })
+  );
+}
+
+/**
+ * Hashes a module and, transitively, the relative imports it makes, keyed by path.
+ * Package imports are not followed.
+ */
+async function hashModuleTree(entry: string): Promise<Record<string, string | undefined>> {
+  const hashes: Record<string, string | undefined> = {};
+  const pending = [path.resolve(entry)];
+  for (let file = pending.pop(); file !== undefined; file = pending.pop()) {
+    if (file in hashes) {
+      continue;
+    }
+    // A missing module still fails when loaded; its path alone keys it until then
+    const code = await readFile(file).catch(() => undefined);
+    hashes[file] = code ? sha256(code) : undefined;
+    for (const match of code?.toString('utf8').matchAll(RELATIVE_IMPORT) ?? []) {
+      pending.push(path.resolve(path.dirname(file), match[1]));
+    }
+  }
+  return hashes;
+}
+
+/**
+ * Reads an entry, or undefined when there is none or it cannot be read
+ */
+export async function readCacheEntry(dir: string, key: string): Promise<CacheEntry | undefined> {
+  try {
+    const stored = JSON.parse(await readFile(entryPath(dir, key), 'utf8')) as StoredEntry;
+    if (stored.version !== TOOL_VERSION) {
+      return undefined;
+    }
+    return { analysis: stored.analysis, validation: stored.validation };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Writes an entry through a temporary file, so a concurrent run never reads half of one
+ */
+export async function writeCacheEntry(dir: string, key: string, entry: CacheEntry): Promise<void> {
+  const stored: StoredEntry = {
+    version: TOOL_VERSION,
+    createdAt: new Date().toISOString(),
+    ...entry,
+  };
+  const file = entryPath(dir, key);
+  const temporary = `${file}.${process.pid}.tmp`;
+  await mkdir(dir, { recursive: true });
+  if (!(await isCacheDir(dir))) {
+    await writeFile(
+      path.join(dir, CACHE_TAG),
+      `${CACHE_TAG_SIGNATURE}\n# This directory is a template-review-server result cache.\n`,
+      'utf8'
+    );
+  }
+  await writeFile(temporary, JSON.stringify(stored), 'utf8');
+  await rename(temporary, file);
+}
+
+export async function cacheStats(dir: string): Promise<CacheStats> {
+  const stats: CacheStats = { dir: path.resolve(dir), entries: 0, bytes: 0 };
+  for (const file of await entryFiles(dir)) {
+    const info = await stat(file).catch(() => undefined);
+    if (!info) {
+      continue;
+    }
+    stats.entries++;
+    stats.bytes += info.size;
+    const created = info.mtime.toISOString();
+    if (!stats.oldest || created < stats.oldest) {
+      stats.oldest = created;
+    }
+    if (!stats.newest || created > stats.newest) {
+      stats.newest = created;
+    }
+  }
+  return stats;
+}
+
+/**
+ * Deletes the cache entries and leaves the directory and any other file in it. A directory
+ * that exists but was not created as a cache is refused, so a mistyped path deletes nothing.
+ */
+export async function clearCache(dir: string): Promise<CacheClearResult> {
+  const result: CacheClearResult = { dir: path.resolve(dir), removed: 0 };
+  if (!(await stat(dir).catch(() => undefined))) {
+    return result;
+  }
+  if (!(await isCacheDir(dir))) {
+    throw new CacheError(`Not a template-review cache directory: ${result.dir}`);
+  }
+  for (const file of await entryFiles(dir)) {
+    await rm(file, { force: true });
+    result.removed++;
+  }
+  return result;
+}
+
+async function isCacheDir(dir: string): Promise<boolean> {
+  const tag = await readFile(path.join(dir, CACHE_TAG), 'utf8').catch(() => '');
+  return tag.startsWith(CACHE_TAG_SIGNATURE);
+}
+
+async function entryFiles(dir: string): Promise<string[]> {
+  const names = await readdir(dir).catch(() => []);
+  return names.filter((name) => name.endsWith('.json')).map((name) => path.join(dir, name));
+}
+
+function entryPath(dir: string, key: string): string {
+  return path.join(dir, `${key}.json`);
+}
+
+function sha256(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Sorts object keys so equal configs serialize, and hash, the same
+ */
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, canonicalize((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
@@ -0,0 +1,106 @@
+import {
+  REPORT_FORMATS,
+  ReportFormat,
+  hasErrors,
+  isReportFormat,
+  renderReport,
+} from './reporters/format.js';
+import { TOOLS, findTool, runTool } from './tools.js';
+import { readStdin, writeError, writeJson } from './utils/iostream.js';
+
+export interface CliOptions {
+  /**
+   * Output format; anything but json renders findings and exits 1 when errors are found.
+   * Failing results, such as failed test cases, exit 1 in every format.
+   */
+  format?: ReportFormat;
+  /** Tool input; read from stdin as JSON when omitted */
+  input?: unknown;
+  /** Apply safe fixes; only validate_template supports it */
+  fix?: boolean;
+}
+
+export interface CliArgs {
+  positional: string[];
+  format?: ReportFormat;
+  fix: boolean;
+  /** False with `--no-cache`; only `batch` caches results */
+  cache: boolean;
+}
+
+// Tools that take a `fix` flag in their input
+const FIXING_TOOLS = ['validate_template'];
+
+/**
+ * Splits `--format <name>` / `--format=<name>`, `--fix` and `--no-cache` out of the
+ * command-line arguments
+ */
+export function parseCliArgs(args: string[]): CliArgs {
+  const positional: string[] = [];
+  let format: string | undefined;
+  let fix = false;
+  let cache = true;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--format') {
+      format = args[++i];
+    } else if (arg.startsWith('--format=')) {
+      format = arg.slice('--format='.length);
+    } else if (arg === '--fix') {
+      fix = true;
+    } else if (arg === '--no-cache') {
+      cache = false;
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  if (format !== undefined && !isReportFormat(format)) {
+    throw new Error(`Unknown format: ${format}. Expected one of: ${REPORT_FORMATS.join(', ')}`);
+  }
+  return { positional, format, fix, cache };
+}
+
+/**
+ * Runs a single tool against a JSON payload, read from stdin unless given, then exits
+ */
+export async function runCli(mode: string | undefined, options: CliOptions = {}): Promise<void> {
+  if (!mode) {
+    writeError(
+      `No command provided. Expected one of: ${TOOLS.map((tool) => tool.name).join(', ')}`
+    );
+    process.exit(1);
+  }
+
+  try {
+    if (options.fix && !FIXING_TOOLS.includes(mode)) {
+      throw new Error(`--fix is only supported for ${FIXING_TOOLS.join(', ')}`);
+    }
+    const payload = options.input ?? JSON.parse(await readStdin());
+    const input = options.fix ? { ...payload, fix: true } : payload;
+    const result = await runTool(mode, input);
+    const format = options.format ?? 'json';
+    if (findTool(mode)?.fails?.(result)) {
+      process.exitCode = 1;
+    }
+
+    if (format === 'json') {
+      writeJson(result);
+      return;
+    }
+
+    const toFindings = findTool(mode)?.findings;
+    if (!toFindings) {
+      throw new Error(`Format "${format}" is not supported for ${mode}`);
+    }
+    const files = toFindings(input, result);
+    process.stdout.write(renderReport(format, files));
+    if (hasErrors(files)) {
+      process.exitCode = 1;
+    }
+  } catch (err) {
+    writeError(err instanceof Error ? err.message : String(err));
+    process.exit(1);
+  }
+}
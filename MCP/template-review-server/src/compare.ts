@@ -0,0 +1,175 @@
+import { TemplateReport, analyzeAll } from './analysis.js';
+import { ConfigOptions, loadRuleConfig, templateParseOptions } from './config/loader.js';
+import { SCORE_DIMENSIONS, ScoreDimension } from './types.js';
+import { parseTemplate } from './utils/parser.js';
+import { VariableDeclaration, readVariableContract } from './validators/contract.js';
+import { ValidationResult, ValidationViolation, validateTemplate } from './validators/rules.js';
+
+export interface CompareOptions extends ConfigOptions {
+  /** Points the composite score may drop before the new version counts as a regression */
+  maxRegression?: number;
+}
+
+export interface ScoreDelta {
+  old: number;
+  new: number;
+  /** New minus old; negative is worse */
+  delta: number;
+}
+
+export interface VariableChange {
+  name: string;
+  /** What changed, e.g. `type: string → number` */
+  changes: string[];
+}
+
+export interface TemplateComparison {
+  score: ScoreDelta & { oldGrade: string; newGrade: string };
+  dimensions: Record<ScoreDimension, ScoreDelta>;
+  violations: {
+    /** In the new version only, with positions in the new version */
+    added: ValidationViolation[];
+    /** In the old version only, with positions in the old version */
+    resolved: ValidationViolation[];
+  };
+  sections: { added: string[]; removed: string[] };
+  /** Differences between the frontmatter variable contracts */
+  variables: { added: string[]; removed: string[]; changed: VariableChange[] };
+  maxRegression: number;
+  /** True when the score dropped by more than `maxRegression` or a new error appeared */
+  regressed: boolean;
+  reasons: string[];
+}
+
+/**
+ * Analyzes and validates two versions of a template with the same config and reports
+ * what got better or worse
+ */
+export async function compareTemplates(
+  oldContent: string,
+  newContent: string,
+  options: CompareOptions = {}
+): Promise<TemplateComparison> {
+  const config = await loadRuleConfig(options);
+  const review = async (
+    content: string
+  ): Promise<{ analysis: TemplateReport; validation: ValidationResult }> => ({
+    analysis: await analyzeAll(content, undefined, options),
+    validation: await validateTemplate(content, { ...options, config }),
+  });
+  const before = await review(oldContent);
+  const after = await review(newContent);
+
+  const delta = (oldValue: number, newValue: number): ScoreDelta => ({
+    old: oldValue,
+    new: newValue,
+    delta: round(newValue - oldValue),
+  });
+  const score = delta(before.analysis.score.score, after.analysis.score.score);
+  const violations = {
+    added: subtractViolations(after.validation.violations, before.validation.violations),
+    resolved: subtractViolations(before.validation.violations, after.validation.violations),
+  };
+
+  const maxRegression = options.maxRegression ?? config.scoring.maxRegression;
+  const reasons: string[] = [];
+  if (-score.delta > maxRegression) {
+    reasons.push(
+      `Score dropped by ${-score.delta} points (${score.old} → ${score.new}), more than the allowed ${maxRegression}`
+    );
+  }
+  const newErrors = violations.added.filter((violation) => violation.severity === 'error');
+  if (newErrors.length > 0) {
+    reasons.push(`${newErrors.length} new error(s): ${newErrors.map((v) => v.rule).join(', ')}`);
+  }
+
+  const parseOptions = templateParseOptions(config);
+  const oldTemplate = parseTemplate(oldContent, parseOptions);
+  const newTemplate = parseTemplate(newContent, parseOptions);
+  const oldSections = new Set(oldTemplate.sections.map((section) => section.canonical));
+  const newSections = new Set(newTemplate.sections.map((section) => section.canonical));
+
+  return {
+    score: {
+      ...score,
+      oldGrade: before.analysis.score.grade,
+      newGrade: after.analysis.score.grade,
+    },
+    dimensions: Object.fromEntries(
+      SCORE_DIMENSIONS.map((dimension) => [
+        dimension,
+        delta(
+          before.analysis.score.dimensions[dimension].score,
+          after.analysis.score.dimensions[dimension].score
+        ),
+      ])
+    ) as Record<ScoreDimension, ScoreDelta>,
+    violations,
+    sections: {
+      added: Array.from(newSections).filter((name) => !oldSections.has(name)),
+      removed: Array.from(oldSections).filter((name) => !newSections.has(name)),
+    },
+    variables: compareContracts(
+      readVariableContract(oldTemplate).variables,
+      readVariableContract(newTemplate).variables
+    ),
+    maxRegression,
+    regressed: reasons.length > 0,
+    reasons,
+  };
+}
+
+/**
+ * Violations in `from` with no counterpart in `other`. Lines move between versions, so
+ * violations are matched by rule and message, as many times as each occurs.
+ */
+function subtractViolations(
+  from: ValidationViolation[],
+  other: ValidationViolation[]
+): ValidationViolation[] {
+  const key = (violation: ValidationViolation): string => `${violation.rule}\0${violation.message}`;
+  const remaining = new Map<string, number>();
+  other.forEach((violation) =>
+    remaining.set(key(violation), (remaining.get(key(violation)) ?? 0) + 1)
+  );
+
+  return from.filter((violation) => {
+    const count = remaining.get(key(violation)) ?? 0;
+    remaining.set(key(violation), count - 1);
+    return count <= 0;
+  });
+}
+
+function compareContracts(
+  before: VariableDeclaration[],
+  after: VariableDeclaration[]
+): TemplateComparison['variables'] {
+  const oldByName = new Map(before.map((declaration) => [declaration.name, declaration]));
+  const newNames = new Set(after.map((declaration) => declaration.name));
+
+  const changed: VariableChange[] = [];
+  for (const declaration of after) {
+    const previous = oldByName.get(declaration.name);
+    if (!previous) continue;
+    const changes = (['type', 'required', 'default'] as const)
+      .filter((field) => JSON.stringify(previous[field]) !== JSON.stringify(declaration[field]))
+      .map((field) => `${field}: ${describe(previous[field])} → ${describe(declaration[field])}`);
+    if (changes.length > 0) {
+      changed.push({ name: declaration.name, changes });
+    }
+  }
+
+  return {
+    added: after.map((declaration) => declaration.name).filter((name) => !oldByName.has(name)),
+    removed: before.map((declaration) => declaration.name).filter((name) => !newNames.has(name)),
+    changed,
+  };
+}
+
+function describe(value: unknown): string {
+  return value === undefined ? 'none' : JSON.stringify(value);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
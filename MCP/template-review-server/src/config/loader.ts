@@ -0,0 +1,307 @@
+import { readFile, stat } from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+import { TOKENIZER_FAMILIES } from '../tokenizers/families.js';
+import { SCORE_DIMENSIONS, ScoreDimension } from '../types.js';
+import { ParseOptions, TEMPLATE_DIALECTS } from '../utils/parser.js';
+import { formatZodError } from '../validators/schema.js';
+
+export const PROJECT_CONFIG_FILENAME = '.template-review.json';
+
+const ruleSettingSchema = z.enum(['error', 'warning', 'off']);
+
+const structureSchema = z.strictObject({
+  requiredSections: z.array(z.string().min(1)),
+  recommendedSections: z.array(z.string().min(1)),
+  sectionAliases: z.record(z.string(), z.array(z.string().min(1))),
+  sectionOrder: z.array(z.string().min(1)),
+  dialect: z.enum(['auto', ...TEMPLATE_DIALECTS]),
+});
+
+const contentSchema = z.strictObject({
+  maxSentenceLength: z.number().int().positive(),
+  /** Language code such as `es`, or `auto` to detect it from each template */
+  language: z.string().min(1),
+  /** Replaces the language's ambiguous terms in every language; null to use the lexicon */
+  ambiguousTerms: z.array(z.string().min(1)).nullable(),
+});
+
+const formattingSchema = z.strictObject({
+  preferredBulletStyle: z.enum(['-', '*', '•']),
+  sectionSpacing: z.number().int().nonnegative(),
+  allowTrailingWhitespace: z.boolean(),
+  requireConsistentCase: z.boolean(),
+});
+
+const variablesSchema = z.strictObject({
+  format: z.string(),
+  allowedCharacters: z.string(),
+  suggestForLongContent: z.boolean(),
+  minContentLengthForSuggestion: z.number().int().nonnegative(),
+});
+
+const tokensSchema = z.strictObject({
+  family: z.enum(TOKENIZER_FAMILIES),
+  /** Maximum estimated tokens per template; null for no limit */
+  budget: z.number().int().positive().nullable(),
+});
+
+const securitySchema = z.strictObject({
+  /** Words in a variable name that mark it as untrusted input, e.g. `input` */
+  untrustedVariables: z.array(z.string().min(1)),
+});
+
+const weightsSchema = z.strictObject(
+  Object.fromEntries(
+    SCORE_DIMENSIONS.map((dimension) => [dimension, z.number().nonnegative()])
+  ) as Record<ScoreDimension, z.ZodNumber>
+);
+
+const scoringSchema = z.strictObject({
+  /** Relative weight of each dimension in the composite score */
+  weights: weightsSchema,
+  /** Letter grades and the minimum score for each */
+  grades: z.record(z.string().min(1), z.number().min(0).max(100)),
+  passingScore: z.number().min(0).max(100),
+  /** Points the score may drop between two versions before compare_template fails */
+  maxRegression: z.number().min(0),
+});
+
+const librarySchema = z.strictObject({
+  /** Files, directories or globs served as `template://` resources */
+  paths: z.array(z.string().min(1)),
+  /** Ignore file to honor; null for .templatereviewignore and .clineignore */
+  ignoreFile: z.string().min(1).nullable(),
+  /** Result cache shared with `batch`; null keeps scores in memory only */
+  cacheDir: z.string().min(1).nullable(),
+});
+
+// A plugin module path, relative to the config file, with optional plugin options
+const pluginEntrySchema = z.union([
+  z.string().min(1),
+  z.strictObject({
+    path: z.string().min(1),
+    options: z.record(z.string(), z.unknown()).optional(),
+  }),
+]);
+
+// Full rule configuration, as shipped in default-rules.json
+export const ruleConfigSchema = z.strictObject({
+  rules: z.record(z.string(), ruleSettingSchema),
+  plugins: z.array(pluginEntrySchema),
+  structure: structureSchema,
+  content: contentSchema,
+  formatting: formattingSchema,
+  variables: variablesSchema,
+  scoring: scoringSchema,
+  tokens: tokensSchema,
+  security: securitySchema,
+  library: librarySchema,
+});
+
+// Project overrides: every section and every field is optional
+export const projectConfigSchema = z.strictObject({
+  rules: z.record(z.string(), ruleSettingSchema).optional(),
+  plugins: z.array(pluginEntrySchema).optional(),
+  structure: structureSchema.partial().optional(),
+  content: contentSchema.partial().optional(),
+  formatting: formattingSchema.partial().optional(),
+  variables: variablesSchema.partial().optional(),
+  scoring: scoringSchema.extend({ weights: weightsSchema.partial() }).partial().optional(),
+  tokens: tokensSchema.partial().optional(),
+  security: securitySchema.partial().optional(),
+  library: librarySchema.partial().optional(),
+});
+
+export type RuleSetting = z.infer<typeof ruleSettingSchema>;
+export type PluginEntry = z.infer<typeof pluginEntrySchema>;
+export type RuleConfig = z.infer<typeof ruleConfigSchema>;
+export type ProjectConfig = z.infer<typeof projectConfigSchema>;
+
+export interface ConfigOptions {
+  /** Path of the template being validated; used to discover a project config */
+  templatePath?: string;
+  /** Explicit project config file; skips discovery */
+  configPath?: string;
+  /** Inline overrides applied after any project config file */
+  overrides?: ProjectConfig;
+}
+
+/**
+ * Raised when a rule config file cannot be read or does not match the schema
+ */
+export class ConfigError extends Error {
+  constructor(
+    message: string,
+    public readonly source: string
+  ) {
+    super(`Invalid rule config (${source}): ${message}`);
+    this.name = 'ConfigError';
+  }
+}
+
+let defaultConfig: RuleConfig | undefined;
+
+/**
+ * Loads and validates the bundled default rule configuration
+ */
+export async function loadDefaultConfig(): Promise<RuleConfig> {
+  if (!defaultConfig) {
+    const url = new URL('./default-rules.json', import.meta.url);
+    defaultConfig = parseConfig(
+      ruleConfigSchema,
+      await readJson(url, 'default-rules.json'),
+      'default-rules.json'
+    );
+  }
+  return defaultConfig;
+}
+
+/**
+ * Resolves the effective rule config: defaults, then project file, then inline overrides
+ */
+export async function loadRuleConfig(options: ConfigOptions = {}): Promise<RuleConfig> {
+  let config = await loadDefaultConfig();
+
+  const configPath =
+    options.configPath ??
+    (options.templatePath ? await findProjectConfig(options.templatePath) : undefined);
+
+  if (configPath) {
+    const projectConfig = parseConfig(
+      projectConfigSchema,
+      await readJson(configPath, configPath),
+      configPath
+    );
+    config = mergeConfig(config, resolveConfigPaths(projectConfig, path.dirname(configPath)));
+  }
+
+  if (options.overrides) {
+    const overrides = parseConfig(projectConfigSchema, options.overrides, 'inline overrides');
+    config = mergeConfig(config, resolveConfigPaths(overrides, process.cwd()));
+  }
+
+  return config;
+}
+
+/**
+ * Walks up from the template's directory looking for a project config file
+ */
+export async function findProjectConfig(templatePath: string): Promise<string | undefined> {
+  let dir = path.resolve(templatePath);
+  if (!(await isDirectory(dir))) {
+    dir = path.dirname(dir);
+  }
+
+  for (;;) {
+    const candidate = path.join(dir, PROJECT_CONFIG_FILENAME);
+    if (await isFile(candidate)) {
+      return candidate;
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Merges project overrides into a full config. Objects merge per key, arrays are replaced.
+ * Scoring weights merge per dimension.
+ */
+export function mergeConfig(base: RuleConfig, overrides: ProjectConfig): RuleConfig {
+  return {
+    rules: { ...base.rules, ...overrides.rules },
+    plugins: overrides.plugins ?? base.plugins,
+    structure: { ...base.structure, ...overrides.structure },
+    content: { ...base.content, ...overrides.content },
+    formatting: { ...base.formatting, ...overrides.formatting },
+    variables: { ...base.variables, ...overrides.variables },
+    scoring: {
+      ...base.scoring,
+      ...overrides.scoring,
+      weights: { ...base.scoring.weights, ...overrides.scoring?.weights },
+    },
+    tokens: { ...base.tokens, ...overrides.tokens },
+    security: { ...base.security, ...overrides.security },
+    library: { ...base.library, ...overrides.library },
+  };
+}
+
+/**
+ * Parser options for the configured sections, aliases and dialect
+ */
+export function templateParseOptions(config: RuleConfig): ParseOptions {
+  const { requiredSections, recommendedSections, sectionOrder } = config.structure;
+  return {
+    sectionNames: Array.from(
+      new Set([...requiredSections, ...recommendedSections, ...sectionOrder])
+    ),
+    sectionAliases: config.structure.sectionAliases,
+    dialect: config.structure.dialect,
+  };
+}
+
+/**
+ * Makes plugin and library paths absolute so they still resolve once configs are merged
+ */
+function resolveConfigPaths(config: ProjectConfig, baseDir: string): ProjectConfig {
+  const resolved = { ...config };
+  if (config.plugins) {
+    resolved.plugins = config.plugins.map((entry) =>
+      typeof entry === 'string'
+        ? path.resolve(baseDir, entry)
+        : { ...entry, path: path.resolve(baseDir, entry.path) }
+    );
+  }
+  if (config.library) {
+    const { paths, ignoreFile, cacheDir } = config.library;
+    resolved.library = {
+      ...config.library,
+      ...(paths && { paths: paths.map((entry) => path.resolve(baseDir, entry)) }),
+      ...(ignoreFile && { ignoreFile: path.resolve(baseDir, ignoreFile) }),
+      ...(cacheDir && { cacheDir: path.resolve(baseDir, cacheDir) }),
+    };
+  }
+  return resolved;
+}
+
+function parseConfig<T extends z.ZodType>(schema: T, value: unknown, source: string): z.infer<T> {
+  const parsed = schema.safeParse(value);
+  if (!parsed.success) {
+    throw new ConfigError(formatZodError(parsed.error), source);
+  }
+  return parsed.data;
+}
+
+async function readJson(file: string | URL, source: string): Promise<unknown> {
+  let text: string;
+  try {
+    text = await readFile(file, 'utf8');
+  } catch (error) {
+    throw new ConfigError(error instanceof Error ? error.message : String(error), source);
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new ConfigError(error instanceof Error ? error.message : String(error), source);
+  }
+}
+
+async function isFile(file: string): Promise<boolean> {
+  try {
+    return (await stat(file)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+async function isDirectory(dir: string): Promise<boolean> {
+  try {
+    return (await stat(dir)).isDirectory();
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,390 @@
+import { readFile, stat } from 'fs/promises';
+import path from 'path';
+import { analyzeAll } from './analysis.js';
+import { createUnifiedDiff, diffHunks } from './utils/diff.js';
+import { expandPaths } from './utils/glob.js';
+import { loadIgnoreMatcher } from './utils/ignore.js';
+
+export interface DuplicateOptions {
+  /** Files, directories or globs, relative to `cwd` */
+  paths: string[];
+  cwd?: string;
+  /** Ignore file to honor; defaults to .templatereviewignore and .clineignore in `cwd` */
+  ignoreFile?: string;
+  /** Explicit rule config for scoring copies; otherwise each file discovers its own */
+  configPath?: string;
+  /** Shingle similarity, 0–1, at which two files or paragraphs count as near-duplicates */
+  threshold?: number;
+  /** Paragraphs with fewer words are too short to compare */
+  minParagraphWords?: number;
+}
+
+/** `count` lines from 1-based `line`; a count of 0 is a position between lines */
+export interface LineRange {
+  line: number;
+  count: number;
+}
+
+/** A place where a copy differs from the canonical file */
+export interface Divergence {
+  canonical: LineRange;
+  copy: LineRange;
+}
+
+export interface DuplicateCopy {
+  file: string;
+  /** Jaccard similarity of the two files' word shingles, 0–1 */
+  similarity: number;
+  identical: boolean;
+  divergences: Divergence[];
+  /** Unified diff from the canonical file to this copy */
+  diff: string;
+}
+
+/** Files that are near-duplicates of each other, directly or through another copy */
+export interface DuplicateGroup {
+  /** The copy to keep, with the others merged into it */
+  canonical: string;
+  /** Why that copy was chosen */
+  reason: string;
+  copies: DuplicateCopy[];
+}
+
+export interface ParagraphLocation {
+  file: string;
+  line: number;
+}
+
+/** A paragraph repeated, nearly word for word, in templates that are not copies of each other */
+export interface ParagraphDuplicate {
+  /** Lowest similarity between any two of the occurrences */
+  similarity: number;
+  preview: string;
+  locations: ParagraphLocation[];
+}
+
+export interface DuplicateReport {
+  fileCount: number;
+  threshold: number;
+  groups: DuplicateGroup[];
+  paragraphs: ParagraphDuplicate[];
+}
+
+interface LibraryFile {
+  /** Relative to `cwd`, with forward slashes */
+  file: string;
+  absolute: string;
+  content: string;
+  modified: Date;
+}
+
+type RankedFile = LibraryFile & { score: number; lines: number };
+
+/** A file or paragraph prepared for comparison */
+interface Passage {
+  file: string;
+  line: number;
+  text: string;
+  shingles: Set<number>;
+}
+
+interface SimilarPair {
+  a: number;
+  b: number;
+  similarity: number;
+}
+
+const DEFAULT_THRESHOLD = 0.7;
+const DEFAULT_MIN_PARAGRAPH_WORDS = 12;
+// Words per shingle
+const SHINGLE_SIZE = 5;
+// 32 bands of 4 rows: pairs from about 0.4 similarity up share a band
+const BANDS = 32;
+const ROWS = 4;
+const PREVIEW_LENGTH = 80;
+const SEEDS = createSeeds(BANDS * ROWS);
+
+/**
+ * Finds near-duplicate templates and paragraphs across a library. Candidates come from
+ * MinHash signatures of word shingles; each candidate's exact shingle similarity decides.
+ */
+export async function findDuplicates(options: DuplicateOptions): Promise<DuplicateReport> {
+  const cwd = path.resolve(options.cwd ?? process.cwd());
+  const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+  const isIgnored = await loadIgnoreMatcher(cwd, options.ignoreFile);
+  const paths = await expandPaths(options.paths, { cwd, isIgnored });
+
+  const files: LibraryFile[] = [];
+  for (const absolute of paths) {
+    files.push({
+      file: path.relative(cwd, absolute).split(path.sep).join('/'),
+      absolute,
+      content: await readFile(absolute, 'utf8'),
+      modified: (await stat(absolute)).mtime,
+    });
+  }
+
+  const whole = files.map((file) => toPassage(file.file, 1, file.content));
+  const clusters = groupPairs(whole.length, findSimilar(whole, threshold));
+  const groups: DuplicateGroup[] = [];
+  const groupOf = new Map<string, number>();
+  for (const cluster of clusters) {
+    const members = cluster.map((index) => files[index]);
+    members.forEach((member) => groupOf.set(member.file, groups.length));
+    groups.push(await describeGroup(members, options.configPath));
+  }
+
+  const minWords = options.minParagraphWords ?? DEFAULT_MIN_PARAGRAPH_WORDS;
+  const paragraphs = files.flatMap((file) => splitParagraphs(file, minWords));
+  // Copies of a whole file share every paragraph; their differences are in `groups`
+  const pairs = findSimilar(paragraphs, threshold).filter(({ a, b }) => {
+    const group = groupOf.get(paragraphs[a].file);
+    return group === undefined || group !== groupOf.get(paragraphs[b].file);
+  });
+
+  return {
+    fileCount: files.length,
+    threshold,
+    groups,
+    paragraphs: groupPairs(paragraphs.length, pairs).map((cluster) => ({
+      similarity: Math.min(
+        ...pairs
+          .filter(({ a, b }) => cluster.includes(a) && cluster.includes(b))
+          .map(({ similarity }) => similarity)
+      ),
+      preview: preview(paragraphs[cluster[0]].text),
+      locations: cluster.map((index) => ({
+        file: paragraphs[index].file,
+        line: paragraphs[index].line,
+      })),
+    })),
+  };
+}
+
+/**
+ * Picks the canonical copy, by composite score, then most recent change, then length, and
+ * compares every other copy with it
+ */
+async function describeGroup(members: LibraryFile[], configPath?: string): Promise<DuplicateGroup> {
+  const ranked: RankedFile[] = [];
+  for (const member of members) {
+    const score = await analyzeAll(member.content, undefined, {
+      templatePath: member.absolute,
+      configPath,
+    })
+      .then((analysis) => analysis.score.score)
+      .catch(() => 0);
+    ranked.push({ ...member, score, lines: member.content.split('\n').length });
+  }
+  ranked.sort(
+    (a, b) =>
+      b.score - a.score ||
+      b.modified.getTime() - a.modified.getTime() ||
+      b.lines - a.lines ||
+      a.file.localeCompare(b.file)
+  );
+
+  const [canonical, runnerUp] = ranked;
+  const base = toPassage(canonical.file, 1, canonical.content);
+  return {
+    canonical: canonical.file,
+    reason: canonicalReason(canonical, runnerUp),
+    copies: ranked.slice(1).map((copy) => ({
+      file: copy.file,
+      similarity: round(jaccard(base.shingles, toPassage(copy.file, 1, copy.content).shingles)),
+      identical: copy.content === canonical.content,
+      divergences: diffHunks(canonical.content.split('\n'), copy.content.split('\n')).map(
+        (hunk) => ({
+          canonical: { line: hunk.oldStart + 1, count: hunk.oldEnd - hunk.oldStart },
+          copy: { line: hunk.newStart + 1, count: hunk.newEnd - hunk.newStart },
+        })
+      ),
+      diff: createUnifiedDiff(canonical.content, copy.content, {
+        fromFile: canonical.file,
+        toFile: copy.file,
+      }),
+    })),
+  };
+}
+
+/** Names the criterion that put the canonical copy ahead of the runner-up */
+function canonicalReason(canonical: RankedFile, runnerUp: RankedFile): string {
+  if (canonical.score !== runnerUp.score) {
+    return `Highest composite score: ${canonical.score}, next ${runnerUp.score}`;
+  }
+  if (canonical.modified.getTime() !== runnerUp.modified.getTime()) {
+    return `Same score (${canonical.score}); most recently modified, on ${canonical.modified.toISOString()}`;
+  }
+  if (canonical.lines !== runnerUp.lines) {
+    return `Same score (${canonical.score}) and date; most complete, with ${canonical.lines} lines`;
+  }
+  return `Same score (${canonical.score}), date and length; first by path`;
+}
+
+/**
+ * Blank-line separated blocks of at least `minWords` words
+ */
+function splitParagraphs(file: LibraryFile, minWords: number): Passage[] {
+  const passages: Passage[] = [];
+  let block: string[] = [];
+  let start = 1;
+  const flush = (): void => {
+    const text = block.join('\n');
+    if (words(text).length >= minWords) {
+      passages.push(toPassage(file.file, start, text));
+    }
+    block = [];
+  };
+
+  file.content.split('\n').forEach((line, index) => {
+    if (line.trim() === '') {
+      flush();
+      return;
+    }
+    if (block.length === 0) start = index + 1;
+    block.push(line);
+  });
+  flush();
+  return passages;
+}
+
+/**
+ * Pairs at or above the threshold. Only pairs whose MinHash signatures agree on a whole
+ * band are compared, so the cost grows with the number of likely matches, not all pairs.
+ */
+function findSimilar(passages: Passage[], threshold: number): SimilarPair[] {
+  const buckets = new Map<string, number[]>();
+  passages.forEach((passage, index) => {
+    if (passage.shingles.size === 0) return;
+    const signature = minHash(passage.shingles);
+    for (let band = 0; band < BANDS; band++) {
+      const key = `${band}:${signature.slice(band * ROWS, (band + 1) * ROWS).join(',')}`;
+      const bucket = buckets.get(key) ?? [];
+      bucket.push(index);
+      buckets.set(key, bucket);
+    }
+  });
+
+  const seen = new Set<string>();
+  const pairs: SimilarPair[] = [];
+  for (const bucket of buckets.values()) {
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        const key = `${bucket[i]},${bucket[j]}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        const similarity = jaccard(passages[bucket[i]].shingles, passages[bucket[j]].shingles);
+        if (similarity >= threshold) {
+          pairs.push({ a: bucket[i], b: bucket[j], similarity: round(similarity) });
+        }
+      }
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Connected components of the pairs, each sorted, listed by first member
+ */
+function groupPairs(count: number, pairs: SimilarPair[]): number[][] {
+  const parent = Array.from({ length: count }, (_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+  pairs.forEach(({ a, b }) => {
+    parent[find(a)] = find(b);
+  });
+
+  const components = new Map<number, number[]>();
+  const paired = new Set(pairs.flatMap(({ a, b }) => [a, b]));
+  for (let index = 0; index < count; index++) {
+    if (!paired.has(index)) continue;
+    const root = find(index);
+    components.set(root, [...(components.get(root) ?? []), index]);
+  }
+  return Array.from(components.values());
+}
+
+function toPassage(file: string, line: number, text: string): Passage {
+  return { file, line, text, shingles: shingle(words(text)) };
+}
+
+/** Lower-cased words; punctuation and markup are ignored */
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [];
+}
+
+/** Hashes of every run of SHINGLE_SIZE words; a shorter text is a single shingle */
+function shingle(tokens: string[]): Set<number> {
+  if (tokens.length < SHINGLE_SIZE) {
+    return new Set(tokens.length > 0 ? [fnv1a(tokens.join(' '))] : []);
+  }
+  const shingles = new Set<number>();
+  for (let index = 0; index + SHINGLE_SIZE <= tokens.length; index++) {
+    shingles.add(fnv1a(tokens.slice(index, index + SHINGLE_SIZE).join(' ')));
+  }
+  return shingles;
+}
+
+function minHash(shingles: Set<number>): number[] {
+  return SEEDS.map((seed) => {
+    let min = 0xffffffff;
+    for (const value of shingles) {
+      min = Math.min(min, mix(value ^ seed));
+    }
+    return min;
+  });
+}
+
+function jaccard(a: Set<number>, b: Set<number>): number {
+  let shared = 0;
+  a.forEach((value) => {
+    if (b.has(value)) shared++;
+  });
+  const union = a.size + b.size - shared;
+  return union === 0 ? 1 : shared / union;
+}
+
+/** 32-bit FNV-1a */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < text.length; index++) {
+    hash = Math.imul(hash ^ text.charCodeAt(index), 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** MurmurHash3 finalizer: spreads every input bit over the output */
+function mix(value: number): number {
+  let hash = value;
+  hash = Math.imul(hash ^ (hash >>> 16), 0x85ebca6b);
+  hash = Math.imul(hash ^ (hash >>> 13), 0xc2b2ae35);
+  return (hash ^ (hash >>> 16)) >>> 0;
+}
+
+/** Fixed xorshift sequence, so reports are the same on every run */
+function createSeeds(count: number): number[] {
+  const seeds: number[] = [];
+  let state = 0x9e3779b9;
+  for (let index = 0; index < count; index++) {
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    seeds.push(state >>> 0);
+  }
+  return seeds;
+}
+
+function preview(text: string): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > PREVIEW_LENGTH ? `${flat.slice(0, PREVIEW_LENGTH - 1)}…` : flat;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -1,110 +1,157 @@
-interface EnhancementResult {
+import { TemplateDialect, parseTemplate } from '../utils/parser.js';
+
+export interface EnhancementResult {
   enhancedContent: string;
   changes: string[];
   originalContent: string;
 }
 
+export type EnhancementStep =
+  | 'addMissingSections'
+  | 'formatTemplateVariables'
+  | 'improveFormatting'
+  | 'removeRedundancies';
+
+/** Template text before and after a single enhancement step */
+export interface EnhancementStage {
+  step: EnhancementStep;
+  before: string;
+  after: string;
+}
+
 export async function enhanceTemplate(content: string): Promise<EnhancementResult> {
+  const { enhancedContent, changes, originalContent } = runEnhancement(content);
+  return { enhancedContent, changes, originalContent };
+}
+
+/**
+ * Runs every enhancement step in order, keeping the intermediate text of each step
+ */
+export function runEnhancement(
+  content: string
+): EnhancementResult & { stages: EnhancementStage[] } {
   const originalContent = content;
   let enhancedContent = content;
   const changes: string[] = [];
+  const stages: EnhancementStage[] = [];
+
+  const run = (step: EnhancementStep, transform: (text: string) => string): void => {
+    const before = enhancedContent;
+    enhancedContent = transform(before);
+    stages.push({ step, before, after: enhancedContent });
+  };
 
   // Add missing sections
-  const sections = identifySections(content);
-  enhancedContent = addMissingSections(enhancedContent, sections, changes);
+  run('addMissingSections', (text) => addMissingSections(text, changes));
 
   // Format template variables
-  enhancedContent = formatTemplateVariables(enhancedContent, changes);
+  run('formatTemplateVariables', (text) => formatTemplateVariables(text, changes));
 
   // Improve formatting
-  enhancedContent = improveFormatting(enhancedContent, changes);
+  run('improveFormatting', (text) => improveFormatting(text, changes));
 
   // Remove redundancies
-  enhancedContent = removeRedundancies(enhancedContent, changes);
+  run('removeRedundancies', (text) => removeRedundancies(text, changes));
 
   return {
     enhancedContent,
     changes,
     originalContent,
+    stages,
   };
 }
 
-interface Sections {
-  role: boolean;
-  context: boolean;
-  task: boolean;
-  format: boolean;
-}
+const TAG_LINE_PATTERN = /^\s*(<\/?[A-Za-z_][\w.-]*[^<>]*>|<!--.*-->)\s*$/;
 
-function identifySections(content: string): Sections {
-  return {
-    role: /^ROLE:/im.test(content),
-    context: /^CONTEXT:/im.test(content),
-    task: /^TASK:/im.test(content),
-    format: /^(FORMAT|OUTPUT):/im.test(content),
-  };
+interface Replacement {
+  start: number;
+  end: number;
+  text: string;
 }
 
-function addMissingSections(content: string, sections: Sections, changes: string[]): string {
+function addMissingSections(content: string, changes: string[]): string {
+  const parsed = parseTemplate(content);
+  const present = new Set(parsed.sections.map((section) => section.canonical));
+  const section = (name: string, text: string): string => formatSection(parsed.dialect, name, text);
   let enhanced = content;
 
   // Add template if completely unstructured
-  if (!sections.role && !sections.context && !sections.task && !sections.format) {
+  if (!['ROLE', 'CONTEXT', 'TASK', 'FORMAT'].some((name) => present.has(name))) {
     const lines = content.trim().split('\n');
-    enhanced =
-      `ROLE: You are an AI assistant tasked with ${inferRole(lines[0])}\n\n` +
-      `CONTEXT: ${lines.slice(0, Math.min(3, lines.length)).join(' ')}\n\n` +
-      `TASK: ${lines.slice(Math.min(3, lines.length)).join(' ')}\n\n` +
-      'FORMAT: Provide your response in a clear, structured manner.';
+    enhanced = [
+      section('ROLE', `You are an AI assistant tasked with ${inferRole(lines[0])}`),
+      section('CONTEXT', lines.slice(0, Math.min(3, lines.length)).join(' ')),
+      section('TASK', lines.slice(Math.min(3, lines.length)).join(' ')),
+      section('FORMAT', 'Provide your response in a clear, structured manner.'),
+    ].join('\n\n');
     changes.push('Added basic template structure (ROLE, CONTEXT, TASK, FORMAT sections)');
     return enhanced;
   }
 
-  // Add individual missing sections
-  if (!sections.role) {
-    enhanced = `ROLE: You are an AI assistant tasked with ${inferRole(content)}\n\n${enhanced}`;
+  // Add individual missing sections, keeping any frontmatter first
+  if (!present.has('ROLE')) {
+    const start = parsed.frontmatter?.span.end.offset ?? 0;
+    const role = section('ROLE', `You are an AI assistant tasked with ${inferRole(content)}`);
+    enhanced = `${enhanced.slice(0, start)}${role}\n\n${enhanced.slice(start)}`;
     changes.push('Added missing ROLE section');
   }
 
-  if (!sections.context) {
-    const insertion = 'CONTEXT: Working with the following information and requirements.\n\n';
-    enhanced = insertAfterSection(enhanced, 'ROLE:', insertion);
+  if (!present.has('CONTEXT')) {
+    const insertion = section(
+      'CONTEXT',
+      'Working with the following information and requirements.'
+    );
+    enhanced = insertAfterSection(enhanced, 'ROLE', insertion);
     changes.push('Added missing CONTEXT section');
   }
 
-  if (!sections.task) {
-    enhanced = enhanced.trim() + '\n\nTASK: Complete the following objectives.\n';
+  if (!present.has('TASK')) {
+    enhanced = `${enhanced.trim()}\n\n${section('TASK', 'Complete the following objectives.')}\n`;
     changes.push('Added missing TASK section');
   }
 
-  if (!sections.format) {
+  if (!present.has('FORMAT')) {
     enhanced =
-      enhanced.trim() + '\n\nFORMAT: Provide your response in a clear, structured manner.\n';
+      `${enhanced.trim()}\n\n` +
+      `${section('FORMAT', 'Provide your response in a clear, structured manner.')}\n`;
     changes.push('Added missing FORMAT section');
   }
 
   return enhanced;
 }
 
+/**
+ * Writes a section header and text in the template's dialect
+ */
+function formatSection(dialect: TemplateDialect, name: string, text: string): string {
+  if (dialect === 'markdown') {
+    return `## ${name.charAt(0)}${name.slice(1).toLowerCase()}\n\n${text}`;
+  }
+  if (dialect === 'xml') {
+    const tag = name.toLowerCase();
+    return `<${tag}>\n${text}\n</${tag}>`;
+  }
+  return `${name}: ${text}`;
+}
+
 function formatTemplateVariables(content: string, changes: string[]): string {
   // Find inconsistent variable formats
-  const variables = content.match(/{{[^}]+}}|\[[\w-]+]|\${[\w-]+}/g) || [];
+  const variables = parseTemplate(content).variables;
   if (variables.length === 0) return content;
 
-  let enhanced = content;
   const normalized = new Map<string, string>();
+  const replacements: Replacement[] = [];
 
   // Normalize to {{variableName}} format
   variables.forEach((variable) => {
-    const cleanName = variable
-      // eslint-disable-next-line no-useless-escape
-      .replace(/[{}\[\]$]/g, '')
-      .trim()
-      .replace(/\s+/g, '_');
-    const normalizedVar = `{{${cleanName}}}`;
-    if (variable !== normalizedVar) {
-      enhanced = enhanced.replace(variable, normalizedVar);
-      normalized.set(variable, normalizedVar);
+    const normalizedVar = `{{${variable.name.replace(/\s+/g, '_')}}}`;
+    if (variable.raw !== normalizedVar) {
+      replacements.push({
+        start: variable.span.start.offset,
+        end: variable.span.end.offset,
+        text: normalizedVar,
+      });
+      normalized.set(variable.raw, normalizedVar);
     }
   });
 
@@ -116,24 +163,56 @@ function formatTemplateVariables(content: string, changes: string[]): string {
     );
   }
 
-  return enhanced;
+  return applyReplacements(content, replacements);
 }
 
 function improveFormatting(content: string, changes: string[]): string {
   let enhanced = content;
 
-  // Ensure consistent section capitalization
-  enhanced = enhanced.replace(/^(role|context|task|format|output):/gim, (match) =>
-    match.toUpperCase()
+  // Ensure consistent section capitalization; headings and tags keep their own case
+  const parsed = parseTemplate(enhanced);
+  enhanced = applyReplacements(
+    enhanced,
+    parsed.sections
+      .filter((section) => parsed.dialect === 'colon' && section.header !== section.name)
+      .map((section) => ({
+        start: section.headerSpan.start.offset,
+        end: section.headerSpan.start.offset + section.header.length,
+        text: section.name,
+      }))
   );
 
-  // Ensure double newlines between sections
-  enhanced = enhanced.replace(/([^\n])\n(ROLE|CONTEXT|TASK|FORMAT|OUTPUT):/g, '$1\n\n$2:');
+  // Ensure double newlines between sections; nested XML tags are left as written
+  const spaced = parseTemplate(enhanced);
+  enhanced = applyReplacements(
+    enhanced,
+    spaced.sections
+      .filter((section) => {
+        if (spaced.dialect === 'xml') return false;
+        const previousLine = spaced.lines[section.span.start.line - 2];
+        return previousLine !== undefined && previousLine.trim() !== '';
+      })
+      .map((section) => ({
+        start: section.span.start.offset,
+        end: section.span.start.offset,
+        text: '\n',
+      }))
+  );
 
   // Standardize bullet points
-  const hasBullets = /^[-*•]/m.test(enhanced);
-  if (hasBullets) {
-    enhanced = enhanced.replace(/^[-*•]\s*/gm, '- ');
+  const bullets = parseTemplate(enhanced).bullets.filter((bullet) => bullet.marker !== '-');
+  if (bullets.length > 0) {
+    enhanced = applyReplacements(
+      enhanced,
+      bullets.map((bullet) => {
+        const markerStart = bullet.span.start.offset + bullet.indent.length;
+        return {
+          start: markerStart,
+          end: bullet.span.end.offset - bullet.text.length,
+          text: '- ',
+        };
+      })
+    );
     changes.push('Standardized bullet point format to "-"');
   }
 
@@ -150,14 +229,26 @@ function improveFormatting(content: string, changes: string[]): string {
 function removeRedundancies(content: string, changes: string[]): string {
   let enhanced = content;
 
-  // Remove duplicate instructions
-  const lines = enhanced.split('\n');
+  // Remove duplicate instructions, leaving headers, frontmatter and code blocks untouched
+  const parsed = parseTemplate(enhanced);
+  const protectedLines = new Set<number>();
+  parsed.sections.forEach((section) => protectedLines.add(section.span.start.line));
+  for (let line = 1; line <= (parsed.frontmatter?.span.end.line ?? 0); line++) {
+    protectedLines.add(line);
+  }
+  parsed.codeFences.forEach((fence) => {
+    for (let line = fence.span.start.line; line <= fence.span.end.line; line++) {
+      protectedLines.add(line);
+    }
+  });
+
   const uniqueLines = new Set<string>();
   const duplicates = new Set<string>();
 
-  const filtered = lines.filter((line) => {
+  const filtered = parsed.lines.filter((line, index) => {
     const normalized = line.trim().toLowerCase();
-    if (!normalized || normalized.match(/^(ROLE|CONTEXT|TASK|FORMAT|OUTPUT):/i)) {
+    // Lone tags such as </rule> and comments such as suppression directives repeat by design
+    if (!normalized || protectedLines.has(index + 1) || TAG_LINE_PATTERN.test(line)) {
       return true;
     }
     if (uniqueLines.has(normalized)) {
@@ -195,13 +286,26 @@ function inferRole(content: string): string {
   return 'assisting with the specified task';
 }
 
-function insertAfterSection(content: string, section: string, insertion: string): string {
-  const regex = new RegExp(`(^${section}.*?\n)`, 'm');
-  const match = content.match(regex);
+function insertAfterSection(content: string, name: string, insertion: string): string {
+  const section = parseTemplate(content).sections.find((found) => found.canonical === name);
 
-  if (match) {
-    return content.replace(regex, `$1\n${insertion}`);
+  if (section) {
+    const end = section.span.end.offset;
+    return `${content.slice(0, end)}\n\n${insertion}${content.slice(end)}`;
   }
 
   return content;
 }
+
+/**
+ * Applies non-overlapping replacements, given as offsets into the original content
+ */
+function applyReplacements(content: string, replacements: Replacement[]): string {
+  return [...replacements]
+    .sort((a, b) => b.start - a.start)
+    .reduce(
+      (text, replacement) =>
+        text.slice(0, replacement.start) + replacement.text + text.slice(replacement.end),
+      content
+    );
+}
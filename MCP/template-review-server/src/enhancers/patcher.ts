@@ -0,0 +1,324 @@
+import { createUnifiedDiff, diffHunks } from '../utils/diff.js';
+import { Span, createPositionLookup } from '../utils/parser.js';
+import { EnhancementStep, runEnhancement } from './optimizer.js';
+
+/** A single change to the original template, attributed to the step that produced it */
+export interface TemplateEdit {
+  id: string;
+  /** First enhancement step that changed this range */
+  step: EnhancementStep;
+  /** Every step that contributed, in the order they ran */
+  steps: EnhancementStep[];
+  /** Range of the original template being replaced */
+  span: Span;
+  replacement: string;
+}
+
+export interface EnhancementPatch {
+  originalContent: string;
+  changes: string[];
+  diff: string;
+  edits: TemplateEdit[];
+}
+
+export interface EditSelection {
+  /** Apply only edits with these ids */
+  ids?: string[];
+  /** Apply only edits produced by these steps */
+  steps?: EnhancementStep[];
+}
+
+export interface ApplyEditsResult {
+  content: string;
+  applied: string[];
+  skipped: string[];
+}
+
+/**
+ * Raised when selected edits overlap and cannot be applied together
+ */
+export class EditConflictError extends Error {
+  constructor(first: TemplateEdit, second: TemplateEdit) {
+    super(`Edits ${first.id} and ${second.id} overlap and cannot be applied together`);
+    this.name = 'EditConflictError';
+  }
+}
+
+/** A line of the template as it moves through the enhancement steps */
+interface TrackedLine {
+  text: string;
+  /** Index of the original line this was carried over from, if unchanged */
+  origin?: number;
+  /** Step that inserted or rewrote this line */
+  step?: EnhancementStep;
+}
+
+interface LineEdit {
+  steps: EnhancementStep[];
+  oldStart: number;
+  oldEnd: number;
+  lines: string[];
+}
+
+/**
+ * Enhances a template and describes the result as a unified diff plus individually
+ * applicable edits against the original text
+ */
+export async function createEnhancementPatch(content: string): Promise<EnhancementPatch> {
+  const { enhancedContent, changes, originalContent, stages } = runEnhancement(content);
+
+  const originalLines = content.split('\n');
+  let current: TrackedLine[] = originalLines.map((text, origin) => ({ text, origin }));
+  const deletedBy = new Map<number, EnhancementStep>();
+  // Steps that touched the block of changes ending just before a given original line
+  const blockSteps = new Map<number, Set<EnhancementStep>>();
+
+  // Replay each step's line diff so every final line knows where it came from
+  for (const stage of stages) {
+    const after = stage.after.split('\n');
+    const next: TrackedLine[] = [];
+    let cursor = 0;
+
+    for (const hunk of diffHunks(
+      current.map((line) => line.text),
+      after
+    )) {
+      next.push(...current.slice(cursor, hunk.oldStart));
+      const replaced = current.slice(hunk.oldStart, hunk.oldEnd);
+      const added = after.slice(hunk.newStart, hunk.newEnd);
+
+      replaced.forEach((line) => {
+        if (line.origin !== undefined) deletedBy.set(line.origin, stage.step);
+      });
+      const blockEnd =
+        current.slice(hunk.oldEnd).find((line) => line.origin !== undefined)?.origin ??
+        originalLines.length;
+      blockSteps.set(blockEnd, (blockSteps.get(blockEnd) ?? new Set()).add(stage.step));
+
+      // A line rewritten in place keeps the step that first introduced it
+      added.forEach((text, index) => {
+        const previous = replaced.length === added.length ? replaced[index] : undefined;
+        const step =
+          previous && previous.origin === undefined ? (previous.step ?? stage.step) : stage.step;
+        next.push({ text, step });
+      });
+      cursor = hunk.oldEnd;
+    }
+
+    next.push(...current.slice(cursor));
+    current = next;
+  }
+
+  const stepOrder = stages.map((stage) => stage.step);
+  const lineEdits = joinMovedLines(
+    collectLineEdits(current, deletedBy, blockSteps, originalLines.length, stepOrder),
+    originalLines,
+    stepOrder
+  );
+  const positionAt = createPositionLookup(content);
+  const edits = lineEdits.map((edit, index) => {
+    const range = toCharRange(content, originalLines, edit);
+    return {
+      id: `edit-${index + 1}`,
+      step: edit.steps[0],
+      steps: edit.steps,
+      span: { start: positionAt(range.start), end: positionAt(range.end) },
+      replacement: range.text,
+    };
+  });
+
+  return {
+    originalContent,
+    changes,
+    diff: createUnifiedDiff(content, enhancedContent),
+    edits,
+  };
+}
+
+/**
+ * Re-runs the enhancement and applies only the selected edits to the original template
+ */
+export async function applyEnhancementEdits(
+  content: string,
+  selection: EditSelection = {}
+): Promise<ApplyEditsResult> {
+  const { edits } = await createEnhancementPatch(content);
+  const selected = edits.filter(
+    (edit) =>
+      (!selection.ids || selection.ids.includes(edit.id)) &&
+      (!selection.steps || edit.steps.some((step) => selection.steps?.includes(step)))
+  );
+
+  return {
+    content: applyEdits(content, selected),
+    applied: selected.map((edit) => edit.id),
+    skipped: edits.filter((edit) => !selected.includes(edit)).map((edit) => edit.id),
+  };
+}
+
+/**
+ * Applies edits whose spans refer to `content`. Edits must not overlap.
+ */
+export function applyEdits(content: string, edits: TemplateEdit[]): string {
+  const ordered = edits
+    .map((edit, index) => ({ edit, index }))
+    .sort((a, b) => a.edit.span.start.offset - b.edit.span.start.offset || a.index - b.index);
+
+  for (let i = 1; i < ordered.length; i++) {
+    if (ordered[i].edit.span.start.offset < ordered[i - 1].edit.span.end.offset) {
+      throw new EditConflictError(ordered[i - 1].edit, ordered[i].edit);
+    }
+  }
+
+  // Apply from the end so earlier offsets stay valid
+  return ordered.reduceRight(
+    (text, { edit }) =>
+      text.slice(0, edit.span.start.offset) + edit.replacement + text.slice(edit.span.end.offset),
+    content
+  );
+}
+
+/**
+ * Turns the final tracked lines into edits over original line ranges. Adjacent changes
+ * form one edit; joinMovedLines then joins the edits that only make sense together.
+ */
+function collectLineEdits(
+  lines: TrackedLine[],
+  deletedBy: Map<number, EnhancementStep>,
+  blockSteps: Map<number, Set<EnhancementStep>>,
+  originalCount: number,
+  stepOrder: EnhancementStep[]
+): LineEdit[] {
+  const edits: LineEdit[] = [];
+  let nextOriginal = 0;
+  let inserted: TrackedLine[] = [];
+
+  const flush = (end: number): void => {
+    const start = nextOriginal;
+    if (start < end || inserted.length > 0) {
+      const steps = new Set<EnhancementStep | undefined>(inserted.map((line) => line.step));
+      for (let line = start; line <= end; line++) {
+        if (line < end) steps.add(deletedBy.get(line));
+        blockSteps.get(line)?.forEach((step) => steps.add(step));
+      }
+      edits.push({
+        steps: stepOrder.filter((step) => steps.has(step)),
+        oldStart: start,
+        oldEnd: end,
+        lines: inserted.map((line) => line.text),
+      });
+    }
+    inserted = [];
+  };
+
+  for (const line of lines) {
+    if (line.origin === undefined) {
+      inserted.push(line);
+      continue;
+    }
+    flush(line.origin);
+    nextOriginal = line.origin + 1;
+  }
+  flush(originalCount);
+
+  return edits;
+}
+
+/**
+ * Joins edits that move a line. When one edit deletes a line and another puts it back,
+ * perhaps reformatted, applying either alone would lose or duplicate the line, so both
+ * become one edit spanning them and the unchanged lines between. Afterwards any subset of
+ * edits can be applied on its own.
+ */
+function joinMovedLines(
+  edits: LineEdit[],
+  originalLines: string[],
+  stepOrder: EnhancementStep[]
+): LineEdit[] {
+  const joined = [...edits];
+  for (let link = findMove(joined, originalLines); link; link = findMove(joined, originalLines)) {
+    const group = joined.slice(link.first, link.last + 1);
+    const lines = group.flatMap((edit, index) =>
+      index === group.length - 1
+        ? edit.lines
+        : [...edit.lines, ...originalLines.slice(edit.oldEnd, group[index + 1].oldStart)]
+    );
+    const steps = new Set(group.flatMap((edit) => edit.steps));
+    joined.splice(link.first, group.length, {
+      steps: stepOrder.filter((step) => steps.has(step)),
+      oldStart: group[0].oldStart,
+      oldEnd: group[group.length - 1].oldEnd,
+      lines,
+    });
+  }
+  return joined;
+}
+
+/**
+ * Finds two edits, by index, where one deletes a line the other inserts
+ */
+function findMove(
+  edits: LineEdit[],
+  originalLines: string[]
+): { first: number; last: number } | undefined {
+  const inserted = edits.map((edit) => new Set(edit.lines.map(lineKey).filter(Boolean)));
+  for (let index = 0; index < edits.length; index++) {
+    const deleted = originalLines
+      .slice(edits[index].oldStart, edits[index].oldEnd)
+      .map(lineKey)
+      .filter((key) => key && !inserted[index].has(key));
+    const other = inserted.findIndex(
+      (keys, candidate) => candidate !== index && deleted.some((key) => keys.has(key))
+    );
+    if (other !== -1) {
+      return { first: Math.min(index, other), last: Math.max(index, other) };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * A line with case, spacing and bullet marker ignored, so it is still recognised after
+ * the formatting steps rewrite it
+ */
+function lineKey(line: string): string {
+  return line
+    .replace(/^\s*[-*•]\s+/, '')
+    .replace(/\s+/g, '')
+    .toLowerCase();
+}
+
+/**
+ * Converts an edit over whole lines into a character range of the original text
+ */
+function toCharRange(
+  content: string,
+  lines: string[],
+  edit: LineEdit
+): { start: number; end: number; text: string } {
+  const lineStart = (index: number): number =>
+    lines.slice(0, index).reduce((sum, line) => sum + line.length + 1, 0);
+  const lineEnd = (index: number): number => lineStart(index) + lines[index].length;
+  const text = edit.lines.join('\n');
+  const { oldStart, oldEnd } = edit;
+
+  // Pure insertion before a line, or at the very end
+  if (oldStart === oldEnd) {
+    return oldEnd < lines.length
+      ? { start: lineStart(oldEnd), end: lineStart(oldEnd), text: text + '\n' }
+      : { start: content.length, end: content.length, text: '\n' + text };
+  }
+
+  if (edit.lines.length > 0) {
+    return { start: lineStart(oldStart), end: lineEnd(oldEnd - 1), text };
+  }
+
+  // Deletion: also remove one line separator
+  if (oldEnd < lines.length) {
+    return { start: lineStart(oldStart), end: lineStart(oldEnd), text: '' };
+  }
+  if (oldStart > 0) {
+    return { start: lineEnd(oldStart - 1), end: content.length, text: '' };
+  }
+  return { start: 0, end: content.length, text: '' };
+}
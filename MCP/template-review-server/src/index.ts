@@ -1,63 +1,110 @@
-import { analyzeTemplate } from './analyzers/structure.js';
-import { analyzeContent } from './analyzers/content.js';
-import { analyzePatterns } from './analyzers/patterns.js';
-import { enhanceTemplate } from './enhancers/optimizer.js';
-import { validateTemplate } from './validators/rules.js';
+#!/usr/bin/env node
+import { readFile } from 'fs/promises';
+import { DEFAULT_CACHE_DIR, cacheStats, clearCache } from './cache.js';
+import { parseCliArgs, runCli } from './cli.js';
+import { startLanguageServer } from './lsp/server.js';
+import { startServer } from './server.js';
+import { findTool } from './tools.js';
+import { writeError, writeJson } from './utils/iostream.js';
 
-async function readStdin(): Promise<string> {
-  return new Promise((resolve) => {
-    let input = '';
-    process.stdin.setEncoding('utf8');
-    process.stdin.on('data', (chunk) => (input += chunk));
-    process.stdin.on('end', () => resolve(input));
-  });
-}
-
-async function main() {
-  const mode = process.argv[2];
+async function main(): Promise<void> {
+  const { positional, format, fix, cache } = parseCliArgs(process.argv.slice(2));
+  const [command, ...rest] = positional;
 
-  if (!mode) {
-    console.error('Error: No command provided. Expected one of: analyze_template, enhance_template, validate_template');
-    process.exit(1);
+  // No command: run as a long-lived MCP server over stdio
+  if (!command || command === 'serve') {
+    await startServer();
+    return;
   }
 
-  try {
-    const inputString = await readStdin();
-    const input = JSON.parse(inputString);
+  // Language server for editors over stdio; `--stdio`, which clients often pass, is the default
+  if (command === 'lsp') {
+    startLanguageServer();
+    return;
+  }
 
-    if (!input.template || typeof input.template !== 'string') {
-      throw new Error('Invalid input: expected JSON with a "template" field');
+  // `cache stats [dir]` or `cache clear [dir]` for the batch result cache
+  if (command === 'cache') {
+    const [action, dir = DEFAULT_CACHE_DIR] = rest;
+    if (action === 'stats') {
+      writeJson(await cacheStats(dir));
+    } else if (action === 'clear') {
+      writeJson(await clearCache(dir));
+    } else {
+      writeError('Usage: cache <stats|clear> [dir]');
+      process.exit(1);
     }
+    return;
+  }
 
-    let result;
-
-    switch (mode) {
-      case 'analyze_template':
-        const structureAnalysis = await analyzeTemplate(input.template);
-        const contentAnalysis = analyzeContent(input.template);
-        const patternAnalysis = analyzePatterns(input.template);
-        
-        result = {
-          ...structureAnalysis,
-          content: contentAnalysis,
-          patterns: patternAnalysis
-        };
-        break;
-      case 'enhance_template':
-        result = await enhanceTemplate(input.template);
-        break;
-      case 'validate_template':
-        result = await validateTemplate(input.template);
-        break;
-      default:
-        throw new Error(`Unknown command: ${mode}`);
+  // One-shot CLI: `cli <tool>`, the legacy `<tool>` form, `batch <paths...>`,
+  // `duplicates <paths...>`, `compare <old> <new>`, `check-response <template> <response>`
+  // or `test <template> <fixtures>`
+  if (command === 'cli') {
+    await runCli(rest[0], { format, fix });
+    return;
+  }
+  if (command === 'batch') {
+    await runCli('review_templates', { format, fix, input: { paths: rest, cache } });
+    return;
+  }
+  if (command === 'duplicates') {
+    await runCli('find_duplicates', { format, input: { paths: rest } });
+    return;
+  }
+  if (command === 'compare') {
+    const [oldPath, newPath] = rest;
+    if (!oldPath || !newPath) {
+      writeError('Usage: compare <old template> <new template>');
+      process.exit(1);
     }
-
-    process.stdout.write(JSON.stringify(result, null, 2));
-  } catch (err: any) {
-    process.stderr.write(`MCP Error: ${err.message}\n`);
-    process.exit(1);
+    const input = {
+      oldTemplate: await readFile(oldPath, 'utf8'),
+      newTemplate: await readFile(newPath, 'utf8'),
+      templatePath: newPath,
+    };
+    await runCli('compare_template', { format, input });
+    return;
+  }
+  if (command === 'check-response') {
+    const [templatePath, responsePath] = rest;
+    if (!templatePath || !responsePath) {
+      writeError('Usage: check-response <template> <response>');
+      process.exit(1);
+    }
+    const input = {
+      template: await readFile(templatePath, 'utf8'),
+      response: await readFile(responsePath, 'utf8'),
+      templatePath,
+      responsePath,
+    };
+    await runCli('check_response', { format, input });
+    return;
   }
+  if (command === 'test') {
+    const [templatePath, fixturesPath] = rest;
+    if (!templatePath || !fixturesPath) {
+      writeError('Usage: test <template> <fixtures.json>');
+      process.exit(1);
+    }
+    const input = {
+      ...JSON.parse(await readFile(fixturesPath, 'utf8')),
+      template: await readFile(templatePath, 'utf8'),
+      templatePath,
+    };
+    await runCli('test_template', { format, input });
+    return;
+  }
+  if (findTool(command)) {
+    await runCli(command, { format, fix });
+    return;
+  }
+
+  writeError(`Unknown command: ${command}`);
+  process.exit(1);
 }
 
-main();
+main().catch((err) => {
+  writeError(err instanceof Error ? err.message : String(err));
+  process.exit(1);
+});
@@ -0,0 +1,204 @@
+/**
+ * Language detection and per-language lexicons for the content checks. Bundled languages
+ * are described in languages.json; plugins can add languages or replace bundled ones.
+ * A language without a lexicon is still detected, so the checks it cannot support are
+ * reported as skipped rather than run with English word lists.
+ */
+
+import { readFile } from 'fs/promises';
+import { z } from 'zod';
+import { RuleConfig } from '../config/loader.js';
+import { LoadedPlugin, PluginError } from '../plugins/loader.js';
+import { formatZodError } from '../validators/schema.js';
+
+const termsSchema = z.array(z.string().min(1));
+
+const lexiconSchema = z.strictObject({
+  /** Hedging words that leave the model to guess, e.g. "maybe" */
+  ambiguousTerms: termsSchema,
+  /** Stand-ins for missing detail, e.g. "etc" */
+  vagueTerms: termsSchema,
+  /** Commanding phrases, e.g. "you must" */
+  prescriptive: termsSchema,
+  /** Present and past forms of "to be"; using both suggests inconsistent tense */
+  tense: z.strictObject({ present: termsSchema, past: termsSchema }),
+});
+
+const profileSchema = z.strictObject({
+  name: z.string().min(1),
+  /** Frequent short words that identify the language */
+  stopwords: termsSchema.min(1),
+  lexicon: lexiconSchema.optional(),
+});
+
+/** A language contributed by a plugin, identified by its BCP 47 code */
+export const languageDefinitionSchema = profileSchema.extend({ code: z.string().min(2) });
+
+export type Lexicon = z.infer<typeof lexiconSchema>;
+export type LanguageDefinition = z.infer<typeof languageDefinitionSchema>;
+
+export interface LanguageReport {
+  /** BCP 47 code, e.g. `es` */
+  code: string;
+  name: string;
+  /** `configured` by `content.language`, `detected` from the text, or `default` when too little text */
+  source: 'configured' | 'detected' | 'default';
+  /** How far the detected language leads the runner-up, 0–1 */
+  confidence: number;
+  hasLexicon: boolean;
+  /** Why checks were skipped or a language was assumed */
+  note?: string;
+}
+
+export interface ResolvedLanguage {
+  report: LanguageReport;
+  /** Absent when the language has no lexicon */
+  lexicon?: Lexicon;
+}
+
+export interface Sentence {
+  text: string;
+  /** Offset of the sentence in the text it was split from */
+  index: number;
+}
+
+const DEFAULT_LANGUAGE = 'en';
+// Fewer stopwords than this are not enough evidence to name a language
+const MIN_STOPWORD_HITS = 3;
+// Checks that need a lexicon, named when they are skipped
+const LEXICON_CHECKS = ['ambiguous-language', 'vague-term', 'prescriptive-tone', 'mixed-tense'];
+
+let bundled: LanguageDefinition[] | undefined;
+
+/**
+ * Bundled languages plus any defined by plugins, keyed by lower-cased code. A plugin
+ * language replaces a bundled one with the same code.
+ */
+export async function loadLanguages(
+  plugins: LoadedPlugin[] = []
+): Promise<Map<string, LanguageDefinition>> {
+  if (!bundled) {
+    const text = await readFile(new URL('./languages.json', import.meta.url), 'utf8');
+    const parsed = z.record(z.string(), profileSchema).safeParse(JSON.parse(text));
+    if (!parsed.success) {
+      throw new Error(`Invalid language profiles: ${formatZodError(parsed.error)}`);
+    }
+    bundled = Object.entries(parsed.data).map(([code, profile]) => ({ code, ...profile }));
+  }
+
+  const languages = new Map(bundled.map((language) => [language.code.toLowerCase(), language]));
+  for (const { plugin, source } of plugins) {
+    for (const candidate of plugin.languages ?? []) {
+      const parsed = languageDefinitionSchema.safeParse(candidate);
+      if (!parsed.success) {
+        throw new PluginError(`invalid language: ${formatZodError(parsed.error)}`, source);
+      }
+      languages.set(parsed.data.code.toLowerCase(), parsed.data);
+    }
+  }
+  return languages;
+}
+
+/**
+ * Picks the language of a template from `content.language`, or by counting stopwords
+ * when it is `auto`
+ */
+export function detectLanguage(
+  content: string,
+  languages: Map<string, LanguageDefinition>,
+  setting = 'auto'
+): ResolvedLanguage {
+  if (setting !== 'auto') {
+    const language = languages.get(setting.toLowerCase());
+    return describe(language ?? { code: setting, name: setting, stopwords: [] }, 'configured', 1);
+  }
+
+  const words = content.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  const ranked = Array.from(languages.values())
+    .map((language) => {
+      const stopwords = new Set(language.stopwords.map((word) => word.toLowerCase()));
+      return { language, hits: words.filter((word) => stopwords.has(word)).length };
+    })
+    .sort((a, b) => b.hits - a.hits);
+
+  const [best, runnerUp] = ranked;
+  const fallback = languages.get(DEFAULT_LANGUAGE);
+  if (!best || best.hits < MIN_STOPWORD_HITS || best.hits === runnerUp?.hits) {
+    const resolved = describe(
+      fallback ?? { code: DEFAULT_LANGUAGE, name: 'English', stopwords: [] },
+      'default',
+      0
+    );
+    resolved.report.note ??= 'Too little text to detect the language; assuming English';
+    return resolved;
+  }
+  return describe(best.language, 'detected', round(1 - (runnerUp?.hits ?? 0) / best.hits));
+}
+
+/**
+ * Loads the configured and plugin languages and resolves the language of `content`
+ */
+export async function resolveLanguage(
+  content: string,
+  config: RuleConfig,
+  plugins: LoadedPlugin[] = []
+): Promise<ResolvedLanguage> {
+  return detectLanguage(content, await loadLanguages(plugins), config.content.language);
+}
+
+/**
+ * Splits text into sentences with the locale's rules, e.g. around "¿" and "¡" in
+ * Spanish. Line breaks end a sentence too, so list items stand on their own.
+ */
+export function splitSentences(text: string, code: string): Sentence[] {
+  const locale = Intl.Segmenter.supportedLocalesOf(isLocale(code) ? [code] : [])[0];
+  const segmenter = new Intl.Segmenter(locale, { granularity: 'sentence' });
+  return Array.from(segmenter.segment(text), ({ segment, index }) => ({ text: segment, index }));
+}
+
+/**
+ * Matches a lexicon term as a whole word, including accented letters that `\b` misses;
+ * spaces in a phrase match any run of whitespace
+ */
+export function termPattern(term: string, flags = 'giu'): RegExp {
+  const escaped = term
+    .trim()
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/\s+/g, '\\s+');
+  return new RegExp(`(?<![\\p{L}\\p{N}_])${escaped}(?![\\p{L}\\p{N}_])`, flags);
+}
+
+function describe(
+  language: LanguageDefinition,
+  source: LanguageReport['source'],
+  confidence: number
+): ResolvedLanguage {
+  const { code, name, lexicon } = language;
+  const label = name === code ? code : `${name} (${code})`;
+  return {
+    report: {
+      code,
+      name,
+      source,
+      confidence,
+      hasLexicon: lexicon !== undefined,
+      ...(!lexicon && {
+        note: `No lexicon for ${label}; ${LEXICON_CHECKS.join(', ')} checks were skipped`,
+      }),
+    },
+    lexicon,
+  };
+}
+
+function isLocale(code: string): boolean {
+  try {
+    Intl.getCanonicalLocales(code);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
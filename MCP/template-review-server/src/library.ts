@@ -0,0 +1,229 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { TemplateReport, analyzeAll } from './analysis.js';
+import { cacheKey, readCacheEntry, writeCacheEntry } from './cache.js';
+import { loadRuleConfig, templateParseOptions } from './config/loader.js';
+import { renderTemplate } from './renderers/render.js';
+import { ConversationRole, parseConversation } from './utils/conversation.js';
+import { expandPaths } from './utils/glob.js';
+import { loadIgnoreMatcher } from './utils/ignore.js';
+import { TemplateDialect, parseTemplate } from './utils/parser.js';
+import { VariableDeclaration, readVariableContract } from './validators/contract.js';
+import { validateTemplate } from './validators/rules.js';
+
+export const TEMPLATE_URI_SCHEME = 'template://';
+
+export interface LibraryOptions {
+  /** Directory that `library.paths` and resource URIs are relative to */
+  cwd?: string;
+}
+
+export interface LibraryMetadata {
+  dialect: TemplateDialect;
+  /** Variables declared in frontmatter, or else the `{{placeholders}}` used, all required */
+  variables: VariableDeclaration[];
+  /** Composite score of the file as it is now; absent when it could not be analyzed */
+  score?: number;
+  grade?: string;
+  error?: string;
+}
+
+export interface LibraryTemplate {
+  uri: string;
+  /** Path relative to the library root, with `/` separators */
+  file: string;
+  /** Prompt name: the path without its extension */
+  name: string;
+  description?: string;
+  metadata: LibraryMetadata;
+}
+
+export interface PromptMessage {
+  role: Exclude<ConversationRole, 'system'>;
+  content: { type: 'text'; text: string };
+}
+
+/**
+ * Raised for a resource or prompt that is not in the library
+ */
+export class LibraryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LibraryError';
+  }
+}
+
+interface CachedEntry {
+  /** Result cache key: the content, effective config, plugins and tool version */
+  key: string;
+  template: LibraryTemplate;
+}
+
+// Analysis is the slow part of listing, so entries are kept until their key changes
+const cache = new Map<string, CachedEntry>();
+
+/**
+ * Indexes the templates under the configured `library.paths`, honoring the ignore files
+ * in the library root
+ */
+export async function listLibrary(options: LibraryOptions = {}): Promise<LibraryTemplate[]> {
+  const cwd = path.resolve(options.cwd ?? process.cwd());
+  const config = await loadRuleConfig({ templatePath: cwd });
+  const isIgnored = await loadIgnoreMatcher(cwd, config.library.ignoreFile ?? undefined);
+  const files = await expandPaths(config.library.paths, { cwd, isIgnored });
+
+  const templates: LibraryTemplate[] = [];
+  for (const file of files) {
+    templates.push(await indexFile(file, cwd, config.library.cacheDir ?? undefined));
+  }
+  return templates;
+}
+
+/**
+ * Reads a library template by its `template://` URI
+ */
+export async function readLibraryTemplate(
+  uri: string,
+  options: LibraryOptions = {}
+): Promise<{ template: LibraryTemplate; content: string }> {
+  const template = (await listLibrary(options)).find((entry) => entry.uri === uri);
+  if (!template) {
+    throw new LibraryError(`Unknown template resource: ${uri}`);
+  }
+  const cwd = path.resolve(options.cwd ?? process.cwd());
+  return { template, content: await readFile(path.resolve(cwd, template.file), 'utf8') };
+}
+
+/**
+ * Templates with variables, which clients can fill in as prompts
+ */
+export async function listLibraryPrompts(options: LibraryOptions = {}): Promise<LibraryTemplate[]> {
+  return (await listLibrary(options)).filter(
+    (template) => template.metadata.variables.length > 0 && template.metadata.error === undefined
+  );
+}
+
+/**
+ * Renders a library prompt with the given arguments. A conversation template keeps its
+ * turns; its system message, which prompts cannot carry, becomes the opening user turn.
+ */
+export async function getLibraryPrompt(
+  name: string,
+  args: Record<string, string> = {},
+  options: LibraryOptions = {}
+): Promise<{ template: LibraryTemplate; messages: PromptMessage[] }> {
+  const template = (await listLibraryPrompts(options)).find((entry) => entry.name === name);
+  if (!template) {
+    throw new LibraryError(`Unknown prompt: ${name}`);
+  }
+  const { content } = await readLibraryTemplate(template.uri, options);
+  const rendered = await renderTemplate(
+    content,
+    coerceArguments(args, template.metadata.variables)
+  );
+
+  const text = (value: string): PromptMessage['content'] => ({ type: 'text', text: value });
+  const conversation = parseConversation(rendered.content);
+  if (!conversation) {
+    return { template, messages: [{ role: 'user', content: text(rendered.content.trim()) }] };
+  }
+  const messages = conversation.messages.map(
+    (message): PromptMessage => ({
+      role: message.role === 'system' ? 'user' : message.role,
+      content: text(message.content),
+    })
+  );
+  return { template, messages };
+}
+
+async function indexFile(file: string, cwd: string, cacheDir?: string): Promise<LibraryTemplate> {
+  const content = await readFile(file, 'utf8');
+  const config = await loadRuleConfig({ templatePath: file });
+  const key = await cacheKey(content, config);
+  const cached = cache.get(file);
+  if (cached?.key === key) {
+    return cached.template;
+  }
+
+  const relative = path.relative(cwd, file).split(path.sep).join('/');
+  const parsed = parseTemplate(content, templateParseOptions(config));
+  const contract = readVariableContract(parsed);
+  const placeholders = Array.from(
+    new Set(
+      parsed.variables
+        .filter((variable) => variable.syntax === 'mustache')
+        .map((variable) => variable.name)
+    )
+  );
+  const metadata: LibraryMetadata = {
+    dialect: parsed.dialect,
+    variables: contract.declared
+      ? contract.variables
+      : placeholders.map((name) => ({ name, type: 'string', required: true })),
+  };
+  try {
+    const { score } = await analyzeFile(file, content, key, cacheDir);
+    metadata.score = score.score;
+    metadata.grade = score.grade;
+  } catch (error) {
+    metadata.error = error instanceof Error ? error.message : String(error);
+  }
+
+  const description = parsed.frontmatter?.data.description;
+  const template: LibraryTemplate = {
+    uri: TEMPLATE_URI_SCHEME + relative.split('/').map(encodeURIComponent).join('/'),
+    file: relative,
+    name: relative.slice(0, relative.length - path.extname(relative).length),
+    metadata,
+  };
+  if (typeof description === 'string') {
+    template.description = description;
+  }
+  cache.set(file, { key, template });
+  return template;
+}
+
+/**
+ * Analyzes a file, going through the result cache `batch` uses when one is configured.
+ * Entries written here carry the validation too, so `batch` can reuse them.
+ */
+async function analyzeFile(
+  file: string,
+  content: string,
+  key: string,
+  cacheDir?: string
+): Promise<TemplateReport> {
+  const stored = cacheDir ? await readCacheEntry(cacheDir, key) : undefined;
+  if (stored) {
+    return stored.analysis;
+  }
+  const analysis = await analyzeAll(content, undefined, { templatePath: file });
+  if (cacheDir) {
+    const validation = await validateTemplate(content, { templatePath: file });
+    await writeCacheEntry(cacheDir, key, { analysis, validation });
+  }
+  return analysis;
+}
+
+/**
+ * Prompt arguments arrive as strings; declared numbers, booleans, arrays and objects are
+ * read as JSON so the variable contract can check them
+ */
+function coerceArguments(
+  args: Record<string, string>,
+  variables: VariableDeclaration[]
+): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(args).map(([name, value]) => {
+      const declaration = variables.find((variable) => variable.name === name);
+      if (!declaration || declaration.type === 'string') {
+        return [name, value];
+      }
+      try {
+        return [name, JSON.parse(value)];
+      } catch {
+        return [name, value];
+      }
+    })
+  );
+}
@@ -0,0 +1,71 @@
+/**
+ * The subset of Language Server Protocol types the template language server uses.
+ * Lines and characters are 0-based; characters count UTF-16 code units, as JS strings do.
+ */
+
+export interface LspPosition {
+  line: number;
+  character: number;
+}
+
+export interface LspRange {
+  start: LspPosition;
+  end: LspPosition;
+}
+
+export const DiagnosticSeverity = {
+  Error: 1,
+  Warning: 2,
+  Information: 3,
+  Hint: 4,
+} as const;
+
+export interface Diagnostic {
+  range: LspRange;
+  severity: (typeof DiagnosticSeverity)[keyof typeof DiagnosticSeverity];
+  code: string;
+  source: string;
+  message: string;
+  /** Carried back to the server in code action requests */
+  data?: { fixable: boolean };
+}
+
+export interface TextEdit {
+  range: LspRange;
+  newText: string;
+}
+
+export interface CodeAction {
+  title: string;
+  kind: string;
+  diagnostics?: Diagnostic[];
+  isPreferred?: boolean;
+  edit: { changes: Record<string, TextEdit[]> };
+}
+
+export interface Hover {
+  contents: { kind: 'markdown'; value: string };
+  range?: LspRange;
+}
+
+export interface TextDocumentItem {
+  uri: string;
+  version: number;
+  text: string;
+}
+
+export const ErrorCodes = {
+  InvalidRequest: -32600,
+  MethodNotFound: -32601,
+  InvalidParams: -32602,
+  InternalError: -32603,
+} as const;
+
+// Full-text sync: every change notification carries the whole document
+export const TEXT_DOCUMENT_SYNC_FULL = 1;
+
+export const CODE_ACTION_KINDS = {
+  quickFix: 'quickfix',
+  fixAll: 'source.fixAll',
+  rewrite: 'refactor.rewrite',
+} as const;
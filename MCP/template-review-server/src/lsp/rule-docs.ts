@@ -0,0 +1,74 @@
+/** One-line explanations of the built-in rules, shown when hovering a diagnostic */
+export const RULE_DOCS: Record<string, string> = {
+  // validate_template
+  schema: 'The template must not be empty.',
+  'required-sections':
+    'Every template needs the sections listed in `structure.requiredSections`; aliases count.',
+  'recommended-sections': 'Sections in `structure.recommendedSections` make a template clearer.',
+  'section-order': 'Standard sections should appear in the order of `structure.sectionOrder`.',
+  'sentence-length':
+    'Sentences longer than `content.maxSentenceLength` characters are hard for a model to follow.',
+  'nested-instructions': 'Parentheses inside parentheses hide instructions; split them out.',
+  'ambiguous-language':
+    'Words such as "maybe" or "should" leave the model to guess; say exactly what to do.',
+  'language-support':
+    'No lexicon for the template language, so ambiguous, vague-term, tone and tense checks were skipped.',
+  'variable-format': 'Write every placeholder as `{{variableName}}`.',
+  'variable-naming': 'Placeholder names may only use letters, digits, `_` and `-`.',
+  'variable-usage':
+    'Longer templates are easier to reuse with `{{variables}}` for dynamic content.',
+  'variable-contract': 'The frontmatter, or its `variables` block, could not be read.',
+  'variable-undeclared':
+    'The placeholder is used but not declared under `variables` in frontmatter.',
+  'variable-unused': 'The variable is declared in frontmatter but no placeholder uses it.',
+  'bullet-consistency': 'Use one bullet marker, `formatting.preferredBulletStyle`, throughout.',
+  'section-case': 'Write `NAME:` section headers in upper case.',
+  'section-spacing': 'Separate sections with exactly `formatting.sectionSpacing` blank lines.',
+  'trailing-whitespace': 'Lines should not end in spaces or tabs.',
+  'format-json-schema':
+    'FORMAT asks for JSON without a JSON Schema or example, so responses cannot be checked against it.',
+  'unused-directive': 'This `template-review-disable` comment silences nothing and can be removed.',
+  'token-budget': 'The estimated token count is over `tokens.budget`.',
+  'conversation-roles':
+    'The system message comes first, the dialogue opens with a user turn, and user and assistant turns alternate.',
+  'conversation-system': 'A conversation needs a system message with the role, task and format.',
+  'conversation-variables':
+    'Use one variable syntax in every turn, and do not use variables only in assistant turns.',
+  'conversation-format':
+    'Few-shot assistant turns must use the response format the system FORMAT section asks for.',
+  // analyze_template patterns
+  'mustache-syntax': 'Mustache-style `{{...}}` syntax was found.',
+  'string-interpolation': 'Use `${...}` interpolation sparingly in templates.',
+  'mutable-declaration': 'Prefer `const` over `var` and `let` in template code.',
+  'any-type': 'Name a proper type instead of `any`.',
+  'console-statement': 'Remove debug `console` calls.',
+  'multiple-blank-lines': 'More than one blank line in a row.',
+  'tab-indentation': 'Indent with spaces, not tabs.',
+  'missing-final-newline': 'End the file with a newline.',
+  // analyze_template security
+  'untrusted-variable':
+    'User-supplied text placed among the instructions can override them. Put it alone in a data tag, a code fence or a `"""` block.',
+  'instruction-injection':
+    'Never tell the model to follow instructions found in user content; say to treat that content as data.',
+  'hardcoded-secret':
+    'Credentials in a prompt reach the model and its logs. Revoke the key and load it from the environment.',
+  'pii-literal':
+    'Real personal data does not belong in a template; use a placeholder or a fictional value.',
+  // analyze_template conflicts
+  'conflicting-instructions':
+    'One instruction forbids what another requires, so the model has to pick one. Keep one, or say when each applies.',
+  'conflicting-formats':
+    'Two statements ask for response formats that cannot both be met, such as JSON and Markdown bullets.',
+
+  // analyze_template examples
+  'example-format':
+    'The example output breaks the FORMAT contract. Models copy examples more readily than they follow instructions.',
+  'example-length-skew':
+    'One example is far longer than another, which pulls responses towards its length.',
+  'example-label-skew':
+    'Most labelled examples share one label, which biases the model towards it.',
+  'example-variable':
+    'The example keeps a `{{variable}}` placeholder, which reaches the model unfilled.',
+  'example-copies-task':
+    'The example repeats the TASK text instead of showing the task done on new input.',
+};
@@ -0,0 +1,407 @@
+import { Readable, Writable } from 'stream';
+import { fileURLToPath } from 'url';
+import { analyzeAll } from '../analysis.js';
+import { ConfigError, ConfigOptions, loadRuleConfig } from '../config/loader.js';
+import { EnhancementStep } from '../enhancers/optimizer.js';
+import { createEnhancementPatch } from '../enhancers/patcher.js';
+import { PluginError, loadPlugins } from '../plugins/loader.js';
+import { FindingSeverity } from '../reporters/findings.js';
+import { PatternMatch } from '../types.js';
+import { ConversationError } from '../utils/conversation.js';
+import { Span } from '../utils/parser.js';
+import { applyFixes } from '../validators/fixes.js';
+import { fixTemplate, validateTemplate } from '../validators/rules.js';
+import { TOOL_NAME, TOOL_VERSION } from '../version.js';
+import {
+  CODE_ACTION_KINDS,
+  CodeAction,
+  Diagnostic,
+  DiagnosticSeverity,
+  ErrorCodes,
+  Hover,
+  LspPosition,
+  LspRange,
+  TEXT_DOCUMENT_SYNC_FULL,
+  TextDocumentItem,
+  TextEdit,
+} from './protocol.js';
+import { RULE_DOCS } from './rule-docs.js';
+import { JsonRpcMessage, readMessages, writeMessage } from './transport.js';
+
+interface OpenDocument extends TextDocumentItem {
+  /** Diagnostics last published for this version */
+  diagnostics: Diagnostic[];
+}
+
+interface CodeActionParams {
+  textDocument: { uri: string };
+  range: LspRange;
+  context: { diagnostics: Diagnostic[]; only?: string[] };
+}
+
+interface HoverParams {
+  textDocument: { uri: string };
+  position: LspPosition;
+}
+
+/** Where a finding points: 1-based, as the analyzers report it */
+interface FindingLike {
+  rule: string;
+  message: string;
+  severity: FindingSeverity;
+  line?: number;
+  column?: number;
+}
+
+/**
+ * Raised for a request the server cannot answer, with its JSON-RPC error code
+ */
+class ResponseError extends Error {
+  constructor(
+    public readonly code: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ResponseError';
+  }
+}
+
+const DIAGNOSTIC_SOURCE = TOOL_NAME;
+
+const SEVERITIES: Record<FindingSeverity, Diagnostic['severity']> = {
+  error: DiagnosticSeverity.Error,
+  warning: DiagnosticSeverity.Warning,
+  info: DiagnosticSeverity.Information,
+};
+
+const STEP_TITLES: Record<EnhancementStep, string> = {
+  addMissingSections: 'Add missing sections',
+  formatTemplateVariables: 'Normalize template variables',
+  improveFormatting: 'Improve formatting',
+  removeRedundancies: 'Remove duplicate instructions',
+};
+
+/**
+ * Runs a Language Server Protocol server over the given streams. Open documents are
+ * validated and analyzed on every change, with quick fixes, enhancer edits and rule
+ * explanations on hover.
+ */
+export function startLanguageServer(
+  input: Readable = process.stdin,
+  output: Writable = process.stdout
+): void {
+  const documents = new Map<string, OpenDocument>();
+  let shutdownRequested = false;
+
+  const send = (message: Omit<JsonRpcMessage, 'jsonrpc'>): void =>
+    writeMessage(output, { jsonrpc: '2.0', ...message });
+
+  const publish = async (document: OpenDocument): Promise<void> => {
+    const diagnostics = await diagnose(document).catch((error: unknown) => [
+      toDiagnostic(
+        {
+          rule: 'review-error',
+          message: error instanceof Error ? error.message : String(error),
+          severity: 'error',
+        },
+        document.text
+      ),
+    ]);
+    document.diagnostics = diagnostics;
+    send({
+      method: 'textDocument/publishDiagnostics',
+      params: { uri: document.uri, version: document.version, diagnostics },
+    });
+  };
+
+  const open = (item: TextDocumentItem): Promise<void> => {
+    const document: OpenDocument = { ...item, diagnostics: [] };
+    documents.set(item.uri, document);
+    return publish(document);
+  };
+
+  const requests: Record<string, (params: never) => unknown> = {
+    initialize: () => ({
+      capabilities: {
+        textDocumentSync: { openClose: true, change: TEXT_DOCUMENT_SYNC_FULL },
+        codeActionProvider: { codeActionKinds: Object.values(CODE_ACTION_KINDS) },
+        hoverProvider: true,
+      },
+      serverInfo: { name: TOOL_NAME, version: TOOL_VERSION },
+    }),
+    shutdown: () => {
+      shutdownRequested = true;
+      return null;
+    },
+    'textDocument/codeAction': (params: CodeActionParams) =>
+      codeActions(requireDocument(documents, params.textDocument.uri), params),
+    'textDocument/hover': (params: HoverParams) =>
+      hover(requireDocument(documents, params.textDocument.uri), params.position),
+  };
+
+  const notifications: Record<string, (params: never) => unknown> = {
+    'textDocument/didOpen': (params: { textDocument: TextDocumentItem }) =>
+      open(params.textDocument),
+    'textDocument/didChange': (params: {
+      textDocument: { uri: string; version: number };
+      contentChanges: { text: string }[];
+    }) => {
+      const change = params.contentChanges[params.contentChanges.length - 1];
+      if (change) {
+        return open({ ...params.textDocument, text: change.text });
+      }
+    },
+    'textDocument/didClose': (params: { textDocument: { uri: string } }) => {
+      documents.delete(params.textDocument.uri);
+      send({
+        method: 'textDocument/publishDiagnostics',
+        params: { uri: params.textDocument.uri, diagnostics: [] },
+      });
+    },
+    exit: () => process.exit(shutdownRequested ? 0 : 1),
+  };
+
+  const handle = async (message: JsonRpcMessage): Promise<void> => {
+    const { id, method } = message;
+    if (method === undefined) {
+      return;
+    }
+
+    // Notifications get no reply, not even for failures
+    if (id === undefined) {
+      try {
+        await notifications[method]?.(message.params as never);
+      } catch {
+        // Nothing to reply to; the next change runs again
+      }
+      return;
+    }
+
+    const handler = requests[method];
+    if (!handler) {
+      send({
+        id,
+        error: { code: ErrorCodes.MethodNotFound, message: `Unknown method: ${method}` },
+      });
+      return;
+    }
+    try {
+      send({ id, result: (await handler(message.params as never)) ?? null });
+    } catch (error) {
+      send({
+        id,
+        error: {
+          code: errorCode(error),
+          message: error instanceof Error ? error.message : String(error),
+        },
+      });
+    }
+  };
+
+  // One message at a time, so replies and diagnostics follow the order of the edits
+  let pending = Promise.resolve();
+  readMessages(input, (message) => {
+    pending = pending.then(() => handle(message));
+  });
+  input.on('end', () => pending.then(() => process.exit(shutdownRequested ? 0 : 1)));
+}
+
+/**
+ * JSON-RPC error code for a failed request: problems with the document or its
+ * configuration are the client's, anything else is ours
+ */
+function errorCode(error: unknown): number {
+  if (error instanceof ResponseError) {
+    return error.code;
+  }
+  if (
+    error instanceof ConversationError ||
+    error instanceof ConfigError ||
+    error instanceof PluginError
+  ) {
+    return ErrorCodes.InvalidParams;
+  }
+  return ErrorCodes.InternalError;
+}
+
+function requireDocument(documents: Map<string, OpenDocument>, uri: string): OpenDocument {
+  const document = documents.get(uri);
+  if (!document) {
+    throw new ResponseError(ErrorCodes.InvalidParams, `Document is not open: ${uri}`);
+  }
+  return document;
+}
+
+/**
+ * Config discovery starts from the file's own path, as it does for the CLI
+ */
+function configOptions(uri: string): ConfigOptions {
+  return uri.startsWith('file:') ? { templatePath: fileURLToPath(uri) } : {};
+}
+
+async function diagnose(document: OpenDocument): Promise<Diagnostic[]> {
+  const options = configOptions(document.uri);
+  const validation = await validateTemplate(document.text, options);
+  const analysis = await analyzeAll(document.text, undefined, options);
+  const matches = [
+    ...((analysis.patterns.details.patternMatches as PatternMatch[] | undefined) ?? []),
+    ...((analysis.security.details.securityMatches as PatternMatch[] | undefined) ?? []),
+    ...((analysis.conflicts.details.conflictMatches as PatternMatch[] | undefined) ?? []),
+    ...((analysis.examples.details.exampleMatches as PatternMatch[] | undefined) ?? []),
+  ];
+
+  return [
+    ...validation.violations.map((violation) =>
+      toDiagnostic(violation, document.text, violation.fixable)
+    ),
+    ...matches.map((match) => toDiagnostic(match, document.text)),
+  ];
+}
+
+/**
+ * Converts a 1-based finding into a diagnostic running to the end of its line; findings
+ * without a line cover the first line
+ */
+function toDiagnostic(finding: FindingLike, text: string, fixable = false): Diagnostic {
+  const lines = text.split('\n');
+  const line = Math.min(Math.max((finding.line ?? 1) - 1, 0), lines.length - 1);
+  const lineText = lines[line].replace(/\r$/, '');
+  const character = Math.min((finding.column ?? 1) - 1, lineText.length);
+
+  return {
+    range: {
+      start: { line, character },
+      end: { line, character: Math.max(character, lineText.length) },
+    },
+    severity: SEVERITIES[finding.severity],
+    code: finding.rule,
+    source: DIAGNOSTIC_SOURCE,
+    message: finding.message,
+    data: { fixable },
+  };
+}
+
+/**
+ * Quick fixes for the fixable diagnostics in the request, a fix-all action, and any
+ * enhancer edits that touch the requested lines
+ */
+async function codeActions(
+  document: OpenDocument,
+  params: CodeActionParams
+): Promise<CodeAction[]> {
+  const options = configOptions(document.uri);
+  const config = await loadRuleConfig(options);
+  const actions: CodeAction[] = [];
+  const replaceAll = (newText: string): Record<string, TextEdit[]> => ({
+    [document.uri]: [{ range: documentRange(document.text), newText }],
+  });
+
+  const fixable = params.context.diagnostics.filter(
+    (diagnostic) => diagnostic.source === DIAGNOSTIC_SOURCE && diagnostic.data?.fixable
+  );
+  for (const rule of new Set(fixable.map((diagnostic) => diagnostic.code))) {
+    const fixed = applyFixes(document.text, [rule], config);
+    if (fixed !== document.text) {
+      actions.push({
+        title: `Fix all ${rule} problems`,
+        kind: CODE_ACTION_KINDS.quickFix,
+        diagnostics: fixable.filter((diagnostic) => diagnostic.code === rule),
+        isPreferred: true,
+        edit: { changes: replaceAll(fixed) },
+      });
+    }
+  }
+
+  if (document.diagnostics.some((diagnostic) => diagnostic.data?.fixable)) {
+    const { content } = await fixTemplate(document.text, { ...options, config });
+    if (content !== document.text) {
+      actions.push({
+        title: 'Fix all auto-fixable problems',
+        kind: CODE_ACTION_KINDS.fixAll,
+        edit: { changes: replaceAll(content) },
+      });
+    }
+  }
+
+  const { edits } = await createEnhancementPatch(document.text);
+  edits
+    .filter((edit) => overlaps(toRange(edit.span), params.range))
+    .forEach((edit) =>
+      actions.push({
+        title: `${STEP_TITLES[edit.step]} (${edit.id})`,
+        kind: CODE_ACTION_KINDS.rewrite,
+        edit: {
+          changes: {
+            [document.uri]: [{ range: toRange(edit.span), newText: edit.replacement }],
+          },
+        },
+      })
+    );
+
+  const { only } = params.context;
+  return only
+    ? actions.filter((action) => only.some((kind) => action.kind.startsWith(kind)))
+    : actions;
+}
+
+/**
+ * Explains the rules behind the diagnostics under the cursor
+ */
+async function hover(document: OpenDocument, position: LspPosition): Promise<Hover | null> {
+  const found = document.diagnostics.filter((diagnostic) => contains(diagnostic.range, position));
+  if (found.length === 0) {
+    return null;
+  }
+
+  const config = await loadRuleConfig(configOptions(document.uri));
+  const pluginDocs = new Map<string, string>();
+  (await loadPlugins(config)).forEach(({ plugin }) =>
+    plugin.rules?.forEach((rule) => {
+      if (rule.description) pluginDocs.set(rule.id, rule.description);
+    })
+  );
+
+  const sections = found.map((diagnostic) => {
+    const explanation = RULE_DOCS[diagnostic.code] ?? pluginDocs.get(diagnostic.code);
+    return [
+      `**${diagnostic.code}**: ${diagnostic.message}`,
+      explanation,
+      diagnostic.data?.fixable ? 'Auto-fixable with the quick fix or `--fix`.' : undefined,
+    ]
+      .filter((part) => part !== undefined)
+      .join('\n\n');
+  });
+
+  return {
+    contents: { kind: 'markdown', value: sections.join('\n\n---\n\n') },
+    range: found[0].range,
+  };
+}
+
+function toRange(span: Span): LspRange {
+  return {
+    start: { line: span.start.line - 1, character: span.start.column - 1 },
+    end: { line: span.end.line - 1, character: span.end.column - 1 },
+  };
+}
+
+function documentRange(text: string): LspRange {
+  const lines = text.split('\n');
+  return {
+    start: { line: 0, character: 0 },
+    end: { line: lines.length - 1, character: lines[lines.length - 1].length },
+  };
+}
+
+function compare(a: LspPosition, b: LspPosition): number {
+  return a.line - b.line || a.character - b.character;
+}
+
+function contains(range: LspRange, position: LspPosition): boolean {
+  return compare(range.start, position) <= 0 && compare(position, range.end) <= 0;
+}
+
+/** Ranges overlap or touch; an insertion touching the requested lines counts */
+function overlaps(a: LspRange, b: LspRange): boolean {
+  return a.start.line <= b.end.line && b.start.line <= a.end.line;
+}
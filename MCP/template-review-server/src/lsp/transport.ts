@@ -0,0 +1,56 @@
+import { Readable, Writable } from 'stream';
+
+/** A JSON-RPC 2.0 request, response or notification */
+export interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: number | string | null;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+const HEADER_SEPARATOR = '\r\n\r\n';
+
+/**
+ * Reads `Content-Length` framed JSON-RPC messages, as used by the Language Server
+ * Protocol, and passes each one to `onMessage`
+ */
+export function readMessages(input: Readable, onMessage: (message: JsonRpcMessage) => void): void {
+  let buffer = Buffer.alloc(0);
+
+  input.on('data', (chunk: Buffer) => {
+    buffer = Buffer.concat([buffer, chunk]);
+
+    for (;;) {
+      const headerEnd = buffer.indexOf(HEADER_SEPARATOR);
+      if (headerEnd === -1) return;
+
+      const header = buffer.subarray(0, headerEnd).toString('ascii');
+      const length = Number(header.match(/^Content-Length:\s*(\d+)/im)?.[1]);
+      const bodyStart = headerEnd + HEADER_SEPARATOR.length;
+      if (Number.isNaN(length)) {
+        // Skip a malformed header rather than stall the stream
+        buffer = buffer.subarray(bodyStart);
+        continue;
+      }
+      if (buffer.length < bodyStart + length) return;
+
+      const body = buffer.subarray(bodyStart, bodyStart + length).toString('utf8');
+      buffer = buffer.subarray(bodyStart + length);
+      let message: JsonRpcMessage;
+      try {
+        message = JSON.parse(body) as JsonRpcMessage;
+      } catch {
+        // A body that is not JSON cannot be answered; drop it and keep reading
+        continue;
+      }
+      onMessage(message);
+    }
+  });
+}
+
+export function writeMessage(output: Writable, message: JsonRpcMessage): void {
+  const body = JSON.stringify(message);
+  output.write(`Content-Length: ${Buffer.byteLength(body, 'utf8')}${HEADER_SEPARATOR}${body}`);
+}
@@ -0,0 +1,89 @@
+import { pathToFileURL } from 'url';
+import { z } from 'zod';
+import { RuleConfig, loadDefaultConfig } from '../config/loader.js';
+import { formatZodError } from '../validators/schema.js';
+import { TemplatePlugin } from './types.js';
+
+/** A plugin module together with the options configured for it */
+export interface LoadedPlugin {
+  plugin: TemplatePlugin;
+  options: Record<string, unknown>;
+  /** Absolute module path */
+  source: string;
+}
+
+/**
+ * Raised when a plugin cannot be imported, has the wrong shape, or fails while running
+ */
+export class PluginError extends Error {
+  constructor(
+    message: string,
+    public readonly source: string
+  ) {
+    super(`Plugin error (${source}): ${message}`);
+    this.name = 'PluginError';
+  }
+}
+
+const isFunction = (value: unknown): boolean => typeof value === 'function';
+const callable = z.custom<(...args: never[]) => unknown>(isFunction, 'expected a function');
+
+const pluginSchema = z.looseObject({
+  name: z.string().min(1),
+  rules: z.array(z.looseObject({ id: z.string().min(1), check: callable })).optional(),
+  analyzers: z.array(z.looseObject({ id: z.string().min(1), analyze: callable })).optional(),
+  languages: z.array(z.looseObject({ code: z.string().min(1) })).optional(),
+});
+
+const modules = new Map<string, Promise<TemplatePlugin>>();
+
+/**
+ * Imports every plugin named in the config. Modules are cached by path.
+ */
+export async function loadPlugins(config: RuleConfig): Promise<LoadedPlugin[]> {
+  const builtInRules = new Set(Object.keys((await loadDefaultConfig()).rules));
+  const loaded: LoadedPlugin[] = [];
+
+  for (const entry of config.plugins) {
+    const source = typeof entry === 'string' ? entry : entry.path;
+    let pending = modules.get(source);
+    if (!pending) {
+      pending = importPlugin(source);
+      modules.set(source, pending);
+      // Let a fixed plugin be retried on the next call
+      pending.catch(() => modules.delete(source));
+    }
+    const plugin = await pending;
+
+    const clash = plugin.rules?.find((rule) => builtInRules.has(rule.id));
+    if (clash) {
+      throw new PluginError(`rule id "${clash.id}" is already used by a built-in rule`, source);
+    }
+    loaded.push({
+      plugin,
+      options: typeof entry === 'string' ? {} : (entry.options ?? {}),
+      source,
+    });
+  }
+
+  return loaded;
+}
+
+async function importPlugin(source: string): Promise<TemplatePlugin> {
+  let module: Record<string, unknown>;
+  try {
+    module = await import(pathToFileURL(source).href);
+  } catch (error) {
+    throw new PluginError(error instanceof Error ? error.message : String(error), source);
+  }
+
+  const candidate = module.default ?? module.plugin;
+  const parsed = pluginSchema.safeParse(candidate);
+  if (!parsed.success) {
+    throw new PluginError(
+      `expected a default or "plugin" export with a name, rules, analyzers and/or languages: ${formatZodError(parsed.error)}`,
+      source
+    );
+  }
+  return candidate as TemplatePlugin;
+}
@@ -0,0 +1,69 @@
+/**
+ * Public plugin interface. A plugin is a local ES module, listed under `plugins` in the
+ * rule config, whose default export (or `plugin` export) is a `TemplatePlugin`.
+ */
+
+import { RuleConfig, RuleSetting } from '../config/loader.js';
+import { LanguageDefinition } from '../languages/language.js';
+import { ParsedTemplate } from '../utils/parser.js';
+
+/** 1-based location of a finding; the column defaults to 1 */
+export interface FindingLocation {
+  line: number;
+  column?: number;
+}
+
+export interface RuleContext {
+  template: ParsedTemplate;
+  /** Effective rule config for the template */
+  config: RuleConfig;
+  /** Options given for this plugin in the config */
+  options: Record<string, unknown>;
+  /** Reports a violation of this rule; severity comes from the config */
+  report: (message: string, location?: FindingLocation) => void;
+}
+
+/** A validation rule, run by validate_template alongside the built-in rules */
+export interface TemplateRule {
+  /** Rule id used in reports, config `rules` and suppression comments */
+  id: string;
+  description?: string;
+  /** Severity used when the config does not set one; defaults to warning */
+  defaultSeverity?: RuleSetting;
+  check: (context: RuleContext) => void | Promise<void>;
+}
+
+export interface AnalyzerContext {
+  template: ParsedTemplate;
+  config: RuleConfig;
+  options: Record<string, unknown>;
+}
+
+export interface AnalyzerFinding extends Partial<FindingLocation> {
+  /** Defaults to the analyzer id */
+  rule?: string;
+  message: string;
+  severity: 'error' | 'warning' | 'info';
+}
+
+/** An analyzer, run by analyze_template alongside the built-in pattern checks */
+export interface TemplateAnalyzer {
+  id: string;
+  description?: string;
+  analyze: (context: AnalyzerContext) => AnalyzerFinding[] | Promise<AnalyzerFinding[]>;
+}
+
+export interface TemplatePlugin {
+  name: string;
+  rules?: TemplateRule[];
+  analyzers?: TemplateAnalyzer[];
+  /** Languages to detect, with lexicons; replace bundled languages with the same code */
+  languages?: LanguageDefinition[];
+}
+
+/**
+ * Identity helper that gives plugin authors type checking
+ */
+export function definePlugin(plugin: TemplatePlugin): TemplatePlugin {
+  return plugin;
+}
@@ -0,0 +1,62 @@
+import { ProviderConfig } from '../validators/schema.js';
+import { ModelProvider, ProviderError } from './provider.js';
+
+type OpenAiConfig = Extract<ProviderConfig, { type: 'openai' }>;
+
+interface ChatCompletion {
+  choices?: { message?: { content?: string | null } }[];
+}
+
+const DEFAULT_TIMEOUT_MS = 60_000;
+
+/**
+ * Calls the chat completions endpoint of an OpenAI-compatible API, such as OpenAI itself,
+ * a local Ollama at http://localhost:11434/v1, LM Studio or vLLM
+ */
+export function createOpenAiProvider(config: OpenAiConfig): ModelProvider {
+  const name = `openai:${config.model}`;
+  const url = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    name,
+    complete: async ({ messages, caseName }): Promise<string> => {
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (config.apiKeyEnv) {
+        const key = process.env[config.apiKeyEnv];
+        if (!key) {
+          throw new ProviderError(`environment variable ${config.apiKeyEnv} is not set`, name);
+        }
+        headers.Authorization = `Bearer ${key}`;
+      }
+
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({
+            model: config.model,
+            messages,
+            temperature: config.temperature ?? 0,
+            ...(config.maxTokens !== undefined && { max_tokens: config.maxTokens }),
+          }),
+          signal: AbortSignal.timeout(config.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new ProviderError(`case ${caseName}: ${message}`, name);
+      }
+      if (!response.ok) {
+        const body = (await response.text()).slice(0, 200);
+        throw new ProviderError(`case ${caseName}: HTTP ${response.status} ${body}`, name);
+      }
+
+      const completion = (await response.json()) as ChatCompletion;
+      const content = completion.choices?.[0]?.message?.content;
+      if (typeof content !== 'string') {
+        throw new ProviderError(`case ${caseName}: response has no message content`, name);
+      }
+      return content;
+    },
+  };
+}
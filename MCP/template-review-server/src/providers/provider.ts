@@ -0,0 +1,43 @@
+/**
+ * Model providers run rendered templates for test_template. A provider turns a list of
+ * chat messages into one completion.
+ */
+
+import { ConversationRole } from '../utils/conversation.js';
+import { ProviderConfig } from '../validators/schema.js';
+import { createOpenAiProvider } from './openai.js';
+import { createStubProvider } from './stub.js';
+
+export interface ChatMessage {
+  role: ConversationRole;
+  content: string;
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  /** Name of the test case, for canned responses and error messages */
+  caseName: string;
+}
+
+export interface ModelProvider {
+  /** Shown in reports, e.g. `stub` or `openai:llama3.1` */
+  name: string;
+  complete: (request: CompletionRequest) => Promise<string>;
+}
+
+/**
+ * Raised when a provider cannot produce a completion
+ */
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: string
+  ) {
+    super(`Provider ${provider} failed: ${message}`);
+    this.name = 'ProviderError';
+  }
+}
+
+export function createProvider(config: ProviderConfig = { type: 'stub' }): ModelProvider {
+  return config.type === 'stub' ? createStubProvider(config) : createOpenAiProvider(config);
+}
@@ -0,0 +1,16 @@
+import { ProviderConfig } from '../validators/schema.js';
+import { ModelProvider } from './provider.js';
+
+type StubConfig = Extract<ProviderConfig, { type: 'stub' }>;
+
+/**
+ * A deterministic offline provider: it answers with the canned response for the case, or
+ * else echoes the last message, so golden tests can check what the template renders to
+ */
+export function createStubProvider(config: StubConfig): ModelProvider {
+  return {
+    name: 'stub',
+    complete: async ({ messages, caseName }) =>
+      config.responses?.[caseName] ?? messages[messages.length - 1]?.content ?? '',
+  };
+}
@@ -0,0 +1,92 @@
+import { parseTemplate } from '../utils/parser.js';
+import { matchesType, readVariableContract } from '../validators/contract.js';
+
+export interface RenderResult {
+  /** Template with placeholders substituted and frontmatter removed */
+  content: string;
+  /** Variables substituted into the template */
+  used: string[];
+  /** Declared variables filled in from their default value */
+  defaulted: string[];
+  /** Supplied variables that no placeholder refers to */
+  unused: string[];
+}
+
+/**
+ * Raised when a template cannot be rendered with the supplied values
+ */
+export class RenderError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Cannot render template: ${problems.join('; ')}`);
+    this.name = 'RenderError';
+  }
+}
+
+/**
+ * Substitutes `{{name}}` placeholders, checking the values against any variable
+ * contract declared in frontmatter
+ */
+export async function renderTemplate(
+  content: string,
+  variables: Record<string, unknown> = {}
+): Promise<RenderResult> {
+  const template = parseTemplate(content);
+  const contract = readVariableContract(template);
+  const problems = [...contract.errors];
+  const values = new Map(Object.entries(variables));
+  const defaulted: string[] = [];
+
+  for (const declaration of contract.variables) {
+    const value = values.get(declaration.name);
+    if (value === undefined) {
+      if (declaration.default !== undefined) {
+        values.set(declaration.name, declaration.default);
+        defaulted.push(declaration.name);
+      } else if (declaration.required) {
+        problems.push(`missing value for required variable "${declaration.name}"`);
+      } else {
+        values.set(declaration.name, '');
+      }
+    } else if (!matchesType(value, declaration.type)) {
+      problems.push(`variable "${declaration.name}" must be a ${declaration.type}`);
+    }
+  }
+
+  const placeholders = template.variables.filter((variable) => variable.syntax === 'mustache');
+  const missing = new Set(
+    placeholders.map((variable) => variable.name).filter((name) => !values.has(name))
+  );
+  missing.forEach((name) => {
+    if (!contract.variables.some((declaration) => declaration.name === name)) {
+      problems.push(`missing value for "${name}"`);
+    }
+  });
+
+  if (problems.length > 0) {
+    throw new RenderError(problems);
+  }
+
+  // Replace from the end so earlier offsets stay valid
+  let rendered = content;
+  for (const variable of [...placeholders].reverse()) {
+    rendered =
+      rendered.slice(0, variable.span.start.offset) +
+      formatValue(values.get(variable.name)) +
+      rendered.slice(variable.span.end.offset);
+  }
+
+  const referenced = new Set(placeholders.map((variable) => variable.name));
+  return {
+    content: rendered.slice(template.frontmatter?.span.end.offset ?? 0),
+    used: Array.from(referenced),
+    defaulted: defaulted.filter((name) => referenced.has(name)),
+    unused: Object.keys(variables).filter((name) => !referenced.has(name)),
+  };
+}
+
+/**
+ * Text substituted for a variable value: strings as-is, anything else as JSON
+ */
+export function formatValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
@@ -0,0 +1,238 @@
+import { TemplateReport } from '../analysis.js';
+import { BatchResult } from '../batch.js';
+import { TemplateComparison } from '../compare.js';
+import { DuplicateReport } from '../duplicates.js';
+import { ResponseCheck } from '../response-check.js';
+import { TestReport } from '../test-template.js';
+import { TokenReport } from '../analyzers/tokens.js';
+import { PatternMatch } from '../types.js';
+import { ValidationResult } from '../validators/rules.js';
+
+export type FindingSeverity = 'error' | 'warning' | 'info';
+
+/** A single reportable finding, independent of which analyzer or validator produced it */
+export interface Finding {
+  rule: string;
+  message: string;
+  severity: FindingSeverity;
+  source:
+    | 'validator'
+    | 'patterns'
+    | 'security'
+    | 'conflicts'
+    | 'examples'
+    | 'language'
+    | 'score'
+    | 'tokens'
+    | 'compare'
+    | 'duplicates'
+    | 'response'
+    | 'test';
+  line?: number;
+  column?: number;
+}
+
+export interface FileFindings {
+  file: string;
+  findings: Finding[];
+}
+
+export function findingsFromValidation(result: ValidationResult): Finding[] {
+  return result.violations.map((violation) => ({
+    rule: violation.rule,
+    message: violation.message,
+    severity: violation.severity,
+    source: 'validator',
+    line: violation.line,
+    column: violation.column,
+  }));
+}
+
+export function findingsFromAnalysis(analysis: TemplateReport): Finding[] {
+  const fromMatches = (matches: unknown, source: Finding['source']): Finding[] =>
+    ((matches as PatternMatch[] | undefined) ?? []).map((match) => ({
+      rule: match.rule,
+      message: match.message,
+      severity: match.severity,
+      source,
+      line: match.line,
+      column: match.column,
+    }));
+  const findings = [
+    ...fromMatches(analysis.patterns.details.patternMatches, 'patterns'),
+    ...fromMatches(analysis.security.details.securityMatches, 'security'),
+    ...fromMatches(analysis.conflicts.details.conflictMatches, 'conflicts'),
+    ...fromMatches(analysis.examples.details.exampleMatches, 'examples'),
+  ];
+
+  // Content checks skipped for want of a lexicon make the scores less telling
+  const { language } = analysis;
+  if (!language.hasLexicon && language.note) {
+    findings.push({
+      rule: 'language-support',
+      message: language.note,
+      severity: 'info',
+      source: 'language',
+    });
+  }
+
+  // A composite score under the passing score fails the run like any other error
+  const { score } = analysis;
+  if (!score.passing) {
+    findings.push({
+      rule: 'score-threshold',
+      message: `Score ${score.score} (${score.grade}) is below the passing score of ${score.passingScore}`,
+      severity: 'error',
+      source: 'score',
+    });
+  }
+  return findings;
+}
+
+export function findingsFromTokens(report: TokenReport): Finding[] {
+  if (!report.overBudget) {
+    return [];
+  }
+  const [largest] = report.sections;
+  return [
+    {
+      rule: 'token-budget',
+      message:
+        `About ${report.total} ${report.family} tokens, over the budget of ${report.budget}` +
+        (largest ? `. Largest section: ${largest.name} (${largest.tokens})` : ''),
+      severity: 'error',
+      source: 'tokens',
+      line: largest?.line,
+    },
+  ];
+}
+
+/**
+ * Violations introduced by the new version, plus a failing finding with the reasons when
+ * the comparison regressed
+ */
+export function findingsFromComparison(comparison: TemplateComparison): Finding[] {
+  const findings: Finding[] = comparison.violations.added.map((violation) => ({
+    rule: violation.rule,
+    message: `New: ${violation.message}`,
+    severity: violation.severity,
+    source: 'compare',
+    line: violation.line,
+    column: violation.column,
+  }));
+
+  if (comparison.regressed) {
+    findings.push({
+      rule: 'regression',
+      message: `Regressed: ${comparison.reasons.join('; ')}`,
+      severity: 'error',
+      source: 'compare',
+    });
+  }
+  return findings;
+}
+
+/**
+ * One error per failed test case: its rendering or provider failure, or each failed assertion
+ */
+export function findingsFromTestReport(report: TestReport): Finding[] {
+  return report.cases.flatMap((testCase): Finding[] => {
+    if (testCase.error !== undefined) {
+      return [
+        {
+          rule: 'test-error',
+          message: `${testCase.name}: ${testCase.error}`,
+          severity: 'error',
+          source: 'test',
+        },
+      ];
+    }
+    return testCase.assertions
+      .filter((assertion) => !assertion.passed)
+      .map((assertion) => ({
+        rule: `test-${assertion.type}`,
+        message: `${testCase.name}: ${assertion.message}`,
+        severity: 'error',
+        source: 'test',
+      }));
+  });
+}
+
+/**
+ * Where a model response breaks the template's output contract; lines are in the response
+ */
+export function findingsFromResponseCheck(check: ResponseCheck): Finding[] {
+  return check.problems.map((problem) => ({
+    rule: problem.rule,
+    message: problem.message,
+    severity: problem.severity,
+    source: 'response',
+    line: problem.line,
+  }));
+}
+
+export function findingsFromBatch(result: BatchResult): FileFindings[] {
+  return result.files.map((review) => {
+    const findings: Finding[] = [];
+    if (review.validation) findings.push(...findingsFromValidation(review.validation));
+    if (review.analysis) findings.push(...findingsFromAnalysis(review.analysis));
+    if (review.error) {
+      findings.push({
+        rule: 'read-error',
+        message: review.error,
+        severity: 'error',
+        source: 'validator',
+      });
+    }
+    return { file: review.file, findings };
+  });
+}
+
+/**
+ * One finding per non-canonical copy, at its first divergence, and one per repeated
+ * paragraph after its first occurrence
+ */
+export function findingsFromDuplicates(report: DuplicateReport): FileFindings[] {
+  const byFile = new Map<string, Finding[]>();
+  const add = (file: string, finding: Finding): void => {
+    byFile.set(file, [...(byFile.get(file) ?? []), finding]);
+  };
+
+  for (const group of report.groups) {
+    for (const copy of group.copies) {
+      add(copy.file, {
+        rule: 'near-duplicate',
+        message: copy.identical
+          ? `Identical copy of ${group.canonical}`
+          : `${Math.round(copy.similarity * 100)}% similar to ${group.canonical}, diverging in ${copy.divergences.length} place(s); merge into ${group.canonical}`,
+        severity: 'warning',
+        source: 'duplicates',
+        line: copy.divergences[0]?.copy.line,
+      });
+    }
+  }
+
+  for (const paragraph of report.paragraphs) {
+    const [first, ...repeats] = paragraph.locations;
+    repeats.forEach((location) =>
+      add(location.file, {
+        rule: 'duplicate-paragraph',
+        message: `Paragraph repeats ${first.file}:${first.line} (${Math.round(paragraph.similarity * 100)}% similar)`,
+        severity: 'info',
+        source: 'duplicates',
+        line: location.line,
+      })
+    );
+  }
+
+  return Array.from(byFile, ([file, findings]) => ({ file, findings }));
+}
+
+/**
+ * Sorts findings by position so every format lists them in reading order
+ */
+export function sortFindings(findings: Finding[]): Finding[] {
+  return [...findings].sort(
+    (a, b) => (a.line ?? 0) - (b.line ?? 0) || (a.column ?? 0) - (b.column ?? 0)
+  );
+}
@@ -0,0 +1,34 @@
+import { FileFindings } from './findings.js';
+import { renderGithubAnnotations } from './github.js';
+import { renderJunit } from './junit.js';
+import { renderSarif } from './sarif.js';
+import { renderText } from './text.js';
+
+export const REPORT_FORMATS = ['json', 'sarif', 'junit', 'github', 'text'] as const;
+
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+const RENDERERS: Record<Exclude<ReportFormat, 'json'>, (files: FileFindings[]) => string> = {
+  sarif: renderSarif,
+  junit: renderJunit,
+  github: renderGithubAnnotations,
+  text: renderText,
+};
+
+export function isReportFormat(value: string): value is ReportFormat {
+  return (REPORT_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * Renders findings in one of the machine-readable or text formats
+ */
+export function renderReport(format: Exclude<ReportFormat, 'json'>, files: FileFindings[]): string {
+  return RENDERERS[format](files);
+}
+
+/**
+ * True when any finding should fail a CI gate
+ */
+export function hasErrors(files: FileFindings[]): boolean {
+  return files.some((file) => file.findings.some((finding) => finding.severity === 'error'));
+}
@@ -0,0 +1,35 @@
+import { FileFindings, FindingSeverity, sortFindings } from './findings.js';
+
+const COMMANDS: Record<FindingSeverity, string> = {
+  error: 'error',
+  warning: 'warning',
+  info: 'notice',
+};
+
+/**
+ * Renders findings as GitHub Actions workflow commands, one annotation per line
+ */
+export function renderGithubAnnotations(files: FileFindings[]): string {
+  const lines = files.flatMap((file) =>
+    sortFindings(file.findings).map((finding) => {
+      const properties = [
+        `file=${escapeProperty(file.file)}`,
+        finding.line ? `line=${finding.line}` : undefined,
+        finding.column ? `col=${finding.column}` : undefined,
+        `title=${escapeProperty(finding.rule)}`,
+      ].filter((property): property is string => property !== undefined);
+
+      return `::${COMMANDS[finding.severity]} ${properties.join(',')}::${escapeData(finding.message)}`;
+    })
+  );
+
+  return lines.length > 0 ? lines.join('\n') + '\n' : '';
+}
+
+function escapeData(value: string): string {
+  return value.replace(/%/g, '%25').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+}
+
+function escapeProperty(value: string): string {
+  return escapeData(value).replace(/:/g, '%3A').replace(/,/g, '%2C');
+}
@@ -0,0 +1,61 @@
+import { TOOL_NAME } from '../version.js';
+import { FileFindings, sortFindings } from './findings.js';
+
+/**
+ * Renders findings as JUnit XML: one test suite per file, one failing test case per finding
+ */
+export function renderJunit(files: FileFindings[]): string {
+  const failures = (file: FileFindings): number =>
+    file.findings.filter((finding) => finding.severity !== 'info').length;
+  const testCount = (file: FileFindings): number => Math.max(1, file.findings.length);
+
+  const totalTests = files.reduce((sum, file) => sum + testCount(file), 0);
+  const totalFailures = files.reduce((sum, file) => sum + failures(file), 0);
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${TOOL_NAME}" tests="${totalTests}" failures="${totalFailures}">`,
+  ];
+
+  for (const file of files) {
+    const name = escapeXml(file.file);
+    lines.push(
+      `  <testsuite name="${name}" tests="${testCount(file)}" failures="${failures(file)}">`
+    );
+
+    if (file.findings.length === 0) {
+      lines.push(`    <testcase name="template-review" classname="${name}"/>`);
+    }
+
+    for (const finding of sortFindings(file.findings)) {
+      const location = finding.line ? `:${finding.line}:${finding.column ?? 1}` : '';
+      const testName = escapeXml(`${finding.rule}${location}`);
+      if (finding.severity === 'info') {
+        lines.push(`    <testcase name="${testName}" classname="${name}">`);
+        lines.push(`      <system-out>${escapeXml(finding.message)}</system-out>`);
+        lines.push('    </testcase>');
+        continue;
+      }
+      lines.push(`    <testcase name="${testName}" classname="${name}">`);
+      lines.push(
+        `      <failure message="${escapeXml(finding.message)}" type="${finding.severity}">` +
+          `${escapeXml(`${file.file}${location} ${finding.message} [${finding.rule}]`)}</failure>`
+      );
+      lines.push('    </testcase>');
+    }
+
+    lines.push('  </testsuite>');
+  }
+
+  lines.push('</testsuites>');
+  return lines.join('\n') + '\n';
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
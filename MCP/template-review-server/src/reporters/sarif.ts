@@ -0,0 +1,58 @@
+import { TOOL_NAME, TOOL_VERSION } from '../version.js';
+import { FileFindings, FindingSeverity, sortFindings } from './findings.js';
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+const SARIF_LEVELS: Record<FindingSeverity, 'error' | 'warning' | 'note'> = {
+  error: 'error',
+  warning: 'warning',
+  info: 'note',
+};
+
+/**
+ * Renders findings as a SARIF 2.1.0 log for code-scanning UIs
+ */
+export function renderSarif(files: FileFindings[]): string {
+  const ruleIds = Array.from(
+    new Set(files.flatMap((file) => file.findings.map((finding) => finding.rule)))
+  ).sort();
+
+  const results = files.flatMap((file) =>
+    sortFindings(file.findings).map((finding) => ({
+      ruleId: finding.rule,
+      ruleIndex: ruleIds.indexOf(finding.rule),
+      level: SARIF_LEVELS[finding.severity],
+      message: { text: finding.message },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: file.file },
+            region: {
+              startLine: finding.line ?? 1,
+              startColumn: finding.column ?? 1,
+            },
+          },
+        },
+      ],
+    }))
+  );
+
+  const log = {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: TOOL_NAME,
+            version: TOOL_VERSION,
+            rules: ruleIds.map((id) => ({ id, shortDescription: { text: id } })),
+          },
+        },
+        results,
+      },
+    ],
+  };
+
+  return JSON.stringify(log, null, 2);
+}
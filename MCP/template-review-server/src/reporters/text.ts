@@ -0,0 +1,34 @@
+import { FileFindings, sortFindings } from './findings.js';
+
+/**
+ * Renders a compact, human-readable summary: one line per finding and a closing total
+ */
+export function renderText(files: FileFindings[]): string {
+  const lines: string[] = [];
+  let errors = 0;
+  let warnings = 0;
+  let infos = 0;
+
+  for (const file of files) {
+    if (file.findings.length === 0) continue;
+
+    lines.push(file.file);
+    for (const finding of sortFindings(file.findings)) {
+      const location = finding.line ? `${finding.line}:${finding.column ?? 1}` : '-';
+      lines.push(
+        `  ${location.padEnd(8)} ${finding.severity.padEnd(7)} ${finding.message}  [${finding.rule}]`
+      );
+      if (finding.severity === 'error') errors++;
+      else if (finding.severity === 'warning') warnings++;
+      else infos++;
+    }
+    lines.push('');
+  }
+
+  const clean = files.filter((file) => file.findings.length === 0).length;
+  lines.push(
+    `${files.length} file(s) checked, ${clean} clean: ` +
+      `${errors} error(s), ${warnings} warning(s), ${infos} info`
+  );
+  return lines.join('\n') + '\n';
+}
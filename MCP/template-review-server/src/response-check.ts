@@ -0,0 +1,52 @@
+import {
+  ResponseContract,
+  ResponseProblem,
+  checkResponseContract,
+  readResponseContract,
+} from './analyzers/response-format.js';
+import { ConfigOptions, loadRuleConfig, templateParseOptions } from './config/loader.js';
+import { parseConversation } from './utils/conversation.js';
+import { parseTemplate } from './utils/parser.js';
+
+export interface ResponseCheck {
+  /** The output contract read from the template's FORMAT section */
+  contract: ResponseContract;
+  /** Whether the response met the contract; absent when no response was given */
+  passed?: boolean;
+  problems: ResponseProblem[];
+}
+
+/**
+ * Reads the output contract from a template's FORMAT section and, given a model response,
+ * reports where the response breaks it. For a conversation the contract comes from the
+ * system message.
+ */
+export async function checkResponse(
+  template: string,
+  response: string | undefined,
+  options: ConfigOptions = {}
+): Promise<ResponseCheck> {
+  const config = await loadRuleConfig(options);
+  const conversation = parseConversation(template);
+  const system = conversation?.messages.find((message) => message.role === 'system');
+  const document = conversation ? (system?.content ?? '') : template;
+  const contract = readResponseContract(parseTemplate(document, templateParseOptions(config)));
+
+  if (response === undefined) {
+    return { contract, problems: [] };
+  }
+  if (!contract.hasFormatSection) {
+    const problem: ResponseProblem = {
+      rule: 'response-contract',
+      message: 'Template has no FORMAT section, so there is no contract to check against',
+      severity: 'warning',
+    };
+    return { contract, passed: true, problems: [problem] };
+  }
+  const problems = checkResponseContract(response, contract);
+  return {
+    contract,
+    passed: problems.every((problem) => problem.severity !== 'error'),
+    problems,
+  };
+}
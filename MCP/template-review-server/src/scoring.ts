@@ -0,0 +1,100 @@
+import { TemplateAnalysis } from './analyzers/structure.js';
+import { RuleConfig } from './config/loader.js';
+import { AnalysisResult, SCORE_DIMENSIONS, ScoreDeduction, ScoreDimension } from './types.js';
+
+export interface DimensionScore {
+  /** 0–100 */
+  score: number;
+  /** Share of the composite score, 0–1 */
+  weight: number;
+}
+
+export interface ExplainedDeduction extends ScoreDeduction {
+  dimension: ScoreDimension;
+  /** Points this finding takes off the composite score, before dimensions are clamped at 0 */
+  impact: number;
+}
+
+export interface CompositeScore {
+  /** Weighted mean of the dimension scores, 0–100 */
+  score: number;
+  grade: string;
+  passing: boolean;
+  passingScore: number;
+  /** Points still needed to pass; 0 when passing */
+  pointsToPass: number;
+  dimensions: Record<ScoreDimension, DimensionScore>;
+  /** Every deduction, largest impact first */
+  deductions: ExplainedDeduction[];
+}
+
+type ScoredAnalysis = Pick<TemplateAnalysis, 'deductions'> & {
+  content: AnalysisResult;
+  patterns: AnalysisResult;
+  security: AnalysisResult;
+  conflicts: AnalysisResult;
+};
+
+/**
+ * Combines every analyzer's deductions into one weighted, graded score
+ */
+export function computeCompositeScore(
+  analysis: ScoredAnalysis,
+  scoring: RuleConfig['scoring']
+): CompositeScore {
+  const sources: Record<ScoreDimension, ScoreDeduction[]> = {
+    ...analysis.deductions,
+    content: analysis.content.deductions,
+    // Security matches are pattern matches with their own report
+    patterns: [...analysis.patterns.deductions, ...analysis.security.deductions],
+    // Contradictory instructions make a template inconsistent
+    consistency: [...analysis.deductions.consistency, ...analysis.conflicts.deductions],
+  };
+  const totalWeight = SCORE_DIMENSIONS.reduce((sum, name) => sum + scoring.weights[name], 0);
+  const share = (name: ScoreDimension): number =>
+    totalWeight > 0 ? scoring.weights[name] / totalWeight : 0;
+
+  const dimensions = {} as Record<ScoreDimension, DimensionScore>;
+  const deductions: ExplainedDeduction[] = [];
+  let score = 0;
+
+  for (const name of SCORE_DIMENSIONS) {
+    const points = sources[name].reduce((sum, deduction) => sum + deduction.points, 0);
+    const dimensionScore = Math.max(0, Math.min(100, 100 - points));
+    dimensions[name] = { score: round(dimensionScore), weight: round(share(name)) };
+    score += dimensionScore * share(name);
+
+    sources[name].forEach((deduction) =>
+      deductions.push({
+        ...deduction,
+        dimension: name,
+        impact: round(deduction.points * share(name)),
+      })
+    );
+  }
+
+  const passing = score >= scoring.passingScore;
+  return {
+    score: round(score),
+    grade: gradeFor(score, scoring.grades),
+    passing,
+    passingScore: scoring.passingScore,
+    pointsToPass: passing ? 0 : round(scoring.passingScore - score),
+    dimensions,
+    deductions: deductions.sort((a, b) => b.impact - a.impact),
+  };
+}
+
+/**
+ * Picks the grade with the highest minimum the score reaches
+ */
+function gradeFor(score: number, grades: Record<string, number>): string {
+  const [grade] = Object.entries(grades)
+    .filter(([, minimum]) => score >= minimum)
+    .sort((a, b) => b[1] - a[1]);
+  return grade?.[0] ?? 'F';
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,185 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import {
+  CallToolRequestSchema,
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { ConfigError } from './config/loader.js';
+import { EditConflictError } from './enhancers/patcher.js';
+import {
+  LibraryError,
+  LibraryTemplate,
+  getLibraryPrompt,
+  listLibrary,
+  listLibraryPrompts,
+  readLibraryTemplate,
+} from './library.js';
+import { PluginError } from './plugins/loader.js';
+import { RenderError } from './renderers/render.js';
+import { TOOLS, ToolInputError, UnknownToolError, runTool } from './tools.js';
+import { ConversationError } from './utils/conversation.js';
+import { PathMatchError } from './utils/glob.js';
+import { TOOL_NAME, TOOL_VERSION } from './version.js';
+
+/**
+ * Creates an MCP server exposing the template review tools, and the configured template
+ * library as `template://` resources and prompts
+ */
+export function createServer(): Server {
+  const server = new Server(
+    { name: TOOL_NAME, version: TOOL_VERSION },
+    { capabilities: { tools: {}, resources: {}, prompts: {} } }
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: TOOLS.map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: toInputSchema(tool.inputSchema),
+    })),
+  }));
+
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    try {
+      const result = await runTool(request.params.name, request.params.arguments ?? {});
+      return {
+        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+      };
+    } catch (error) {
+      throw toMcpError(error);
+    }
+  });
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    try {
+      return {
+        resources: (await listLibrary()).map((template) => ({
+          uri: template.uri,
+          name: template.file,
+          description: describeTemplate(template),
+          mimeType: mimeTypeOf(template.file),
+          metadata: template.metadata,
+        })),
+      };
+    } catch (error) {
+      throw toMcpError(error);
+    }
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    try {
+      const { template, content } = await readLibraryTemplate(request.params.uri);
+      return {
+        contents: [
+          {
+            uri: template.uri,
+            mimeType: mimeTypeOf(template.file),
+            text: content,
+            metadata: template.metadata,
+          },
+        ],
+      };
+    } catch (error) {
+      throw toMcpError(error);
+    }
+  });
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    try {
+      return {
+        prompts: (await listLibraryPrompts()).map((template) => ({
+          name: template.name,
+          description: describeTemplate(template),
+          arguments: template.metadata.variables.map((variable) => ({
+            name: variable.name,
+            description: variable.description,
+            required: variable.required,
+          })),
+        })),
+      };
+    } catch (error) {
+      throw toMcpError(error);
+    }
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    try {
+      const { template, messages } = await getLibraryPrompt(
+        request.params.name,
+        request.params.arguments
+      );
+      return { description: describeTemplate(template), messages };
+    } catch (error) {
+      throw toMcpError(error);
+    }
+  });
+
+  return server;
+}
+
+/**
+ * Starts the server on stdio and keeps the process alive until the client disconnects
+ */
+export async function startServer(): Promise<void> {
+  const server = createServer();
+  const transport = new StdioServerTransport();
+  await server.connect(transport);
+}
+
+function toInputSchema(schema: z.ZodType): { type: 'object'; [key: string]: unknown } {
+  const jsonSchema = z.toJSONSchema(schema) as Record<string, unknown>;
+  delete jsonSchema.$schema;
+  return { ...jsonSchema, type: 'object' };
+}
+
+/**
+ * The frontmatter description, or a summary of the metadata
+ */
+function describeTemplate(template: LibraryTemplate): string {
+  if (template.description) {
+    return template.description;
+  }
+  const { dialect, variables, score, grade } = template.metadata;
+  const parts = [`${dialect} template`, `${variables.length} variable(s)`];
+  if (score !== undefined) {
+    parts.push(`score ${score} (${grade})`);
+  }
+  return parts.join(', ');
+}
+
+function mimeTypeOf(file: string): string {
+  if (file.endsWith('.xml')) {
+    return 'application/xml';
+  }
+  return /\.(?:md|markdown)$/.test(file) ? 'text/markdown' : 'text/plain';
+}
+
+function toMcpError(error: unknown): McpError {
+  if (error instanceof McpError) {
+    return error;
+  }
+  if (error instanceof UnknownToolError) {
+    return new McpError(ErrorCode.MethodNotFound, error.message);
+  }
+  if (
+    error instanceof ToolInputError ||
+    error instanceof ConfigError ||
+    error instanceof EditConflictError ||
+    error instanceof PluginError ||
+    error instanceof RenderError ||
+    error instanceof ConversationError ||
+    error instanceof LibraryError ||
+    error instanceof PathMatchError
+  ) {
+    return new McpError(ErrorCode.InvalidParams, error.message);
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new McpError(ErrorCode.InternalError, message);
+}
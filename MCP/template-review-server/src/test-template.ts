@@ -0,0 +1,160 @@
+import { parseJsonResponse } from './analyzers/response-format.js';
+import { ChatMessage, ModelProvider, createProvider } from './providers/provider.js';
+import { renderTemplate } from './renderers/render.js';
+import { ConversationError, parseConversation } from './utils/conversation.js';
+import { validateJsonSchema } from './utils/json-schema.js';
+import { ProviderConfig, TestAssertion, TestCase } from './validators/schema.js';
+
+export interface AssertionResult {
+  type: TestAssertion['type'];
+  passed: boolean;
+  /** Why the assertion failed */
+  message?: string;
+}
+
+export interface CaseResult {
+  name: string;
+  passed: boolean;
+  /** The model output; absent when rendering or the provider failed */
+  output?: string;
+  /** Rendering or provider failure, which fails the case */
+  error?: string;
+  assertions: AssertionResult[];
+}
+
+export interface TestReport {
+  provider: string;
+  passed: boolean;
+  summary: { total: number; passed: number; failed: number };
+  cases: CaseResult[];
+}
+
+/**
+ * Renders the template with each case's variables, runs it through the provider, and
+ * checks the output against the case's assertions. Cases run one at a time, in order.
+ */
+export async function testTemplate(
+  template: string,
+  cases: TestCase[],
+  config?: ProviderConfig
+): Promise<TestReport> {
+  const provider = createProvider(config);
+  const results: CaseResult[] = [];
+  for (const testCase of cases) {
+    results.push(await runCase(template, testCase, provider));
+  }
+
+  const passed = results.filter((result) => result.passed).length;
+  return {
+    provider: provider.name,
+    passed: passed === results.length,
+    summary: { total: results.length, passed, failed: results.length - passed },
+    cases: results,
+  };
+}
+
+async function runCase(
+  template: string,
+  testCase: TestCase,
+  provider: ModelProvider
+): Promise<CaseResult> {
+  let output: string;
+  try {
+    const messages = await buildMessages(template, testCase);
+    output = await provider.complete({ messages, caseName: testCase.name });
+  } catch (error) {
+    return {
+      name: testCase.name,
+      passed: false,
+      error: error instanceof Error ? error.message : String(error),
+      assertions: [],
+    };
+  }
+
+  const assertions = testCase.assert.map((assertion) => checkAssertion(output, assertion));
+  return {
+    name: testCase.name,
+    passed: assertions.every((assertion) => assertion.passed),
+    output,
+    assertions,
+  };
+}
+
+/**
+ * Messages for a case: a conversation template keeps its turns, each rendered on its own
+ * so values are never spliced into JSON syntax; otherwise the rendered template is the
+ * user message, or the system message when the case gives an `input`
+ */
+async function buildMessages(template: string, testCase: TestCase): Promise<ChatMessage[]> {
+  const messages: ChatMessage[] = [];
+  const conversation = parseConversation(template);
+  if (conversation) {
+    for (const { role, content } of conversation.messages) {
+      messages.push({ role, content: (await renderTemplate(content, testCase.variables)).content });
+    }
+  } else {
+    const { content } = await renderTemplate(template, testCase.variables);
+    // Placeholders outside JSON strings only parse once rendered
+    const rendered = parseConversation(content);
+    if (!rendered && /^\s*[[{][\s\S]*"role"\s*:/.test(content)) {
+      throw new ConversationError('the rendered template is not a valid JSON message array');
+    }
+    if (rendered) {
+      messages.push(
+        ...rendered.messages.map(({ role, content: text }) => ({ role, content: text }))
+      );
+    } else {
+      messages.push({
+        role: testCase.input === undefined ? 'user' : 'system',
+        content: content.trim(),
+      });
+    }
+  }
+  if (testCase.input !== undefined) {
+    messages.push({ role: 'user', content: testCase.input });
+  }
+  return messages;
+}
+
+function checkAssertion(output: string, assertion: TestAssertion): AssertionResult {
+  const result = (message?: string): AssertionResult =>
+    message === undefined
+      ? { type: assertion.type, passed: true }
+      : { type: assertion.type, passed: false, message };
+
+  if (assertion.type === 'contains') {
+    const found = assertion.ignoreCase
+      ? output.toLowerCase().includes(assertion.value.toLowerCase())
+      : output.includes(assertion.value);
+    return result(found ? undefined : `output does not contain "${assertion.value}"`);
+  }
+  if (assertion.type === 'regex') {
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(assertion.pattern, assertion.flags);
+    } catch (error) {
+      return result(error instanceof Error ? error.message : String(error));
+    }
+    return result(pattern.test(output) ? undefined : `output does not match /${pattern.source}/`);
+  }
+  if (assertion.type === 'json-schema') {
+    const value = parseJsonResponse(output.trim());
+    if (value === undefined) {
+      return result('output is not valid JSON');
+    }
+    const errors = validateJsonSchema(value, assertion.schema);
+    return result(
+      errors.length === 0
+        ? undefined
+        : errors.map((error) => `${error.path}: ${error.message}`).join('; ')
+    );
+  }
+
+  const unit = assertion.unit ?? 'characters';
+  const length = unit === 'words' ? output.split(/\s+/).filter(Boolean).length : output.length;
+  return result(
+    length <= assertion.value
+      ? undefined
+      : `output has ${length} ${unit}; at most ${assertion.value} allowed`
+  );
+}
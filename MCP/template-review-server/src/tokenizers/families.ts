@@ -0,0 +1,4 @@
+/** Model families with a bundled tokenizer table in tables.json */
+export const TOKENIZER_FAMILIES = ['claude', 'gpt-4', 'gpt-4o', 'llama'] as const;
+
+export type TokenizerFamily = (typeof TOKENIZER_FAMILIES)[number];
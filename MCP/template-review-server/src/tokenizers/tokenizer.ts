@@ -0,0 +1,91 @@
+/**
+ * Offline token estimates. Real vocabularies are too large to bundle, so each model
+ * family is described by a small table of how its tokenizer splits words, numbers,
+ * punctuation and whitespace (tables.json). The gpt-4 and gpt-4o tables are calibrated
+ * against the real encoders. The Llama 3 vocabulary extends cl100k_base with tokens for
+ * other languages, so llama copies gpt-4's table but splits non-ASCII text into fewer
+ * tokens. Claude's tokenizer is not public, so its table is a rougher guess.
+ */
+
+import { readFile } from 'fs/promises';
+import { z } from 'zod';
+import { formatZodError } from '../validators/schema.js';
+import { TOKENIZER_FAMILIES, TokenizerFamily } from './families.js';
+
+const tableSchema = z.strictObject({
+  description: z.string(),
+  /** Words up to this many characters are a single token */
+  wholeWordMax: z.number().int().positive(),
+  /** Average characters per token for longer words */
+  wordPieceChars: z.number().positive(),
+  /** Digits merged into one token */
+  digitGroup: z.number().int().positive(),
+  /** Punctuation characters merged into one token */
+  punctuationRun: z.number().int().positive(),
+  /** Whitespace characters merged into one token */
+  whitespaceRun: z.number().int().positive(),
+  /** Tokens per non-ASCII letter, e.g. CJK text */
+  nonAsciiPerChar: z.number().positive(),
+});
+
+const tablesSchema = z.strictObject(
+  Object.fromEntries(TOKENIZER_FAMILIES.map((family) => [family, tableSchema])) as Record<
+    TokenizerFamily,
+    typeof tableSchema
+  >
+);
+
+export type TokenizerTable = z.infer<typeof tableSchema>;
+
+// Contractions, words with their leading space, numbers, punctuation runs, whitespace runs
+const PIECE_PATTERN = /'(?:[sdmt]|ll|ve|re)\b| ?\p{L}+| ?\p{N}+| ?[^\s\p{L}\p{N}]+|\s+/gu;
+
+let tables: Record<TokenizerFamily, TokenizerTable> | undefined;
+
+export async function loadTokenizerTable(family: TokenizerFamily): Promise<TokenizerTable> {
+  if (!tables) {
+    const text = await readFile(new URL('./tables.json', import.meta.url), 'utf8');
+    const parsed = tablesSchema.safeParse(JSON.parse(text));
+    if (!parsed.success) {
+      throw new Error(`Invalid tokenizer tables: ${formatZodError(parsed.error)}`);
+    }
+    tables = parsed.data;
+  }
+  return tables[family];
+}
+
+/**
+ * Estimates how many tokens `text` costs with the given tokenizer table
+ */
+export function countTokens(text: string, table: TokenizerTable): number {
+  let total = 0;
+
+  for (const [piece] of text.matchAll(PIECE_PATTERN)) {
+    const trimmed = piece.trimStart();
+    if (trimmed === '') {
+      total += Math.ceil(piece.length / table.whitespaceRun);
+    } else if (/^'/.test(piece)) {
+      total += 1;
+    } else if (/^\p{L}/u.test(trimmed)) {
+      total += wordTokens(trimmed, table);
+    } else if (/^\p{N}/u.test(trimmed)) {
+      total += Math.ceil(trimmed.length / table.digitGroup);
+    } else {
+      total += Math.ceil(trimmed.length / table.punctuationRun);
+    }
+  }
+
+  return total;
+}
+
+function wordTokens(word: string, table: TokenizerTable): number {
+  const ascii = word.replace(/[^\x20-\x7e]/g, '');
+  const nonAscii = word.length - ascii.length;
+  const asciiTokens =
+    ascii.length === 0
+      ? 0
+      : ascii.length <= table.wholeWordMax
+        ? 1
+        : Math.ceil(ascii.length / table.wordPieceChars);
+  return asciiTokens + Math.ceil(nonAscii * table.nonAsciiPerChar);
+}
@@ -0,0 +1,239 @@
+import { z } from 'zod';
+import { analyzeAll } from './analysis.js';
+import { reviewTemplates } from './batch.js';
+import { compareTemplates } from './compare.js';
+import { findDuplicates } from './duplicates.js';
+import {
+  FileFindings,
+  findingsFromAnalysis,
+  findingsFromBatch,
+  findingsFromComparison,
+  findingsFromDuplicates,
+  findingsFromResponseCheck,
+  findingsFromTestReport,
+  findingsFromTokens,
+  findingsFromValidation,
+} from './reporters/findings.js';
+import { EnhancementResult, enhanceTemplate } from './enhancers/optimizer.js';
+import {
+  EnhancementPatch,
+  applyEnhancementEdits,
+  createEnhancementPatch,
+} from './enhancers/patcher.js';
+import { analyzeTokens } from './analyzers/tokens.js';
+import { loadRuleConfig, templateParseOptions } from './config/loader.js';
+import { renderTemplate } from './renderers/render.js';
+import { checkResponse } from './response-check.js';
+import { testTemplate } from './test-template.js';
+import { FixResult, ValidationResult, fixTemplate, validateTemplate } from './validators/rules.js';
+import {
+  analyzeInputSchema,
+  applyEditsInputSchema,
+  batchInputSchema,
+  checkResponseInputSchema,
+  compareInputSchema,
+  duplicatesInputSchema,
+  enhanceInputSchema,
+  formatZodError,
+  renderInputSchema,
+  testTemplateInputSchema,
+  tokensInputSchema,
+  validateInputSchema,
+} from './validators/schema.js';
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: z.ZodType;
+  handler: (input: unknown) => Promise<unknown>;
+  /** Converts a result into findings for the report formats; absent for tools without findings */
+  findings?: (input: unknown, result: unknown) => FileFindings[];
+  /** Whether a result fails the CLI run in every output format, e.g. failing test cases */
+  fails?: (result: unknown) => boolean;
+}
+
+/**
+ * Raised when a tool is called with arguments that do not match its schema
+ */
+export class ToolInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ToolInputError';
+  }
+}
+
+/**
+ * Raised when a tool name is not registered
+ */
+export class UnknownToolError extends Error {
+  constructor(name: string) {
+    super(`Unknown command: ${name}`);
+    this.name = 'UnknownToolError';
+  }
+}
+
+function defineTool<T extends z.ZodType, R>(
+  name: string,
+  description: string,
+  inputSchema: T,
+  handler: (input: z.infer<T>) => Promise<R>,
+  findings?: (input: z.infer<T>, result: R) => FileFindings[],
+  fails?: (result: R) => boolean
+): ToolDefinition {
+  return {
+    name,
+    description,
+    inputSchema,
+    handler: (input) => handler(input as z.infer<T>),
+    findings:
+      findings && ((input, result): FileFindings[] => findings(input as z.infer<T>, result as R)),
+    fails: fails && ((result): boolean => fails(result as R)),
+  };
+}
+
+// File name used in reports when a template arrives without a path
+const TEMPLATE_FILE = 'template';
+
+export const TOOLS: ToolDefinition[] = [
+  defineTool(
+    'analyze_template',
+    'Analyze the structure, content, formatting patterns, security, conflicting instructions and few-shot examples of a prompt template',
+    analyzeInputSchema,
+    (input) =>
+      analyzeAll(input.template, input.metadata, {
+        templatePath: input.templatePath,
+        configPath: input.configPath,
+      }),
+    (input, result) => [
+      { file: input.templatePath ?? TEMPLATE_FILE, findings: findingsFromAnalysis(result) },
+    ]
+  ),
+  defineTool(
+    'enhance_template',
+    'Rewrite a prompt template according to best practices and list the changes made',
+    enhanceInputSchema,
+    (input): Promise<EnhancementResult | EnhancementPatch> =>
+      input.mode === 'patch'
+        ? createEnhancementPatch(input.template)
+        : enhanceTemplate(input.template)
+  ),
+  defineTool(
+    'apply_template_edits',
+    'Apply a selected subset of the edits proposed by enhance_template in patch mode',
+    applyEditsInputSchema,
+    (input) => applyEnhancementEdits(input.template, { ids: input.ids, steps: input.steps })
+  ),
+  defineTool(
+    'validate_template',
+    'Check a prompt template against the configured rules and report violations',
+    validateInputSchema,
+    (input): Promise<ValidationResult | FixResult> => {
+      const options = { templatePath: input.templatePath, configPath: input.configPath };
+      return input.fix
+        ? fixTemplate(input.template, options)
+        : validateTemplate(input.template, options);
+    },
+    (input, result) => [
+      { file: input.templatePath ?? TEMPLATE_FILE, findings: findingsFromValidation(result) },
+    ]
+  ),
+  defineTool(
+    'render_template',
+    'Substitute {{name}} placeholders with the given values, checking any declared variables',
+    renderInputSchema,
+    (input) => renderTemplate(input.template, input.variables)
+  ),
+  defineTool(
+    'count_tokens',
+    'Estimate the tokens a template costs, per section and per variable, against a budget',
+    tokensInputSchema,
+    async (input) => {
+      const config = await loadRuleConfig({
+        templatePath: input.templatePath,
+        configPath: input.configPath,
+      });
+      return analyzeTokens(input.template, {
+        family: input.family ?? config.tokens.family,
+        budget: input.budget ?? config.tokens.budget ?? undefined,
+        variables: input.variables,
+        parseOptions: templateParseOptions(config),
+      });
+    },
+    (input, result) => [
+      { file: input.templatePath ?? TEMPLATE_FILE, findings: findingsFromTokens(result) },
+    ]
+  ),
+  defineTool(
+    'compare_template',
+    'Compare two versions of a template and report score changes, new and resolved violations, and contract changes',
+    compareInputSchema,
+    (input) =>
+      compareTemplates(input.oldTemplate, input.newTemplate, {
+        maxRegression: input.maxRegression,
+        templatePath: input.templatePath,
+        configPath: input.configPath,
+      }),
+    (input, result) => [
+      { file: input.templatePath ?? TEMPLATE_FILE, findings: findingsFromComparison(result) },
+    ],
+    (result) => result.regressed
+  ),
+  defineTool(
+    'check_response',
+    'Check a model response against the output contract in the FORMAT section of a template: format, JSON schema or example, sections and length',
+    checkResponseInputSchema,
+    (input) =>
+      checkResponse(input.template, input.response, {
+        templatePath: input.templatePath,
+        configPath: input.configPath,
+      }),
+    (input, result) => [
+      { file: input.responsePath ?? 'response', findings: findingsFromResponseCheck(result) },
+    ]
+  ),
+  defineTool(
+    'test_template',
+    'Run a template against fixture variable sets through a model provider and check the outputs against assertions: contains, regex, JSON schema and max length',
+    testTemplateInputSchema,
+    (input) => testTemplate(input.template, input.cases, input.provider),
+    (input, result) => [
+      { file: input.templatePath ?? TEMPLATE_FILE, findings: findingsFromTestReport(result) },
+    ],
+    (result) => !result.passed
+  ),
+  defineTool(
+    'review_templates',
+    'Analyze and validate every template matched by paths or globs, with an aggregate summary',
+    batchInputSchema,
+    (input) => reviewTemplates(input),
+    (_input, result) => findingsFromBatch(result)
+  ),
+  defineTool(
+    'find_duplicates',
+    'Find near-duplicate templates and paragraphs across a library, show where copies diverge and suggest a canonical copy',
+    duplicatesInputSchema,
+    (input) => findDuplicates(input),
+    (_input, result) => findingsFromDuplicates(result)
+  ),
+];
+
+export function findTool(name: string): ToolDefinition | undefined {
+  return TOOLS.find((tool) => tool.name === name);
+}
+
+/**
+ * Validates the arguments against the tool's schema and runs it
+ */
+export async function runTool(name: string, args: unknown): Promise<unknown> {
+  const tool = findTool(name);
+  if (!tool) {
+    throw new UnknownToolError(name);
+  }
+
+  const parsed = tool.inputSchema.safeParse(args);
+  if (!parsed.success) {
+    throw new ToolInputError(formatZodError(parsed.error));
+  }
+
+  return tool.handler(parsed.data);
+}
@@ -1,11 +1,34 @@
+export const SCORE_DIMENSIONS = [
+  'structure',
+  'content',
+  'patterns',
+  'clarity',
+  'conciseness',
+  'consistency',
+] as const;
+
+export type ScoreDimension = (typeof SCORE_DIMENSIONS)[number];
+
+/** Points taken off a 0–100 score by one finding; negative points are credit */
+export interface ScoreDeduction {
+  rule: string;
+  reason: string;
+  points: number;
+  line?: number;
+  column?: number;
+}
+
 export interface AnalysisResult {
   score: number;
   issues: string[];
   suggestions: string[];
-  details: Record<string, any>;
+  /** The findings behind `score`, which is 100 minus their points */
+  deductions: ScoreDeduction[];
+  details: Record<string, unknown>;
 }
 
 export interface PatternMatch {
+  rule: string;
   pattern: string;
   line: number;
   column: number;
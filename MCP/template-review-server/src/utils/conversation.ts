@@ -0,0 +1,136 @@
+import { z } from 'zod';
+import { formatZodError } from '../validators/schema.js';
+import { createPositionLookup } from './parser.js';
+
+export const CONVERSATION_ROLES = ['system', 'user', 'assistant'] as const;
+
+export type ConversationRole = (typeof CONVERSATION_ROLES)[number];
+
+export interface ConversationMessage {
+  role: ConversationRole;
+  content: string;
+  /** 1-based line where the message starts: its role marker or its `"role"` key */
+  line: number;
+  /** 1-based line of the first content line; equals `line` in JSON, where content is escaped */
+  contentLine: number;
+}
+
+/** A chat-style template: a JSON message array or text split by `<|role|>` markers */
+export interface Conversation {
+  format: 'json' | 'text';
+  messages: ConversationMessage[];
+}
+
+/**
+ * Raised when a template looks like a conversation but its messages cannot be read
+ */
+export class ConversationError extends Error {
+  constructor(message: string) {
+    super(`Invalid conversation template: ${message}`);
+    this.name = 'ConversationError';
+  }
+}
+
+const messagesSchema = z.array(
+  z.looseObject({
+    role: z.enum(CONVERSATION_ROLES),
+    content: z.string(),
+  })
+);
+
+const ROLE_MARKER = /^<\|(system|user|assistant)\|>[ \t]*\r?$/gm;
+
+/**
+ * Reads a conversation template, or returns undefined for an ordinary single-document
+ * template. Accepts a JSON array of `{role, content}` messages (bare or under a
+ * `messages` key) or text where each turn starts with a `<|system|>`, `<|user|>` or
+ * `<|assistant|>` line.
+ */
+export function parseConversation(source: string): Conversation | undefined {
+  return parseJsonConversation(source) ?? parseTextConversation(source);
+}
+
+/**
+ * Maps a position inside a message's content to the conversation source. JSON content is
+ * escaped onto one line, so positions there fall back to the message's own line.
+ */
+export function locateInSource(
+  conversation: Conversation,
+  message: ConversationMessage,
+  position: { line: number; column?: number }
+): { line: number; column?: number } {
+  if (conversation.format === 'json') {
+    return { line: message.line };
+  }
+  return { line: message.contentLine + position.line - 1, column: position.column };
+}
+
+function parseJsonConversation(source: string): Conversation | undefined {
+  if (!/^\s*[[{]/.test(source)) {
+    return undefined;
+  }
+  let data: unknown;
+  try {
+    data = JSON.parse(source);
+  } catch {
+    return undefined;
+  }
+
+  const raw =
+    data !== null && typeof data === 'object' && !Array.isArray(data)
+      ? (data as Record<string, unknown>).messages
+      : data;
+  const looksLikeMessages =
+    Array.isArray(raw) &&
+    raw.length > 0 &&
+    raw.every((item) => item !== null && typeof item === 'object' && 'role' in item);
+  if (!looksLikeMessages) {
+    return undefined;
+  }
+
+  const parsed = messagesSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new ConversationError(formatZodError(parsed.error));
+  }
+
+  // Messages are listed in source order, so the nth "role" key belongs to the nth message
+  const positionAt = createPositionLookup(source);
+  const roleLines = Array.from(source.matchAll(/"role"\s*:/g), (match) =>
+    positionAt(match.index ?? 0)
+  ).map((position) => position.line);
+  const lines = roleLines.length === parsed.data.length ? roleLines : undefined;
+
+  return {
+    format: 'json',
+    messages: parsed.data.map((message, index) => ({
+      role: message.role,
+      content: message.content,
+      line: lines?.[index] ?? 1,
+      contentLine: lines?.[index] ?? 1,
+    })),
+  };
+}
+
+function parseTextConversation(source: string): Conversation | undefined {
+  const markers = Array.from(source.matchAll(ROLE_MARKER));
+  if (markers.length === 0 || source.slice(0, markers[0].index).trim() !== '') {
+    return undefined;
+  }
+
+  const positionAt = createPositionLookup(source);
+  const messages = markers.map((marker, index) => {
+    const start = (marker.index ?? 0) + marker[0].length;
+    const end = markers[index + 1]?.index ?? source.length;
+    const body = source.slice(start, end).replace(/^[ \t]*\r?\n/, '');
+    const leadingBlank = body.length - body.replace(/^(?:[ \t]*\r?\n)+/, '').length;
+    const line = positionAt(marker.index ?? 0).line;
+    return {
+      role: marker[1] as ConversationRole,
+      content: body.slice(leadingBlank).trimEnd(),
+      line,
+      contentLine: line + 1 + (body.slice(0, leadingBlank).match(/\n/g)?.length ?? 0),
+    };
+  });
+
+  return { format: 'text', messages };
+}
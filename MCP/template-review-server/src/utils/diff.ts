@@ -0,0 +1,226 @@
+export type DiffOp =
+  | { type: 'equal'; line: string; oldIndex: number; newIndex: number }
+  | { type: 'delete'; line: string; oldIndex: number }
+  | { type: 'insert'; line: string; newIndex: number };
+
+/** A changed region: old lines [oldStart, oldEnd) were replaced by new lines [newStart, newEnd) */
+export interface LineHunk {
+  oldStart: number;
+  oldEnd: number;
+  newStart: number;
+  newEnd: number;
+}
+
+/**
+ * Line diff with common prefix and suffix trimmed and the rest diffed with Myers'
+ * algorithm, so time and memory grow with the number of changed lines rather than with
+ * the product of the two lengths
+ */
+export function diffLines(oldLines: string[], newLines: string[]): DiffOp[] {
+  let prefix = 0;
+  while (
+    prefix < oldLines.length &&
+    prefix < newLines.length &&
+    oldLines[prefix] === newLines[prefix]
+  ) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+
+  const ops: DiffOp[] = [];
+  for (let k = 0; k < prefix; k++) {
+    ops.push({ type: 'equal', line: oldLines[k], oldIndex: k, newIndex: k });
+  }
+
+  let i = 0;
+  let j = 0;
+  for (const type of shortestEditScript(oldMiddle, newMiddle)) {
+    if (type === 'equal') {
+      ops.push({ type, line: oldMiddle[i], oldIndex: prefix + i, newIndex: prefix + j });
+      i++;
+      j++;
+    } else if (type === 'delete') {
+      ops.push({ type, line: oldMiddle[i], oldIndex: prefix + i });
+      i++;
+    } else {
+      ops.push({ type, line: newMiddle[j], newIndex: prefix + j });
+      j++;
+    }
+  }
+
+  for (let k = 0; k < suffix; k++) {
+    const oldIndex = oldLines.length - suffix + k;
+    const newIndex = newLines.length - suffix + k;
+    ops.push({ type: 'equal', line: oldLines[oldIndex], oldIndex, newIndex });
+  }
+
+  return ops;
+}
+
+/**
+ * Myers' greedy shortest edit script. Each round d keeps only the furthest reaching
+ * path on diagonals -d..d, so the rounds kept for backtracking hold O(d^2) numbers.
+ */
+function shortestEditScript(a: string[], b: string[]): DiffOp['type'][] {
+  const max = a.length + b.length;
+  // Furthest x on diagonal k = x - y, at index k + max
+  const furthest = new Int32Array(2 * max + 2);
+  const rounds: Int32Array[] = [];
+  const previousDiagonal = (v: (k: number) => number, k: number, d: number): number =>
+    k === -d || (k !== d && v(k - 1) < v(k + 1)) ? k + 1 : k - 1;
+
+  search: for (let d = 0; d <= max; d++) {
+    rounds.push(furthest.slice(max - d, max + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      const from = previousDiagonal((diagonal) => furthest[diagonal + max], k, d);
+      let x = from === k + 1 ? furthest[from + max] : furthest[from + max] + 1;
+      let y = x - k;
+      while (x < a.length && y < b.length && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      furthest[k + max] = x;
+      if (x >= a.length && y >= b.length) {
+        break search;
+      }
+    }
+  }
+
+  // Walk back from the end, one round per change
+  const script: DiffOp['type'][] = [];
+  let x = a.length;
+  let y = b.length;
+  for (let d = rounds.length - 1; d >= 0; d--) {
+    const round = rounds[d];
+    const v = (diagonal: number): number => round[diagonal + d];
+    const k = x - y;
+    const from = previousDiagonal(v, k, d);
+    const startX = d === 0 ? 0 : v(from);
+    const startY = d === 0 ? 0 : startX - from;
+    while (x > startX && y > startY) {
+      script.push('equal');
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      script.push(x === startX ? 'insert' : 'delete');
+    }
+    x = startX;
+    y = startY;
+  }
+
+  return script.reverse();
+}
+
+/**
+ * Groups a line diff into hunks of consecutive changes
+ */
+export function diffHunks(oldLines: string[], newLines: string[]): LineHunk[] {
+  const hunks: LineHunk[] = [];
+  let oldIndex = 0;
+  let newIndex = 0;
+  let current: LineHunk | null = null;
+
+  for (const op of diffLines(oldLines, newLines)) {
+    if (op.type === 'equal') {
+      if (current) {
+        hunks.push(current);
+        current = null;
+      }
+      oldIndex++;
+      newIndex++;
+      continue;
+    }
+
+    current ??= { oldStart: oldIndex, oldEnd: oldIndex, newStart: newIndex, newEnd: newIndex };
+    if (op.type === 'delete') {
+      oldIndex++;
+      current.oldEnd = oldIndex;
+    } else {
+      newIndex++;
+      current.newEnd = newIndex;
+    }
+  }
+
+  if (current) {
+    hunks.push(current);
+  }
+  return hunks;
+}
+
+export interface UnifiedDiffOptions {
+  fromFile?: string;
+  toFile?: string;
+  context?: number;
+}
+
+/**
+ * Renders a unified diff between two texts. Returns an empty string when they are equal.
+ */
+export function createUnifiedDiff(
+  before: string,
+  after: string,
+  options: UnifiedDiffOptions = {}
+): string {
+  const { fromFile = 'original', toFile = 'enhanced', context = 3 } = options;
+  const ops = diffLines(before.split('\n'), after.split('\n'));
+  const changed = ops.flatMap((op, index) => (op.type === 'equal' ? [] : [index]));
+  if (changed.length === 0) {
+    return '';
+  }
+
+  // Merge changes whose context windows overlap into a single hunk
+  const ranges: Array<[number, number]> = [];
+  for (const index of changed) {
+    const start = Math.max(0, index - context);
+    const end = Math.min(ops.length, index + context + 1);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = end;
+    } else {
+      ranges.push([start, end]);
+    }
+  }
+
+  const output = [`--- ${fromFile}`, `+++ ${toFile}`];
+  for (const [start, end] of ranges) {
+    const slice = ops.slice(start, end);
+    const oldLines = slice.filter((op) => op.type !== 'insert');
+    const newLines = slice.filter((op) => op.type !== 'delete');
+    const oldStart = firstIndex(ops, start, 'old');
+    const newStart = firstIndex(ops, start, 'new');
+
+    output.push(
+      `@@ -${formatRange(oldStart, oldLines.length)} +${formatRange(newStart, newLines.length)} @@`
+    );
+    for (const op of slice) {
+      const prefix = op.type === 'equal' ? ' ' : op.type === 'delete' ? '-' : '+';
+      output.push(`${prefix}${op.line}`);
+    }
+  }
+
+  return output.join('\n') + '\n';
+}
+
+/** Number of old (or new) lines that come before ops[index] */
+function firstIndex(ops: DiffOp[], index: number, side: 'old' | 'new'): number {
+  const skip = side === 'old' ? 'insert' : 'delete';
+  return ops.slice(0, index).filter((op) => op.type !== skip).length;
+}
+
+function formatRange(start: number, length: number): string {
+  // Unified diff line numbers are 1-based; an empty range points at the line before it
+  const first = length === 0 ? start : start + 1;
+  return length === 1 ? `${first}` : `${first},${length}`;
+}
@@ -0,0 +1,152 @@
+import { readdir, stat } from 'fs/promises';
+import path from 'path';
+
+export const TEMPLATE_EXTENSIONS = ['.md', '.markdown', '.txt', '.xml', '.prompt'];
+
+// Directories that never contain templates worth reviewing
+const SKIPPED_DIRECTORIES = new Set(['node_modules', '.git', 'dist', 'coverage']);
+
+export interface ExpandOptions {
+  cwd: string;
+  /** Extensions picked up when a pattern names a directory */
+  extensions?: string[];
+  /** Return true to leave a file or directory out; receives an absolute path */
+  isIgnored?: (absolutePath: string, isDirectory: boolean) => boolean;
+}
+
+/**
+ * Raised when files, directories or globs that were asked for match no templates
+ */
+export class PathMatchError extends Error {
+  constructor(public readonly patterns: string[]) {
+    super(`No templates match ${patterns.map((pattern) => `'${pattern}'`).join(', ')}`);
+    this.name = 'PathMatchError';
+  }
+}
+
+export function hasGlobMagic(pattern: string): boolean {
+  return /[*?[{]/.test(pattern);
+}
+
+/**
+ * Converts a glob into a regular expression over forward-slash paths.
+ * Supports `**`, `*`, `?`, `[...]` classes and `{a,b}` alternatives.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  let braceDepth = 0;
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        const slashFollows = glob[i + 2] === '/';
+        source += slashFollows ? '(?:.*/)?' : '.*';
+        i += slashFollows ? 2 : 1;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const close = glob.indexOf(']', i + 1);
+      if (close === -1) {
+        source += '\\[';
+      } else {
+        source += `[${glob.slice(i + 1, close).replace(/^!/, '^')}]`;
+        i = close;
+      }
+    } else if (char === '{') {
+      braceDepth++;
+      source += '(?:';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth--;
+      source += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|\\/]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Expands files, directories and globs into a sorted list of absolute file paths.
+ * Throws a PathMatchError naming every pattern that matched no file.
+ */
+export async function expandPaths(patterns: string[], options: ExpandOptions): Promise<string[]> {
+  const extensions = options.extensions ?? TEMPLATE_EXTENSIONS;
+  const isIgnored = options.isIgnored ?? ((): boolean => false);
+  const files = new Set<string>();
+  const unmatched: string[] = [];
+
+  for (const pattern of patterns) {
+    const matches = await matchPattern(
+      pattern.split(path.sep).join('/'),
+      options.cwd,
+      extensions,
+      isIgnored
+    );
+    if (matches.length === 0) unmatched.push(pattern);
+    matches.forEach((file) => files.add(file));
+  }
+
+  if (unmatched.length > 0) {
+    throw new PathMatchError(unmatched);
+  }
+  return Array.from(files).sort();
+}
+
+/**
+ * Absolute paths of the files that one file, directory or glob pattern (in forward-slash
+ * form) matches
+ */
+async function matchPattern(
+  pattern: string,
+  cwd: string,
+  extensions: string[],
+  isIgnored: (absolutePath: string, isDirectory: boolean) => boolean
+): Promise<string[]> {
+  if (!hasGlobMagic(pattern)) {
+    const absolute = path.resolve(cwd, pattern);
+    const info = await stat(absolute).catch(() => undefined);
+    if (info?.isFile()) {
+      return [absolute];
+    }
+    if (info?.isDirectory()) {
+      const files = await walk(absolute, isIgnored);
+      return files.filter((file) => extensions.includes(path.extname(file).toLowerCase()));
+    }
+    return [];
+  }
+
+  // Only walk below the part of the pattern that has no wildcards
+  const segments = pattern.split('/');
+  const firstMagic = segments.findIndex(hasGlobMagic);
+  const base = path.resolve(cwd, segments.slice(0, firstMagic).join('/') || '.');
+  const matcher = globToRegExp(path.resolve(cwd, pattern).split(path.sep).join('/'));
+  const files = await walk(base, isIgnored);
+  return files.filter((file) => matcher.test(file.split(path.sep).join('/')));
+}
+
+async function walk(
+  dir: string,
+  isIgnored: (absolutePath: string, isDirectory: boolean) => boolean
+): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true }).catch(() => []);
+  const files: string[] = [];
+
+  for (const entry of entries) {
+    const absolute = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (SKIPPED_DIRECTORIES.has(entry.name) || isIgnored(absolute, true)) continue;
+      files.push(...(await walk(absolute, isIgnored)));
+    } else if (entry.isFile() && !isIgnored(absolute, false)) {
+      files.push(absolute);
+    }
+  }
+
+  return files;
+}
@@ -0,0 +1,83 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { globToRegExp } from './glob.js';
+
+export const DEFAULT_IGNORE_FILES = ['.templatereviewignore', '.clineignore'];
+
+interface IgnoreRule {
+  pattern: RegExp;
+  negated: boolean;
+  directoryOnly: boolean;
+}
+
+export type IgnoreMatcher = (absolutePath: string, isDirectory: boolean) => boolean;
+
+/**
+ * Builds a matcher from gitignore-style lines. Paths are matched relative to `baseDir`.
+ */
+export function createIgnoreMatcher(lines: string[], baseDir: string): IgnoreMatcher {
+  const rules: IgnoreRule[] = lines
+    .map((line) => line.trim())
+    .filter((line) => line !== '' && !line.startsWith('#'))
+    .map((line) => {
+      const negated = line.startsWith('!');
+      let pattern = negated ? line.slice(1) : line;
+      const directoryOnly = pattern.endsWith('/');
+      pattern = pattern.replace(/\/+$/, '');
+
+      // Patterns without an inner slash match at any depth
+      const anchored = pattern.includes('/');
+      const glob = anchored ? pattern.replace(/^\//, '') : `**/${pattern}`;
+      return { pattern: globToRegExp(glob), negated, directoryOnly };
+    });
+
+  return (absolutePath, isDirectory) => {
+    const relative = path.relative(baseDir, absolutePath).split(path.sep).join('/');
+    if (relative === '' || relative.startsWith('..')) {
+      return false;
+    }
+
+    let ignored = false;
+    for (const rule of rules) {
+      if (rule.directoryOnly && !isDirectory) continue;
+      if (rule.pattern.test(relative)) {
+        ignored = !rule.negated;
+      }
+    }
+    return ignored;
+  };
+}
+
+/**
+ * Loads an ignore file. Returns undefined when the file does not exist.
+ */
+export async function loadIgnoreFile(file: string): Promise<IgnoreMatcher | undefined> {
+  const text = await readFile(file, 'utf8').catch(() => undefined);
+  if (text === undefined) {
+    return undefined;
+  }
+  return createIgnoreMatcher(text.split(/\r?\n/), path.dirname(file));
+}
+
+/**
+ * Combines `ignoreFile`, or the default ignore files in `cwd`, into one matcher. A named
+ * ignore file must exist; the defaults are optional.
+ */
+export async function loadIgnoreMatcher(cwd: string, ignoreFile?: string): Promise<IgnoreMatcher> {
+  const candidates = ignoreFile
+    ? [path.resolve(cwd, ignoreFile)]
+    : DEFAULT_IGNORE_FILES.map((name) => path.join(cwd, name));
+
+  const matchers: IgnoreMatcher[] = [];
+  for (const candidate of candidates) {
+    const matcher = await loadIgnoreFile(candidate);
+    if (matcher) {
+      matchers.push(matcher);
+    } else if (ignoreFile) {
+      throw new Error(`Ignore file not found: ${ignoreFile}`);
+    }
+  }
+
+  return (absolutePath, isDirectory) =>
+    matchers.some((matcher) => matcher(absolutePath, isDirectory));
+}
@@ -0,0 +1,26 @@
+/**
+ * Reads all of stdin as a UTF-8 string
+ */
+export async function readStdin(): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let input = '';
+    process.stdin.setEncoding('utf8');
+    process.stdin.on('data', (chunk) => (input += chunk));
+    process.stdin.on('end', () => resolve(input));
+    process.stdin.on('error', reject);
+  });
+}
+
+/**
+ * Writes a value to stdout as pretty-printed JSON
+ */
+export function writeJson(value: unknown): void {
+  process.stdout.write(JSON.stringify(value, null, 2));
+}
+
+/**
+ * Writes an error message to stderr in the CLI's error format
+ */
+export function writeError(message: string): void {
+  process.stderr.write(`MCP Error: ${message}\n`);
+}
@@ -0,0 +1,166 @@
+/**
+ * The subset of JSON Schema that response contracts use: types, properties, required
+ * keys, array items, enums and simple bounds. Other keywords are ignored.
+ */
+
+export type JsonType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+export interface JsonSchema {
+  type?: JsonType | JsonType[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: unknown[];
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+}
+
+export interface SchemaError {
+  /** JSONPath of the offending value, e.g. `$.items[0].name` */
+  path: string;
+  message: string;
+}
+
+const JSON_TYPES = ['object', 'array', 'string', 'number', 'integer', 'boolean', 'null'];
+
+/**
+ * Tells a JSON Schema from an example value: a schema declares `$schema`, or a known
+ * `type` together with `properties` or `items`
+ */
+export function isJsonSchema(value: unknown): value is JsonSchema {
+  if (!isObject(value)) {
+    return false;
+  }
+  if ('$schema' in value) {
+    return true;
+  }
+  const types = Array.isArray(value.type) ? value.type : [value.type];
+  return (
+    types.length > 0 &&
+    types.every((type) => JSON_TYPES.includes(type as string)) &&
+    (isObject(value.properties) || isObject(value.items))
+  );
+}
+
+/**
+ * Infers a schema from an example: every key of the example is required and every value
+ * keeps its type. Arrays take the schema of their first item.
+ */
+export function schemaFromExample(example: unknown): JsonSchema {
+  if (Array.isArray(example)) {
+    return example.length > 0
+      ? { type: 'array', items: schemaFromExample(example[0]) }
+      : { type: 'array' };
+  }
+  if (isObject(example)) {
+    return {
+      type: 'object',
+      properties: Object.fromEntries(
+        Object.entries(example).map(([key, value]) => [key, schemaFromExample(value)])
+      ),
+      required: Object.keys(example),
+    };
+  }
+  // A null in an example says nothing about the value's type
+  if (example === null) {
+    return {};
+  }
+  return { type: typeOf(example) === 'integer' ? 'number' : typeOf(example) };
+}
+
+/**
+ * Checks a value against a schema, returning every mismatch rather than the first
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path = '$'): SchemaError[] {
+  const errors: SchemaError[] = [];
+  const fail = (message: string): void => {
+    errors.push({ path, message });
+  };
+
+  if (schema.type !== undefined) {
+    const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const actual = typeOf(value);
+    if (!allowed.some((type) => type === actual || (type === 'number' && actual === 'integer'))) {
+      fail(`expected ${allowed.join(' or ')}, got ${actual}`);
+      return errors;
+    }
+  }
+  if (schema.enum && !schema.enum.some((option) => deepEqual(option, value))) {
+    fail(`expected one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      fail(`expected at least ${schema.minLength} characters, got ${value.length}`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      fail(`expected at most ${schema.maxLength} characters, got ${value.length}`);
+    }
+  }
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      fail(`expected at least ${schema.minimum}, got ${value}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      fail(`expected at most ${schema.maximum}, got ${value}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      fail(`expected at least ${schema.minItems} items, got ${value.length}`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      fail(`expected at most ${schema.maxItems} items, got ${value.length}`);
+    }
+    if (schema.items) {
+      const items = schema.items;
+      value.forEach((item, index) =>
+        errors.push(...validateJsonSchema(item, items, `${path}[${index}]`))
+      );
+    }
+  }
+
+  if (isObject(value)) {
+    for (const key of schema.required ?? []) {
+      if (!(key in value)) {
+        fail(`missing required property "${key}"`);
+      }
+    }
+    for (const [key, child] of Object.entries(value)) {
+      const property = schema.properties?.[key];
+      if (property) {
+        errors.push(...validateJsonSchema(child, property, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        fail(`unexpected property "${key}"`);
+      }
+    }
+  }
+  return errors;
+}
+
+function typeOf(value: unknown): JsonType {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'number';
+  }
+  return typeof value as JsonType;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -0,0 +1,615 @@
+/**
+ * Shared template parser. Every analyzer, validator and enhancer reads templates
+ * through this module so they agree on what counts as a section, variable or bullet.
+ *
+ * Sections can be written in three dialects: `ROLE:` lines, Markdown headings
+ * (`## Role`) or XML tags (`<role>...</role>`).
+ */
+
+import { YamlError, YamlValue, parseYaml } from './yaml.js';
+
+export const DEFAULT_SECTION_NAMES = ['ROLE', 'CONTEXT', 'TASK', 'FORMAT', 'OUTPUT'];
+
+/** Alternative section names, keyed by the canonical name they stand for */
+export const DEFAULT_SECTION_ALIASES: Record<string, string[]> = {
+  ROLE: ['PERSONA'],
+  CONTEXT: ['BACKGROUND'],
+  TASK: ['INSTRUCTIONS'],
+  FORMAT: ['OUTPUT', 'OUTPUT FORMAT', 'RESPONSE FORMAT'],
+};
+
+export const TEMPLATE_DIALECTS = ['colon', 'markdown', 'xml'] as const;
+
+export type TemplateDialect = (typeof TEMPLATE_DIALECTS)[number];
+
+/** 1-based line and column, plus the 0-based character offset */
+export interface Position {
+  line: number;
+  column: number;
+  offset: number;
+}
+
+/** Half-open range: `end` points just past the last character */
+export interface Span {
+  start: Position;
+  end: Position;
+}
+
+export interface TemplateSection {
+  /** Upper-cased section name with `_` and `-` read as spaces, e.g. OUTPUT FORMAT */
+  name: string;
+  /** Section name with aliases resolved, e.g. FORMAT */
+  canonical: string;
+  /** Header text exactly as written, without the colon, `#` marks or angle brackets */
+  header: string;
+  /** Heading level for Markdown, nesting depth for XML, always 1 for `NAME:` lines */
+  level: number;
+  /** Section text after the header, trimmed */
+  body: string;
+  span: Span;
+  headerSpan: Span;
+  bodySpan: Span;
+}
+
+export type VariableSyntax = 'mustache' | 'bracket' | 'dollar';
+
+export interface TemplateVariable {
+  /** Variable as written, e.g. {{ user name }} */
+  raw: string;
+  /** Name with delimiters and surrounding whitespace removed */
+  name: string;
+  syntax: VariableSyntax;
+  span: Span;
+}
+
+export interface TemplateBullet {
+  marker: '-' | '*' | '•';
+  indent: string;
+  text: string;
+  span: Span;
+}
+
+export interface CodeFence {
+  language: string;
+  content: string;
+  span: Span;
+}
+
+export interface TemplateExample {
+  label: string;
+  body: string;
+  span: Span;
+}
+
+/** YAML block delimited by `---` lines at the very start of the template */
+export interface Frontmatter {
+  raw: string;
+  /** Top-level keys; empty when the YAML is not a map or cannot be read */
+  data: Record<string, YamlValue>;
+  /** Why the YAML could not be read, with its line in the template */
+  error?: string;
+  span: Span;
+}
+
+export interface ParsedTemplate {
+  source: string;
+  lines: string[];
+  /** Dialect the sections were read in */
+  dialect: TemplateDialect;
+  frontmatter?: Frontmatter;
+  sections: TemplateSection[];
+  variables: TemplateVariable[];
+  bullets: TemplateBullet[];
+  codeFences: CodeFence[];
+  examples: TemplateExample[];
+  /** Converts a character offset into a line/column position */
+  positionAt: (offset: number) => Position;
+}
+
+export interface ParseOptions {
+  /** Section names recognised as `NAME:` headers at the start of a line */
+  sectionNames?: string[];
+  /** Alternative names mapped to their canonical section */
+  sectionAliases?: Record<string, string[]>;
+  /** Section dialect; `auto` picks the one that finds the most known sections */
+  dialect?: TemplateDialect | 'auto';
+}
+
+const VARIABLE_PATTERN = /{{[^}]+}}|\$\{[\w-]+\}|\[[\w-]+\](?![(:])/g;
+// A list marker right before a bracket makes it a task-list box, e.g. `- [x]` or `1. [ ]`
+const TASK_ITEM = /^\s*(?:[-*+•]|\d+[.)])\s+$/;
+const FENCE_PATTERN = /^\s*(```|~~~)\s*([\w+-]*)/;
+const BULLET_PATTERN = /^(\s*)([-*•])\s+(.*)$/;
+const EXAMPLE_LABEL_PATTERN = /^(?:#+\s*)?(examples?(?:\s+\d+)?)\s*:(.*)$/i;
+const EXAMPLE_TAG_PATTERN = /<example>([\s\S]*?)<\/example>/gi;
+const FRONTMATTER_PATTERN = /^---[ \t]*\r?\n([\s\S]*?)\r?\n?---[ \t]*(?:\r?\n|$)/;
+const HEADING_PATTERN = /^(#{1,6})[ \t]+(.+?)[ \t]*#*[ \t]*$/;
+const XML_TAG_PATTERN =
+  /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<(\/?)([A-Za-z_][\w.-]*)[^<>]*?(\/?)>/g;
+
+export function parseTemplate(content: string, options: ParseOptions = {}): ParsedTemplate {
+  const lines = content.split('\n');
+  const lineStarts = computeLineStarts(lines);
+  const positionAt = createPositionLookup(content);
+  const spanOf = (start: number, end: number): Span => ({
+    start: positionAt(start),
+    end: positionAt(end),
+  });
+  const aliases = options.sectionAliases ?? DEFAULT_SECTION_ALIASES;
+  const knownNames = new Set(
+    [
+      ...(options.sectionNames ?? DEFAULT_SECTION_NAMES),
+      ...Object.keys(aliases),
+      ...Object.values(aliases).flat(),
+    ].map(normalizeSectionName)
+  );
+  const headerPattern = sectionHeaderPattern(Array.from(knownNames));
+
+  const frontmatter = extractFrontmatter(content, spanOf);
+  const bodyOffset = frontmatter ? frontmatter.span.end.offset : 0;
+  const firstLine = frontmatter ? frontmatter.span.end.line - 1 : 0;
+
+  const bullets: TemplateBullet[] = [];
+  const codeFences: CodeFence[] = [];
+  const examples: TemplateExample[] = [];
+  const fencedLines = new Set<number>();
+  const headings: { line: number; level: number; text: string }[] = [];
+
+  // First pass: code fences and Markdown headings. Nothing inside a fence is structure.
+  let openFence: { marker: string; language: string; line: number } | null = null;
+  for (let index = firstLine; index < lines.length; index++) {
+    const line = lines[index];
+    const fence = line.match(FENCE_PATTERN);
+    if (openFence) {
+      fencedLines.add(index);
+      if (fence && fence[1] === openFence.marker && fence[2] === '') {
+        codeFences.push({
+          language: openFence.language,
+          content: lines.slice(openFence.line + 1, index).join('\n'),
+          span: spanOf(lineStarts[openFence.line], lineStarts[index] + line.length),
+        });
+        openFence = null;
+      }
+      continue;
+    }
+    if (fence) {
+      fencedLines.add(index);
+      openFence = { marker: fence[1], language: fence[2], line: index };
+      continue;
+    }
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      headings.push({ line: index, level: heading[1].length, text: heading[2] });
+    }
+  }
+
+  // An unterminated fence runs to the end of the template
+  if (openFence) {
+    codeFences.push({
+      language: openFence.language,
+      content: lines.slice(openFence.line + 1).join('\n'),
+      span: spanOf(lineStarts[openFence.line], content.length),
+    });
+  }
+
+  const elements = extractElements(content, bodyOffset, (offset) =>
+    fencedLines.has(positionAt(offset).line - 1)
+  );
+  const colonHeaders = lines
+    .map((line, index) => ({ index, match: line.match(headerPattern) }))
+    .filter(({ index, match }) => match && index >= firstLine && !fencedLines.has(index));
+
+  const rest = content.slice(bodyOffset);
+  const firstContentOffset = bodyOffset + rest.length - rest.trimStart().length;
+  const countKnown = (names: string[]): number =>
+    new Set(names.map(normalizeSectionName).filter((name) => knownNames.has(name))).size;
+  const detected = detectDialect(
+    {
+      colon: countKnown(colonHeaders.map(({ match }) => match?.[1] ?? '')),
+      markdown: countKnown(headings.map((heading) => heading.text)),
+      xml: countKnown(elements.map((element) => element.name)),
+    },
+    {
+      startsWithElement: elements.some(
+        (element) => element.depth === 0 && element.openStart === firstContentOffset
+      ),
+      hasMarkdown: frontmatter !== undefined || headings.length > 0,
+    }
+  );
+  const dialect = options.dialect && options.dialect !== 'auto' ? options.dialect : detected;
+
+  const makeSection = (
+    header: string,
+    level: number,
+    headerStart: number,
+    headerEnd: number,
+    bodyEnd: number,
+    spanEnd?: number
+  ): TemplateSection => {
+    const raw = content.slice(headerEnd, Math.max(headerEnd, bodyEnd));
+    const trimmedEnd = headerEnd + raw.trimEnd().length;
+    const trimmedStart = headerEnd + (raw.length - raw.trimStart().length);
+    const name = normalizeSectionName(header);
+    return {
+      name,
+      canonical: resolveSectionName(name, aliases),
+      header,
+      level,
+      body: raw.trim(),
+      span: spanOf(headerStart, spanEnd ?? Math.max(trimmedEnd, headerEnd)),
+      headerSpan: spanOf(headerStart, headerEnd),
+      bodySpan: spanOf(Math.min(trimmedStart, trimmedEnd), trimmedEnd),
+    };
+  };
+
+  // Second pass: `NAME:` headers, example blocks and bullets
+  const colonSections: { header: string; start: number; end: number }[] = [];
+  const headingLines = new Set(
+    dialect === 'markdown' ? headings.map((heading) => heading.line) : []
+  );
+  let openExample: { label: string; line: number; inlineBody: string } | null = null;
+
+  const closeExample = (endLine: number): void => {
+    if (!openExample) return;
+    const bodyLines = [openExample.inlineBody, ...lines.slice(openExample.line + 1, endLine)];
+    const lastLine = trimTrailingBlankLines(lines, openExample.line, endLine);
+    examples.push({
+      label: openExample.label,
+      body: bodyLines.join('\n').trim(),
+      span: spanOf(lineStarts[openExample.line], lineStarts[lastLine] + lines[lastLine].length),
+    });
+    openExample = null;
+  };
+
+  for (let index = firstLine; index < lines.length; index++) {
+    const line = lines[index];
+    const lineStart = lineStarts[index];
+    if (fencedLines.has(index)) {
+      continue;
+    }
+
+    // Inside an example, mixed-case labels such as "Output:" belong to the example
+    const header = dialect === 'colon' ? line.match(headerPattern) : null;
+    if (header && (!openExample || header[1] === header[1].toUpperCase())) {
+      closeExample(index);
+      colonSections.push({
+        header: header[1],
+        start: lineStart,
+        end: lineStart + header[0].length,
+      });
+      continue;
+    }
+
+    // Example blocks run from their label to the first blank line after some content
+    const example = line.match(EXAMPLE_LABEL_PATTERN);
+    if (example) {
+      closeExample(index);
+      openExample = { label: example[1], line: index, inlineBody: example[2] };
+      continue;
+    }
+    if (headingLines.has(index)) {
+      closeExample(index);
+      continue;
+    }
+    if (openExample && line.trim() === '' && hasContent(lines, openExample, index)) {
+      closeExample(index);
+    }
+
+    const bullet = line.match(BULLET_PATTERN);
+    if (bullet) {
+      bullets.push({
+        marker: bullet[2] as TemplateBullet['marker'],
+        indent: bullet[1],
+        text: bullet[3],
+        span: spanOf(lineStart, lineStart + line.length),
+      });
+    }
+  }
+
+  closeExample(lines.length);
+
+  let sections: TemplateSection[];
+  if (dialect === 'markdown') {
+    // A heading's body runs to the next heading of the same or a higher level
+    sections = headings.map((heading, index) => {
+      const next = headings.slice(index + 1).find((other) => other.level <= heading.level);
+      const start = lineStarts[heading.line];
+      return makeSection(
+        heading.text,
+        heading.level,
+        start,
+        start + lines[heading.line].length,
+        next ? lineStarts[next.line] - 1 : content.length
+      );
+    });
+  } else if (dialect === 'xml') {
+    // Top-level elements and their children, plus known sections at any depth
+    sections = elements
+      .filter((element) => element.depth <= 1 || knownNames.has(normalizeSectionName(element.name)))
+      .map((element) =>
+        makeSection(
+          element.name,
+          element.depth + 1,
+          element.openStart,
+          element.openEnd,
+          element.closeStart,
+          element.closeEnd
+        )
+      );
+  } else {
+    // Section bodies run from the header to the next header
+    sections = colonSections.map((section, index) => {
+      const next = colonSections[index + 1];
+      return makeSection(
+        section.header,
+        1,
+        section.start,
+        section.end,
+        next ? next.start - 1 : content.length
+      );
+    });
+  }
+
+  for (const match of content.matchAll(EXAMPLE_TAG_PATTERN)) {
+    const start = match.index ?? 0;
+    examples.push({
+      label: 'example',
+      body: match[1].trim(),
+      span: spanOf(start, start + match[0].length),
+    });
+  }
+  examples.sort((a, b) => a.span.start.offset - b.span.start.offset);
+
+  return {
+    source: content,
+    lines,
+    dialect,
+    frontmatter,
+    sections,
+    variables: extractVariables(content, spanOf).filter(
+      (variable) => variable.span.start.offset >= bodyOffset
+    ),
+    bullets,
+    codeFences,
+    examples,
+    positionAt,
+  };
+}
+
+/**
+ * Upper-cases a section name and reads `_` and `-` as spaces, so `output_format`,
+ * `Output Format` and `OUTPUT-FORMAT` all compare equal
+ */
+export function normalizeSectionName(name: string): string {
+  return name
+    .replace(/[*`]/g, '')
+    .replace(/:$/, '')
+    .replace(/[_-]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toUpperCase();
+}
+
+/**
+ * Maps a section name (or one of its aliases) to its canonical name
+ */
+export function resolveSectionName(name: string, aliases: Record<string, string[]>): string {
+  const normalized = normalizeSectionName(name);
+  for (const [canonical, names] of Object.entries(aliases)) {
+    if (names.some((alias) => normalizeSectionName(alias) === normalized)) {
+      return normalizeSectionName(canonical);
+    }
+  }
+  return normalized;
+}
+
+interface XmlElement {
+  name: string;
+  depth: number;
+  openStart: number;
+  openEnd: number;
+  closeStart: number;
+  closeEnd: number;
+}
+
+/**
+ * Pairs opening and closing tags. Unclosed tags, self-closing tags, comments and
+ * anything inside a code fence are ignored.
+ */
+function extractElements(
+  content: string,
+  fromOffset: number,
+  isFenced: (offset: number) => boolean
+): XmlElement[] {
+  const elements: XmlElement[] = [];
+  const stack: { name: string; openStart: number; openEnd: number }[] = [];
+
+  for (const match of content.matchAll(XML_TAG_PATTERN)) {
+    const start = match.index ?? 0;
+    const [tag, closing, name, selfClosing] = match;
+    if (!name || selfClosing || start < fromOffset || isFenced(start)) {
+      continue;
+    }
+    if (!closing) {
+      stack.push({ name, openStart: start, openEnd: start + tag.length });
+      continue;
+    }
+
+    const depth = stack.map((open) => open.name).lastIndexOf(name);
+    if (depth === -1) {
+      continue;
+    }
+    const [open] = stack.splice(depth);
+    elements.push({
+      name,
+      depth,
+      openStart: open.openStart,
+      openEnd: open.openEnd,
+      closeStart: start,
+      closeEnd: start + tag.length,
+    });
+  }
+
+  return elements.sort((a, b) => a.openStart - b.openStart);
+}
+
+/**
+ * Picks the dialect that finds the most known sections. With none found, a template
+ * wrapped in a tag reads as XML and one with headings or frontmatter as Markdown.
+ */
+function detectDialect(
+  counts: Record<TemplateDialect, number>,
+  hints: { startsWithElement: boolean; hasMarkdown: boolean }
+): TemplateDialect {
+  // Ties go to headings and tags: a stray "Format:" line is more likely prose
+  const best = (['markdown', 'xml', 'colon'] as const).reduce<TemplateDialect>(
+    (winner, dialect) => (counts[dialect] > counts[winner] ? dialect : winner),
+    'markdown'
+  );
+  if (counts[best] > 0) {
+    return best;
+  }
+  if (hints.startsWithElement) {
+    return 'xml';
+  }
+  return hints.hasMarkdown ? 'markdown' : 'colon';
+}
+
+function extractFrontmatter(
+  content: string,
+  spanOf: (start: number, end: number) => Span
+): Frontmatter | undefined {
+  const match = content.match(FRONTMATTER_PATTERN);
+  if (!match) {
+    return undefined;
+  }
+  let data: YamlValue = null;
+  let error: string | undefined;
+  try {
+    data = parseYaml(match[1]);
+  } catch (err) {
+    if (!(err instanceof YamlError)) {
+      throw err;
+    }
+    // The YAML starts on the line after the opening `---`
+    error = err.line === undefined ? err.message : `line ${err.line + 1}: ${err.message}`;
+  }
+  return {
+    raw: match[1],
+    data: data && typeof data === 'object' && !Array.isArray(data) ? data : {},
+    error,
+    span: spanOf(0, match[0].length),
+  };
+}
+
+/**
+ * Finds template variables in any of the supported syntaxes
+ */
+function extractVariables(
+  content: string,
+  spanOf: (start: number, end: number) => Span
+): TemplateVariable[] {
+  return Array.from(content.matchAll(VARIABLE_PATTERN), (match) => {
+    const raw = match[0];
+    const start = match.index ?? 0;
+    const syntax: VariableSyntax = raw.startsWith('{{')
+      ? 'mustache'
+      : raw.startsWith('$')
+        ? 'dollar'
+        : 'bracket';
+    return {
+      raw,
+      name: raw.replace(/^(\{\{|\$\{|\[)|(\}\}|\}|\])$/g, '').trim(),
+      syntax,
+      span: spanOf(start, start + raw.length),
+    };
+  });
+}
+
+/**
+ * Returns a function converting character offsets in `content` into line/column positions
+ */
+export function createPositionLookup(content: string): (offset: number) => Position {
+  const lineStarts = computeLineStarts(content.split('\n'));
+  return (offset) => toPosition(lineStarts, offset);
+}
+
+/**
+ * True inside a fenced code block or an inline `code` span, which never crosses a line
+ */
+export function isInCode(template: ParsedTemplate, position: Position): boolean {
+  const fenced = template.codeFences.some(
+    (fence) => position.offset >= fence.span.start.offset && position.offset < fence.span.end.offset
+  );
+  const before = template.lines[position.line - 1].slice(0, position.column - 1);
+  return fenced || (before.match(/`/g)?.length ?? 0) % 2 === 1;
+}
+
+/**
+ * Whether a variable is a placeholder rather than text that only looks like one: `${...}`
+ * and `[...]` in code, task-list boxes such as `- [x]`, and index access such as `arr[0]`
+ * are not placeholders
+ */
+export function isPlaceholder(template: ParsedTemplate, variable: TemplateVariable): boolean {
+  if (variable.syntax === 'mustache') {
+    return true;
+  }
+  if (isInCode(template, variable.span.start)) {
+    return false;
+  }
+  if (variable.syntax === 'bracket') {
+    const { line, column } = variable.span.start;
+    const before = template.lines[line - 1].slice(0, column - 1);
+    return !/^\d+$/.test(variable.name) && !/[\w\])]$/.test(before) && !TASK_ITEM.test(before);
+  }
+  return true;
+}
+
+export function sectionHeaderPattern(names: string[]): RegExp {
+  const escaped = names.map((name) => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(`^(${escaped.join('|')}):`, 'i');
+}
+
+function computeLineStarts(lines: string[]): number[] {
+  const starts: number[] = [];
+  let offset = 0;
+  for (const line of lines) {
+    starts.push(offset);
+    offset += line.length + 1;
+  }
+  return starts;
+}
+
+function toPosition(lineStarts: number[], offset: number): Position {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (lineStarts[mid] <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return { line: low + 1, column: offset - lineStarts[low] + 1, offset };
+}
+
+function hasContent(
+  lines: string[],
+  example: { line: number; inlineBody: string },
+  endExclusive: number
+): boolean {
+  return (
+    example.inlineBody.trim() !== '' ||
+    lines.slice(example.line + 1, endExclusive).some((line) => line.trim() !== '')
+  );
+}
+
+function trimTrailingBlankLines(lines: string[], first: number, endExclusive: number): number {
+  let last = endExclusive - 1;
+  while (last > first && lines[last].trim() === '') {
+    last--;
+  }
+  return last;
+}
@@ -0,0 +1,40 @@
+/**
+ * YAML reader for template frontmatter, on top of the `yaml` package so block scalars,
+ * flow maps, comments and quoting follow the YAML 1.2 spec
+ */
+
+import { parseDocument } from 'yaml';
+
+export type YamlValue =
+  | string
+  | number
+  | boolean
+  | null
+  | YamlValue[]
+  | { [key: string]: YamlValue };
+
+/**
+ * Raised when frontmatter is not valid YAML. `line` and `column` are 1-based and
+ * relative to the YAML source.
+ */
+export class YamlError extends Error {
+  constructor(
+    message: string,
+    public readonly line?: number,
+    public readonly column?: number
+  ) {
+    super(message);
+    this.name = 'YamlError';
+  }
+}
+
+export function parseYaml(source: string): YamlValue {
+  const document = parseDocument(source);
+  const [error] = document.errors;
+  if (error) {
+    // The first line of the message is the reason and its position; the rest is an excerpt
+    const reason = error.message.split('\n')[0].replace(/ at line \d+, column \d+:$/, '');
+    throw new YamlError(reason, error.linePos?.[0].line, error.linePos?.[0].col);
+  }
+  return (document.toJS() ?? null) as YamlValue;
+}
@@ -0,0 +1,106 @@
+import { z } from 'zod';
+import { ParsedTemplate } from '../utils/parser.js';
+import { formatZodError } from './schema.js';
+
+export const VARIABLE_TYPES = ['string', 'number', 'boolean', 'array', 'object'] as const;
+
+export type VariableType = (typeof VARIABLE_TYPES)[number];
+
+/** A variable declared in the template's frontmatter */
+export interface VariableDeclaration {
+  name: string;
+  type: VariableType;
+  /** Defaults to true unless a default value is given */
+  required: boolean;
+  default?: unknown;
+  description?: string;
+}
+
+export interface VariableContract {
+  /** True when the frontmatter has a `variables` key, even an empty one */
+  declared: boolean;
+  variables: VariableDeclaration[];
+  /** Declarations that could not be read, or why the frontmatter itself could not be */
+  errors: string[];
+}
+
+const declarationSchema = z.strictObject({
+  type: z.enum(VARIABLE_TYPES).optional(),
+  required: z.boolean().optional(),
+  default: z.unknown().optional(),
+  description: z.string().optional(),
+});
+
+/**
+ * Reads the variable contract from frontmatter. Accepts a map of names to declarations
+ * (or to a bare type such as `string`), or a list of names.
+ *
+ * ```yaml
+ * variables:
+ *   code:
+ *     type: string
+ *     description: Source to review
+ *   language:
+ *     default: TypeScript
+ * ```
+ */
+export function readVariableContract(template: ParsedTemplate): VariableContract {
+  const data = template.frontmatter?.data;
+  if (template.frontmatter?.error) {
+    return {
+      declared: false,
+      variables: [],
+      errors: [`frontmatter is not valid YAML: ${template.frontmatter.error}`],
+    };
+  }
+  if (!data || !('variables' in data)) {
+    return { declared: false, variables: [], errors: [] };
+  }
+
+  const raw = data.variables;
+  const variables: VariableDeclaration[] = [];
+  const errors: string[] = [];
+  let entries: [string, unknown][] = [];
+
+  if (Array.isArray(raw)) {
+    entries = raw.map((name) => [String(name), {}]);
+  } else if (raw && typeof raw === 'object') {
+    entries = Object.entries(raw);
+  } else if (raw !== null) {
+    errors.push('variables: expected a map of variable declarations or a list of names');
+  }
+
+  for (const [name, value] of entries) {
+    const spec = typeof value === 'string' ? { type: value } : (value ?? {});
+    const parsed = declarationSchema.safeParse(spec);
+    if (!parsed.success) {
+      errors.push(`variables.${name}: ${formatZodError(parsed.error)}`);
+      continue;
+    }
+
+    const declaration: VariableDeclaration = {
+      name,
+      type: parsed.data.type ?? 'string',
+      required: parsed.data.required ?? parsed.data.default === undefined,
+      default: parsed.data.default,
+      description: parsed.data.description,
+    };
+    if (declaration.default !== undefined && !matchesType(declaration.default, declaration.type)) {
+      errors.push(`variables.${name}: default value is not a ${declaration.type}`);
+      continue;
+    }
+    variables.push(declaration);
+  }
+
+  return { declared: true, variables, errors };
+}
+
+export function matchesType(value: unknown, type: VariableType): boolean {
+  if (type === 'array') {
+    return Array.isArray(value);
+  }
+  if (type === 'object') {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+  }
+  return typeof value === type;
+}
@@ -0,0 +1,184 @@
+import { RuleConfig, templateParseOptions } from '../config/loader.js';
+import {
+  ParsedTemplate,
+  TemplateSection,
+  isInCode,
+  isPlaceholder,
+  parseTemplate,
+  resolveSectionName,
+} from '../utils/parser.js';
+
+/** Rules whose violations have a mechanical fix that does not change what the template says */
+export const FIXABLE_RULES = [
+  'section-order',
+  'section-case',
+  'variable-format',
+  'bullet-consistency',
+  'section-spacing',
+  'trailing-whitespace',
+] as const;
+
+export type FixableRule = (typeof FIXABLE_RULES)[number];
+
+interface Replacement {
+  start: number;
+  end: number;
+  text: string;
+}
+
+type Fixer = (template: ParsedTemplate, config: RuleConfig) => Replacement[];
+
+const FIXERS: Record<FixableRule, Fixer> = {
+  'section-order': fixSectionOrder,
+  'section-case': fixSectionCase,
+  'variable-format': fixVariableFormat,
+  'bullet-consistency': fixBulletConsistency,
+  'section-spacing': fixSectionSpacing,
+  'trailing-whitespace': fixTrailingWhitespace,
+};
+
+export function isFixableRule(rule: string): rule is FixableRule {
+  return (FIXABLE_RULES as readonly string[]).includes(rule);
+}
+
+/**
+ * Applies the fixes for the given rules, one rule at a time in FIXABLE_RULES order.
+ * Each fix only touches text its rule would report, so applying it twice changes nothing.
+ */
+export function applyFixes(content: string, rules: Iterable<string>, config: RuleConfig): string {
+  const selected = new Set(rules);
+  return FIXABLE_RULES.filter((rule) => selected.has(rule)).reduce(
+    (text, rule) =>
+      applyReplacements(
+        text,
+        FIXERS[rule](parseTemplate(text, templateParseOptions(config)), config)
+      ),
+    content
+  );
+}
+
+/**
+ * Moves the sections named in `sectionOrder` into that order. Each one takes the place of
+ * the section it swaps with, so preamble, other sections and the blank lines between them
+ * stay where they are. Nested sections are left alone.
+ */
+function fixSectionOrder(template: ParsedTemplate, config: RuleConfig): Replacement[] {
+  const order = config.structure.sectionOrder.map((name) =>
+    resolveSectionName(name, config.structure.sectionAliases)
+  );
+  const ordered = template.sections.filter((section) => order.includes(section.canonical));
+  const overlapping = ordered.some((section, index) =>
+    ordered.slice(index + 1).some((other) => other.span.start.offset < section.span.end.offset)
+  );
+  if (overlapping) {
+    return [];
+  }
+
+  const rank = (section: TemplateSection): number => order.indexOf(section.canonical);
+  const sorted = [...ordered].sort((a, b) => rank(a) - rank(b));
+  return ordered
+    .map((slot, index) => ({
+      start: slot.span.start.offset,
+      end: slot.span.end.offset,
+      text: template.source.slice(sorted[index].span.start.offset, sorted[index].span.end.offset),
+    }))
+    .filter((_replacement, index) => sorted[index] !== ordered[index]);
+}
+
+function fixSectionCase(template: ParsedTemplate): Replacement[] {
+  if (template.dialect !== 'colon') {
+    return [];
+  }
+  return template.sections
+    .filter((section) => section.header !== section.header.toUpperCase())
+    .map((section) => ({
+      start: section.headerSpan.start.offset,
+      end: section.headerSpan.start.offset + section.header.length,
+      text: section.header.toUpperCase(),
+    }));
+}
+
+/**
+ * Rewrites `${name}` and `[name]` placeholders as `{{name}}`, only when the template
+ * mixes formats as the rule reports. Code, task-list boxes such as `- [x]` and index
+ * access such as `arr[0]` are not placeholders and stay as written.
+ */
+function fixVariableFormat(template: ParsedTemplate): Replacement[] {
+  const placeholders = template.variables.filter((variable) => isPlaceholder(template, variable));
+  if (new Set(placeholders.map((variable) => variable.syntax)).size < 2) {
+    return [];
+  }
+  return placeholders
+    .filter((variable) => variable.syntax !== 'mustache')
+    .map((variable) => ({
+      start: variable.span.start.offset,
+      end: variable.span.end.offset,
+      text: `{{${variable.name}}}`,
+    }));
+}
+
+function fixBulletConsistency(template: ParsedTemplate, config: RuleConfig): Replacement[] {
+  const { preferredBulletStyle } = config.formatting;
+  return template.bullets
+    .filter((bullet) => bullet.marker !== preferredBulletStyle)
+    .map((bullet) => {
+      const start = bullet.span.start.offset + bullet.indent.length;
+      return { start, end: start + bullet.marker.length, text: preferredBulletStyle };
+    });
+}
+
+/**
+ * Collapses runs of blank lines to the configured spacing; code blocks keep theirs
+ */
+function fixSectionSpacing(template: ParsedTemplate, config: RuleConfig): Replacement[] {
+  const { sectionSpacing } = config.formatting;
+  const replacements: Replacement[] = [];
+
+  for (const match of template.source.matchAll(new RegExp(`\\n{${sectionSpacing + 2},}`, 'g'))) {
+    const start = match.index ?? 0;
+    if (!isInCode(template, template.positionAt(start))) {
+      replacements.push({
+        start,
+        end: start + match[0].length,
+        text: '\n'.repeat(sectionSpacing + 1),
+      });
+    }
+  }
+
+  return replacements;
+}
+
+function fixTrailingWhitespace(template: ParsedTemplate): Replacement[] {
+  return findTrailingWhitespace(template).map((run) => ({ ...run, text: '' }));
+}
+
+/**
+ * Offsets of trailing spaces and tabs, leaving out code blocks, whose whitespace may
+ * matter, and Markdown hard breaks: two or more spaces ending a line of a paragraph
+ */
+export function findTrailingWhitespace(template: ParsedTemplate): { start: number; end: number }[] {
+  const { source, lines } = template;
+  return Array.from(source.matchAll(/[ \t]+$/gm))
+    .map((match) => ({ start: match.index ?? 0, end: (match.index ?? 0) + match[0].length }))
+    .filter(({ start, end }) => {
+      const position = template.positionAt(start);
+      const hardBreak =
+        /^ {2,}$/.test(source.slice(start, end)) &&
+        position.column > 1 &&
+        (lines[position.line] ?? '').trim() !== '';
+      return !hardBreak && !isInCode(template, position);
+    });
+}
+
+/**
+ * Applies non-overlapping replacements, given as offsets into the original content
+ */
+function applyReplacements(content: string, replacements: Replacement[]): string {
+  return [...replacements]
+    .sort((a, b) => b.start - a.start)
+    .reduce(
+      (text, replacement) =>
+        text.slice(0, replacement.start) + replacement.text + text.slice(replacement.end),
+      content
+    );
+}
@@ -1,236 +1,513 @@
 import { z } from 'zod';
-
-interface ValidationResult {
+import {
+  ConfigOptions,
+  RuleConfig,
+  RuleSetting,
+  loadRuleConfig,
+  templateParseOptions,
+} from '../config/loader.js';
+import { analyzeConversation } from '../analyzers/conversation.js';
+import { readResponseContract } from '../analyzers/response-format.js';
+import { analyzeTokens } from '../analyzers/tokens.js';
+import {
+  ResolvedLanguage,
+  resolveLanguage,
+  splitSentences,
+  termPattern,
+} from '../languages/language.js';
+import { LoadedPlugin, PluginError, loadPlugins } from '../plugins/loader.js';
+import { FindingLocation } from '../plugins/types.js';
+import { locateInSource, parseConversation } from '../utils/conversation.js';
+import {
+  ParsedTemplate,
+  isInCode,
+  isPlaceholder,
+  parseTemplate,
+  resolveSectionName,
+} from '../utils/parser.js';
+import { readVariableContract } from './contract.js';
+import { applyFixes, findTrailingWhitespace, isFixableRule } from './fixes.js';
+import { applySuppressions, parseDirectives } from './suppressions.js';
+
+export interface ValidationResult {
   isValid: boolean;
   violations: ValidationViolation[];
+  /** Violations silenced by inline `template-review-disable` comments */
+  suppressed: ValidationViolation[];
 }
 
-interface ValidationViolation {
+export interface ValidationViolation {
   rule: string;
   message: string;
   severity: 'error' | 'warning';
+  /** 1-based location of the offending text, when the rule can point at one */
+  line?: number;
+  column?: number;
+  /** True when validating with `fix` would resolve the violation */
+  fixable: boolean;
+}
+
+export interface FixResult extends ValidationResult {
+  /** Template with every safe fix applied */
+  content: string;
+  /** Violations of the original template that the fixes resolved */
+  fixed: ValidationViolation[];
+}
+
+export interface ValidateOptions extends ConfigOptions {
+  /** Pre-resolved config; skips loading defaults and project files */
+  config?: RuleConfig;
 }
 
+type Report = (rule: string, message: string, position?: FindingLocation) => void;
+
+// Fixes that expose further fixable text, such as reordering, settle within a few passes
+const MAX_FIX_PASSES = 3;
+
 // Schema for template structure
 const templateSchema = z.object({
   content: z.string().min(1, 'Template content cannot be empty'),
 });
 
-export async function validateTemplate(content: string): Promise<ValidationResult> {
+export async function validateTemplate(
+  content: string,
+  options: ValidateOptions = {}
+): Promise<ValidationResult> {
+  const config = options.config ?? (await loadRuleConfig(options));
+  const plugins = await loadPlugins(config);
   const violations: ValidationViolation[] = [];
+  const report = createReporter(config, violations, pluginSeverities(plugins));
 
   // Basic schema validation
-  try {
-    templateSchema.parse({ content });
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      violations.push({
-        rule: 'schema',
-        message: error.issues[0].message,
-        severity: 'error',
-      });
-    }
+  const parsed = templateSchema.safeParse({ content });
+  if (!parsed.success) {
+    report('schema', parsed.error.issues[0].message);
   }
 
-  // Structure validation
-  validateStructure(content, violations);
+  // A conversation is checked turn by turn; its system message gets the template rules
+  const conversation = parseConversation(content);
+  const system = conversation?.messages.find((message) => message.role === 'system');
+  const template = parseTemplate(system ? system.content : content, templateParseOptions(config));
+  const reportTemplate: Report = (rule, message, position) =>
+    report(
+      rule,
+      message,
+      conversation && system && position ? locateInSource(conversation, system, position) : position
+    );
 
-  // Content validation
-  validateContent(content, violations);
+  const hasTemplate = !conversation || system !== undefined;
 
-  // Variable validation
-  validateVariables(content, violations);
+  if (hasTemplate) {
+    // Structure validation
+    validateStructure(template, config, reportTemplate);
 
-  // Format validation
-  validateFormat(content, violations);
+    // Content validation, with the lexicon of the template's language
+    const language = await resolveLanguage(template.source, config, plugins);
+    validateContent(template, config, language, reportTemplate);
 
-  return {
-    isValid: violations.length === 0,
-    violations,
-  };
-}
+    // Variable validation
+    validateVariables(template, config, reportTemplate);
 
-function validateStructure(content: string, violations: ValidationViolation[]): void {
-  // Check for required sections
-  const sections = {
-    role: /^ROLE:/im.test(content),
-    context: /^CONTEXT:/im.test(content),
-    task: /^TASK:/im.test(content),
-    format: /^(FORMAT|OUTPUT):/im.test(content),
-  };
+    // Format validation
+    validateFormat(template, config, reportTemplate);
 
-  if (!sections.role) {
-    violations.push({
-      rule: 'required-sections',
-      message: 'Missing ROLE section',
-      severity: 'error',
-    });
+    // Output contract validation
+    validateResponseContract(template, reportTemplate);
   }
 
-  if (!sections.context) {
-    violations.push({
-      rule: 'required-sections',
-      message: 'Missing CONTEXT section',
-      severity: 'error',
-    });
+  // Token budget
+  await validateTokenBudget(content, config, report);
+
+  // Rules registered by plugins
+  if (hasTemplate) {
+    await runPluginRules(plugins, template, config, reportTemplate);
   }
 
-  if (!sections.task) {
-    violations.push({
-      rule: 'required-sections',
-      message: 'Missing TASK section',
-      severity: 'error',
-    });
+  // Turn-taking, variables across turns and few-shot answers
+  if (conversation) {
+    analyzeConversation(conversation, templateParseOptions(config)).issues.forEach((issue) =>
+      report(issue.rule, issue.message, { line: issue.line })
+    );
   }
 
-  if (!sections.format) {
-    violations.push({
-      rule: 'required-sections',
-      message: 'Missing FORMAT/OUTPUT section',
-      severity: 'warning',
-    });
+  // Inline directives, read from the whole source so their lines match the violations';
+  // unused ones are reported and cannot themselves be suppressed
+  const directives = parseDirectives(conversation ? parseTemplate(content) : template);
+  const { kept, suppressed, unused } = applySuppressions(violations, directives);
+  const unusedReports: ValidationViolation[] = [];
+  const reportUnused = createReporter(config, unusedReports);
+  unused.forEach(({ directive, rule }) =>
+    reportUnused(
+      'unused-directive',
+      rule
+        ? `Unused template-review-${directive.kind} directive: no ${rule} violations to suppress`
+        : `Unused template-review-${directive.kind} directive: no violations to suppress`,
+      directive.position
+    )
+  );
+  // Fixes rewrite the whole source, which for a conversation would reach into every turn
+  const remaining = [...kept, ...unusedReports].map((violation) => ({
+    ...violation,
+    fixable: !conversation && isFixableRule(violation.rule),
+  }));
+
+  return {
+    isValid: remaining.length === 0,
+    violations: remaining,
+    suppressed,
+  };
+}
+
+/**
+ * Applies the safe fixes for every fixable violation, then validates the result. Rules
+ * that are off or suppressed are not fixed.
+ */
+export async function fixTemplate(
+  content: string,
+  options: ValidateOptions = {}
+): Promise<FixResult> {
+  const config = options.config ?? (await loadRuleConfig(options));
+  const validate = (text: string): Promise<ValidationResult> =>
+    validateTemplate(text, { ...options, config });
+
+  const original = await validate(content);
+  let result = original;
+  let fixed = content;
+  for (let pass = 0; pass < MAX_FIX_PASSES; pass++) {
+    const rules = result.violations
+      .filter((violation) => violation.fixable)
+      .map((violation) => violation.rule);
+    const next = applyFixes(fixed, rules, config);
+    if (next === fixed) {
+      break;
+    }
+    fixed = next;
+    result = await validate(fixed);
   }
 
-  // Check section order
-  const sectionOrder = ['ROLE', 'CONTEXT', 'TASK', 'FORMAT', 'OUTPUT'];
-  const foundSections = content
-    .split('\n')
-    .map((line) => {
-      const match = line.match(/^(ROLE|CONTEXT|TASK|FORMAT|OUTPUT):/i);
-      return match ? match[1].toUpperCase() : null;
+  const remainingRules = new Set(result.violations.map((violation) => violation.rule));
+  return {
+    ...result,
+    content: fixed,
+    fixed: original.violations.filter(
+      (violation) => violation.fixable && !remainingRules.has(violation.rule)
+    ),
+  };
+}
+
+/**
+ * Creates a reporter that applies the configured severity and drops disabled rules
+ */
+function createReporter(
+  config: RuleConfig,
+  violations: ValidationViolation[],
+  defaults: Record<string, RuleSetting> = {}
+): Report {
+  return (rule, message, position) => {
+    const severity = config.rules[rule] ?? defaults[rule] ?? 'warning';
+    if (severity === 'off') {
+      return;
+    }
+    violations.push(
+      position
+        ? { rule, message, severity, line: position.line, column: position.column, fixable: false }
+        : { rule, message, severity, fixable: false }
+    );
+  };
+}
+
+function pluginSeverities(plugins: LoadedPlugin[]): Record<string, RuleSetting> {
+  const severities: Record<string, RuleSetting> = {};
+  plugins.forEach(({ plugin }) =>
+    plugin.rules?.forEach((rule) => {
+      severities[rule.id] = rule.defaultSeverity ?? 'warning';
     })
-    .filter((section): section is string => section !== null);
+  );
+  return severities;
+}
+
+async function runPluginRules(
+  plugins: LoadedPlugin[],
+  template: ParsedTemplate,
+  config: RuleConfig,
+  report: Report
+): Promise<void> {
+  for (const { plugin, options, source } of plugins) {
+    for (const rule of plugin.rules ?? []) {
+      try {
+        await rule.check({
+          template,
+          config,
+          options,
+          report: (message, location) => report(rule.id, message, location),
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new PluginError(`rule ${rule.id} failed: ${message}`, source);
+      }
+    }
+  }
+}
+
+function canonicalSection(name: string, config: RuleConfig): string {
+  return resolveSectionName(name, config.structure.sectionAliases);
+}
 
+function sectionLabel(name: string, config: RuleConfig): string {
+  const aliases = config.structure.sectionAliases[name] ?? [];
+  return [name, ...aliases].map((label) => label.toUpperCase()).join('/');
+}
+
+function validateStructure(template: ParsedTemplate, config: RuleConfig, report: Report): void {
+  const foundSections = template.sections.map((section) => ({
+    name: section.canonical,
+    position: section.span.start,
+  }));
+  const present = new Set(foundSections.map((section) => section.name));
+
+  // Check for required and recommended sections
+  config.structure.requiredSections.forEach((section) => {
+    if (!present.has(canonicalSection(section, config))) {
+      report('required-sections', `Missing ${sectionLabel(section, config)} section`);
+    }
+  });
+
+  config.structure.recommendedSections.forEach((section) => {
+    if (!present.has(canonicalSection(section, config))) {
+      report('recommended-sections', `Missing ${sectionLabel(section, config)} section`);
+    }
+  });
+
+  // Check section order
+  const sectionOrder = config.structure.sectionOrder.map((section) =>
+    canonicalSection(section, config)
+  );
   let lastIndex = -1;
-  foundSections.forEach((section) => {
-    const currentIndex = sectionOrder.indexOf(section);
+  foundSections.forEach(({ name, position }) => {
+    const currentIndex = sectionOrder.indexOf(name);
+    if (currentIndex === -1) {
+      return;
+    }
     if (currentIndex < lastIndex) {
-      violations.push({
-        rule: 'section-order',
-        message: `Section ${section} is out of order. Expected order: ${sectionOrder.join(', ')}`,
-        severity: 'warning',
-      });
+      report(
+        'section-order',
+        `Section ${name} is out of order. Expected order: ${sectionOrder.join(', ')}`,
+        position
+      );
     }
     lastIndex = currentIndex;
   });
 }
 
-function validateContent(content: string, violations: ValidationViolation[]): void {
+function validateContent(
+  template: ParsedTemplate,
+  config: RuleConfig,
+  language: ResolvedLanguage,
+  report: Report
+): void {
+  const { maxSentenceLength } = config.content;
+  const content = template.source;
+
+  // Checks that need a lexicon cannot run for this language
+  if (!language.lexicon && language.report.note) {
+    report('language-support', language.report.note);
+  }
+
   // Check for overly long sentences
-  const sentences = content.split(/[.!?]+/);
-  sentences.forEach((sentence) => {
-    if (sentence.trim().length > 150) {
-      violations.push({
-        rule: 'sentence-length',
-        message: 'Sentence exceeds recommended length of 150 characters',
-        severity: 'warning',
-      });
+  for (const sentence of splitSentences(content, language.report.code)) {
+    if (sentence.text.trim().length > maxSentenceLength) {
+      const leading = sentence.text.length - sentence.text.trimStart().length;
+      report(
+        'sentence-length',
+        `Sentence exceeds recommended length of ${maxSentenceLength} characters`,
+        template.positionAt(sentence.index + leading)
+      );
     }
-  });
+  }
 
   // Check for nested parentheses
-  const nestedParens = /\([^()]*\([^()]*\)[^()]*\)/;
-  if (nestedParens.test(content)) {
-    violations.push({
-      rule: 'nested-instructions',
-      message: 'Avoid nested parentheses in instructions',
-      severity: 'warning',
-    });
+  const nestedParens = content.match(/\([^()]*\([^()]*\)[^()]*\)/);
+  if (nestedParens) {
+    report(
+      'nested-instructions',
+      'Avoid nested parentheses in instructions',
+      template.positionAt(nestedParens.index ?? 0)
+    );
   }
 
-  // Check for ambiguous language
-  const ambiguousTerms = ['maybe', 'probably', 'possibly', 'might', 'could', 'should', 'would'];
+  // Check for ambiguous language; configured terms replace the lexicon's
+  const ambiguousTerms = config.content.ambiguousTerms ?? language.lexicon?.ambiguousTerms ?? [];
   ambiguousTerms.forEach((term) => {
-    if (new RegExp(`\\b${term}\\b`, 'i').test(content)) {
-      violations.push({
-        rule: 'ambiguous-language',
-        message: `Avoid ambiguous terms like "${term}"`,
-        severity: 'warning',
-      });
+    const match = content.match(termPattern(term, 'iu'));
+    if (match) {
+      report(
+        'ambiguous-language',
+        `Avoid ambiguous terms like "${term}"`,
+        template.positionAt(match.index ?? 0)
+      );
     }
   });
 }
 
-function validateVariables(content: string, violations: ValidationViolation[]): void {
-  // Check for consistent variable format
-  const variableFormats = [/{{[^}]+}}/g, /[[]\w-]+]/g, /\${[\w-]+}/g];
-
-  const foundFormats = variableFormats
-    .map((format) => (content.match(format) || []).length)
-    .filter((count) => count > 0);
-
-  if (foundFormats.length > 1) {
-    violations.push({
-      rule: 'variable-format',
-      message: 'Inconsistent variable formats detected. Use {{variableName}} format consistently',
-      severity: 'error',
-    });
+function validateVariables(template: ParsedTemplate, config: RuleConfig, report: Report): void {
+  // Check for consistent variable format; code, task-list boxes and index access are skipped
+  const placeholders = template.variables.filter((variable) => isPlaceholder(template, variable));
+  const foundFormats = new Set(placeholders.map((variable) => variable.syntax));
+
+  if (foundFormats.size > 1) {
+    report(
+      'variable-format',
+      'Inconsistent variable formats detected. Use {{variableName}} format consistently',
+      placeholders.find((variable) => variable.syntax !== 'mustache')?.span.start
+    );
   }
 
   // Check for undefined variables
-  const variables = content.match(/{{[^}]+}}/g) || [];
-  const uniqueVars = new Set(variables.map((v) => v.toLowerCase()));
+  const variables = template.variables.filter((variable) => variable.syntax === 'mustache');
+  const uniqueVars = new Set(variables.map((v) => v.name.toLowerCase()));
 
   variables.forEach((variable) => {
-    if (!/^{{[\w-]+}}$/.test(variable)) {
-      violations.push({
-        rule: 'variable-naming',
-        message: `Invalid variable format: ${variable}. Use alphanumeric characters and hyphens only`,
-        severity: 'error',
-      });
+    if (!/^{{[\w-]+}}$/.test(variable.raw)) {
+      report(
+        'variable-naming',
+        `Invalid variable format: ${variable.raw}. Use alphanumeric characters and hyphens only`,
+        variable.span.start
+      );
     }
   });
 
-  // Check for unused variables
-  if (uniqueVars.size === 0 && content.length > 500) {
-    violations.push({
-      rule: 'variable-usage',
-      message: 'Consider using variables for dynamic content in longer templates',
-      severity: 'warning',
+  // Check placeholders against the variables declared in frontmatter
+  const contract = readVariableContract(template);
+  const contractPosition = template.frontmatter?.span.start;
+  contract.errors.forEach((error) => report('variable-contract', error, contractPosition));
+  if (contract.declared) {
+    const declared = new Set(contract.variables.map((declaration) => declaration.name));
+
+    const undeclared = new Set<string>();
+    variables.forEach((variable) => {
+      if (!declared.has(variable.name) && !undeclared.has(variable.name)) {
+        undeclared.add(variable.name);
+        report(
+          'variable-undeclared',
+          `Variable ${variable.raw} is not declared in frontmatter`,
+          variable.span.start
+        );
+      }
     });
+
+    const used = new Set(variables.map((variable) => variable.name));
+    contract.variables
+      .filter((declaration) => !used.has(declaration.name))
+      .forEach((declaration) =>
+        report(
+          'variable-unused',
+          `Declared variable "${declaration.name}" is never used`,
+          contractPosition
+        )
+      );
+  }
+
+  // Check for unused variables
+  const { suggestForLongContent, minContentLengthForSuggestion } = config.variables;
+  if (
+    suggestForLongContent &&
+    uniqueVars.size === 0 &&
+    template.source.length > minContentLengthForSuggestion
+  ) {
+    report('variable-usage', 'Consider using variables for dynamic content in longer templates');
   }
 }
 
-function validateFormat(content: string, violations: ValidationViolation[]): void {
+function validateFormat(template: ParsedTemplate, config: RuleConfig, report: Report): void {
+  const { sectionSpacing, allowTrailingWhitespace, requireConsistentCase } = config.formatting;
+
   // Check for consistent bullet point style
-  const bulletStyles = new Set((content.match(/^[-*•]\s/gm) || []).map((bullet) => bullet[0]));
+  const bulletStyles = new Set(template.bullets.map((bullet) => bullet.marker));
 
   if (bulletStyles.size > 1) {
-    violations.push({
-      rule: 'bullet-consistency',
-      message: 'Use consistent bullet point style throughout the template',
-      severity: 'warning',
-    });
+    const [first] = template.bullets;
+    report(
+      'bullet-consistency',
+      'Use consistent bullet point style throughout the template',
+      template.bullets.find((bullet) => bullet.marker !== first.marker)?.span.start
+    );
   }
 
-  // Check for consistent capitalization in sections
-  const sectionHeaders = content.match(/^(ROLE|CONTEXT|TASK|FORMAT|OUTPUT):/gim) || [];
-  const inconsistentCase = sectionHeaders.some((header) => header !== header.toUpperCase());
-
-  if (inconsistentCase) {
-    violations.push({
-      rule: 'section-case',
-      message: 'Use consistent uppercase for section headers (ROLE:, CONTEXT:, etc.)',
-      severity: 'warning',
-    });
+  // Check for consistent capitalization in sections; headings and tags keep their own case
+  if (requireConsistentCase && template.dialect === 'colon') {
+    const inconsistentCase = template.sections.find(
+      (section) => section.header !== section.header.toUpperCase()
+    );
+
+    if (inconsistentCase) {
+      report(
+        'section-case',
+        'Use consistent uppercase for section headers (ROLE:, CONTEXT:, etc.)',
+        inconsistentCase.span.start
+      );
+    }
   }
 
-  // Check for proper spacing between sections
-  const sectionSpacing = content.match(/\n{3,}/g);
-  if (sectionSpacing) {
-    violations.push({
-      rule: 'section-spacing',
-      message: 'Use exactly one blank line between sections',
-      severity: 'warning',
-    });
+  // Check for proper spacing between sections; code blocks keep their own blank lines
+  const extraSpacing = Array.from(
+    template.source.matchAll(new RegExp(`\\n{${sectionSpacing + 2},}`, 'g'))
+  ).find((match) => !isInCode(template, template.positionAt(match.index ?? 0)));
+  if (extraSpacing) {
+    const lines = sectionSpacing === 1 ? 'one blank line' : `${sectionSpacing} blank lines`;
+    report(
+      'section-spacing',
+      `Use exactly ${lines} between sections`,
+      template.positionAt((extraSpacing.index ?? 0) + 1)
+    );
   }
 
   // Check for trailing whitespace
-  if (/[ \t]+$/m.test(content)) {
-    violations.push({
-      rule: 'trailing-whitespace',
-      message: 'Remove trailing whitespace',
-      severity: 'warning',
-    });
+  const [trailingWhitespace] = findTrailingWhitespace(template);
+  if (!allowTrailingWhitespace && trailingWhitespace) {
+    report(
+      'trailing-whitespace',
+      'Remove trailing whitespace',
+      template.positionAt(trailingWhitespace.start)
+    );
+  }
+}
+
+function validateResponseContract(template: ParsedTemplate, report: Report): void {
+  // A JSON response cannot be parsed reliably without knowing its shape
+  const contract = readResponseContract(template);
+  if (contract.format === 'json' && !contract.schema && contract.line !== undefined) {
+    report(
+      'format-json-schema',
+      'FORMAT asks for JSON but gives no JSON Schema or example; add one in a ```json block',
+      { line: contract.line, column: 1 }
+    );
+  }
+}
+
+async function validateTokenBudget(
+  content: string,
+  config: RuleConfig,
+  report: Report
+): Promise<void> {
+  const { family, budget } = config.tokens;
+  if (budget === null) {
+    return;
+  }
+
+  const tokens = await analyzeTokens(content, {
+    family,
+    budget,
+    parseOptions: templateParseOptions(config),
+  });
+  if (tokens.overBudget) {
+    const largest = tokens.sections
+      .slice(0, 3)
+      .map((section) => `${section.name} (${section.tokens})`)
+      .join(', ');
+    report(
+      'token-budget',
+      `Template is about ${tokens.total} ${family} tokens, over the budget of ${budget}` +
+        (largest ? `. Largest sections: ${largest}` : '')
+    );
   }
 }
@@ -0,0 +1,288 @@
+import { z } from 'zod';
+import { TOKENIZER_FAMILIES } from '../tokenizers/families.js';
+import { JsonSchema } from '../utils/json-schema.js';
+
+const TEMPLATE_FIELD_ERROR = 'expected a string containing the template text';
+
+// Shared input for every tool that operates on a single template
+export const templateInputSchema = z.object({
+  template: z
+    .string({ error: TEMPLATE_FIELD_ERROR })
+    .describe('The prompt template text to process'),
+});
+
+export const analyzeInputSchema = templateInputSchema.extend({
+  metadata: z
+    .looseObject({
+      type: z.string().optional().describe('Template type, e.g. "conversation"'),
+      version: z.string().optional(),
+    })
+    .optional()
+    .describe('Optional template metadata'),
+  templatePath: z
+    .string()
+    .optional()
+    .describe('Path of the template file; a project config with plugins is searched for from here'),
+  configPath: z
+    .string()
+    .optional()
+    .describe('Explicit project rule config file; overrides discovery from templatePath'),
+});
+
+const enhancementStepSchema = z.enum([
+  'addMissingSections',
+  'formatTemplateVariables',
+  'improveFormatting',
+  'removeRedundancies',
+]);
+
+export const enhanceInputSchema = templateInputSchema.extend({
+  mode: z
+    .enum(['full', 'patch'])
+    .optional()
+    .describe('"full" returns the enhanced template; "patch" returns a unified diff and edits'),
+});
+
+export const applyEditsInputSchema = templateInputSchema.extend({
+  ids: z.array(z.string()).optional().describe('Edit ids from enhance_template patch output'),
+  steps: z
+    .array(enhancementStepSchema)
+    .optional()
+    .describe('Only apply edits produced by these enhancement steps'),
+});
+
+export const validateInputSchema = templateInputSchema.extend({
+  templatePath: z
+    .string()
+    .optional()
+    .describe('Path of the template file; a project config is searched for from here upwards'),
+  configPath: z
+    .string()
+    .optional()
+    .describe('Explicit project rule config file; overrides discovery from templatePath'),
+  fix: z
+    .boolean()
+    .optional()
+    .describe('Apply the safe fixes for fixable violations and return the fixed template'),
+});
+
+export const renderInputSchema = templateInputSchema.extend({
+  variables: z
+    .record(z.string(), z.unknown())
+    .optional()
+    .describe('Values for the {{name}} placeholders, keyed by variable name'),
+});
+
+export const tokensInputSchema = templateInputSchema.extend({
+  family: z
+    .enum(TOKENIZER_FAMILIES)
+    .optional()
+    .describe('Tokenizer family to estimate with; defaults to the configured one'),
+  budget: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('Maximum tokens; defaults to the configured budget'),
+  variables: z
+    .record(z.string(), z.unknown())
+    .optional()
+    .describe('Values to render into {{name}} placeholders before counting'),
+  templatePath: z
+    .string()
+    .optional()
+    .describe('Path of the template file; a project config is searched for from here upwards'),
+  configPath: z
+    .string()
+    .optional()
+    .describe('Explicit project rule config file; overrides discovery from templatePath'),
+});
+
+export const compareInputSchema = z.object({
+  oldTemplate: z
+    .string({ error: TEMPLATE_FIELD_ERROR })
+    .describe('The previous version of the template'),
+  newTemplate: z
+    .string({ error: TEMPLATE_FIELD_ERROR })
+    .describe('The edited version of the template'),
+  maxRegression: z
+    .number()
+    .min(0)
+    .optional()
+    .describe('Points the score may drop before the edit counts as a regression'),
+  templatePath: z
+    .string()
+    .optional()
+    .describe('Path of the template file; a project config is searched for from here upwards'),
+  configPath: z
+    .string()
+    .optional()
+    .describe('Explicit project rule config file; overrides discovery from templatePath'),
+});
+
+export const batchInputSchema = z.object({
+  paths: z
+    .array(z.string().min(1))
+    .min(1, 'expected at least one path or glob')
+    .describe('Files, directories or globs such as "Claude/rules/*.md"'),
+  cwd: z.string().optional().describe('Directory that paths are relative to'),
+  ignoreFile: z
+    .string()
+    .optional()
+    .describe('Gitignore-style file to honor; defaults to .templatereviewignore and .clineignore'),
+  configPath: z.string().optional().describe('Rule config used for every file'),
+  top: z.number().int().positive().optional().describe('Number of worst offenders to list'),
+  cache: z
+    .boolean()
+    .optional()
+    .describe('Reuse cached results for unchanged templates and rules; defaults to false'),
+  cacheDir: z
+    .string()
+    .optional()
+    .describe('Cache directory, relative to cwd; defaults to .template-review-cache'),
+});
+
+export const duplicatesInputSchema = batchInputSchema
+  .omit({ top: true, cache: true, cacheDir: true })
+  .extend({
+    configPath: z.string().optional().describe('Rule config used to score each copy'),
+    threshold: z
+      .number()
+      .min(0)
+      .max(1)
+      .optional()
+      .describe('Word-shingle similarity, 0–1, at which files or paragraphs count as duplicates'),
+    minParagraphWords: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe('Shortest paragraph, in words, compared across files'),
+  });
+
+export const checkResponseInputSchema = templateInputSchema.extend({
+  response: z
+    .string()
+    .optional()
+    .describe('Model response to check; without it only the contract is returned'),
+  responsePath: z.string().optional().describe('Path of the response file, used in reports'),
+  templatePath: z
+    .string()
+    .optional()
+    .describe('Path of the template file; a project config is searched for from here upwards'),
+  configPath: z
+    .string()
+    .optional()
+    .describe('Explicit project rule config file; overrides discovery from templatePath'),
+});
+
+export const providerConfigSchema = z.discriminatedUnion('type', [
+  z.strictObject({
+    type: z.literal('stub'),
+    responses: z
+      .record(z.string(), z.string())
+      .optional()
+      .describe('Canned output per case name; other cases get the prompt echoed back'),
+  }),
+  z.strictObject({
+    type: z.literal('openai'),
+    baseUrl: z
+      .string()
+      .url()
+      .describe('Base URL of an OpenAI-compatible API, e.g. http://localhost:11434/v1'),
+    model: z.string().min(1),
+    apiKeyEnv: z
+      .string()
+      .min(1)
+      .optional()
+      .describe('Environment variable holding the API key; none is sent without it'),
+    temperature: z.number().min(0).max(2).optional(),
+    maxTokens: z.number().int().positive().optional(),
+    timeoutMs: z.number().int().positive().optional(),
+  }),
+]);
+
+const JSON_TYPES = ['object', 'array', 'string', 'number', 'integer', 'boolean', 'null'] as const;
+
+// The JSON Schema subset check_response supports; other keywords are kept and ignored
+export const jsonSchemaSchema: z.ZodType<JsonSchema> = z.lazy(() =>
+  z.looseObject({
+    type: z.union([z.enum(JSON_TYPES), z.array(z.enum(JSON_TYPES))]).optional(),
+    properties: z.record(z.string(), jsonSchemaSchema).optional(),
+    required: z.array(z.string()).optional(),
+    additionalProperties: z.boolean().optional(),
+    items: jsonSchemaSchema.optional(),
+    enum: z.array(z.unknown()).optional(),
+    minItems: z.number().int().nonnegative().optional(),
+    maxItems: z.number().int().nonnegative().optional(),
+    minLength: z.number().int().nonnegative().optional(),
+    maxLength: z.number().int().nonnegative().optional(),
+    minimum: z.number().optional(),
+    maximum: z.number().optional(),
+  })
+);
+
+export const testAssertionSchema = z.discriminatedUnion('type', [
+  z.strictObject({
+    type: z.literal('contains'),
+    value: z.string().min(1),
+    ignoreCase: z.boolean().optional(),
+  }),
+  z.strictObject({
+    type: z.literal('regex'),
+    pattern: z.string().min(1),
+    flags: z.string().optional(),
+  }),
+  z.strictObject({
+    type: z.literal('json-schema'),
+    schema: jsonSchemaSchema,
+  }),
+  z.strictObject({
+    type: z.literal('max-length'),
+    value: z.number().int().positive(),
+    unit: z.enum(['characters', 'words']).optional(),
+  }),
+]);
+
+export const testCaseSchema = z.strictObject({
+  name: z.string().min(1),
+  variables: z.record(z.string(), z.unknown()).optional().describe('Values for the placeholders'),
+  input: z
+    .string()
+    .optional()
+    .describe('User message; with it the rendered template is sent as the system message'),
+  assert: z.array(testAssertionSchema).min(1, 'expected at least one assertion'),
+});
+
+export const testTemplateInputSchema = templateInputSchema.extend({
+  cases: z.array(testCaseSchema).min(1, 'expected at least one case'),
+  provider: providerConfigSchema
+    .optional()
+    .describe('Model provider; defaults to the deterministic stub'),
+  templatePath: z.string().optional().describe('Path of the template file, used in reports'),
+});
+
+export type AnalyzeInput = z.infer<typeof analyzeInputSchema>;
+export type EnhanceInput = z.infer<typeof enhanceInputSchema>;
+export type ApplyEditsInput = z.infer<typeof applyEditsInputSchema>;
+export type RenderInput = z.infer<typeof renderInputSchema>;
+export type TokensInput = z.infer<typeof tokensInputSchema>;
+export type CompareInput = z.infer<typeof compareInputSchema>;
+export type BatchInput = z.infer<typeof batchInputSchema>;
+export type DuplicatesInput = z.infer<typeof duplicatesInputSchema>;
+export type CheckResponseInput = z.infer<typeof checkResponseInputSchema>;
+export type ProviderConfig = z.infer<typeof providerConfigSchema>;
+export type TestAssertion = z.infer<typeof testAssertionSchema>;
+export type TestCase = z.infer<typeof testCaseSchema>;
+export type ValidateInput = z.infer<typeof validateInputSchema>;
+
+/**
+ * Formats zod issues as a single readable message
+ */
+export function formatZodError(error: z.ZodError): string {
+  return error.issues
+    .map((issue) =>
+      issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+    )
+    .join('; ');
+}
@@ -0,0 +1,169 @@
+import { ParsedTemplate, Position } from '../utils/parser.js';
+
+export type DirectiveKind =
+  | 'disable'
+  | 'enable'
+  | 'disable-line'
+  | 'disable-next-line'
+  | 'disable-file';
+
+/** An inline `<!-- template-review-... -->` comment */
+export interface SuppressionDirective {
+  kind: DirectiveKind;
+  /** Rule ids the directive applies to; empty means every rule */
+  rules: string[];
+  position: Position;
+}
+
+/** Where a violation is reported; violations without a line can only be disabled per file */
+interface Located {
+  rule: string;
+  line?: number;
+}
+
+/** Lines covered by a `disable` directive, for one of its rules or for all of them */
+interface DisableRange {
+  directive: SuppressionDirective;
+  rule?: string;
+  start: number;
+  end: number;
+}
+
+export interface SuppressionResult<T extends Located> {
+  kept: T[];
+  suppressed: T[];
+  /** Disable directives, or rules within them, that silenced nothing */
+  unused: { directive: SuppressionDirective; rule?: string }[];
+}
+
+const DIRECTIVE_PATTERN =
+  /<!--\s*template-review-(disable-next-line|disable-line|disable-file|disable|enable)\b([\s\S]*?)-->/g;
+
+/**
+ * Finds suppression directives outside code fences. Rule ids are separated by commas or
+ * spaces; anything after ` -- ` is a free-text reason.
+ */
+export function parseDirectives(template: ParsedTemplate): SuppressionDirective[] {
+  const directives: SuppressionDirective[] = [];
+
+  for (const match of template.source.matchAll(DIRECTIVE_PATTERN)) {
+    const offset = match.index ?? 0;
+    const fenced = template.codeFences.some(
+      (fence) => offset >= fence.span.start.offset && offset < fence.span.end.offset
+    );
+    if (fenced) {
+      continue;
+    }
+    directives.push({
+      kind: match[1] as DirectiveKind,
+      rules: match[2]
+        .split(/\s--\s/)[0]
+        .split(/[\s,]+/)
+        .filter((rule) => rule !== ''),
+      position: template.positionAt(offset),
+    });
+  }
+
+  return directives;
+}
+
+/**
+ * Splits violations into kept and suppressed, and tracks which directives were used
+ */
+export function applySuppressions<T extends Located>(
+  violations: T[],
+  directives: SuppressionDirective[]
+): SuppressionResult<T> {
+  const ranges = disableRanges(directives);
+  const used = new Map<SuppressionDirective, Set<string>>();
+  const kept: T[] = [];
+  const suppressed: T[] = [];
+
+  for (const violation of violations) {
+    const match = directives.find((directive) => suppresses(directive, violation, ranges));
+
+    if (match) {
+      suppressed.push(violation);
+      used.set(match, (used.get(match) ?? new Set()).add(violation.rule));
+    } else {
+      kept.push(violation);
+    }
+  }
+
+  const unused: SuppressionResult<T>['unused'] = [];
+  for (const directive of directives) {
+    if (directive.kind === 'enable') {
+      continue;
+    }
+    const usedRules = used.get(directive);
+    if (directive.rules.length === 0) {
+      if (!usedRules) unused.push({ directive });
+      continue;
+    }
+    directive.rules
+      .filter((rule) => !usedRules?.has(rule))
+      .forEach((rule) => unused.push({ directive, rule }));
+  }
+
+  return { kept, suppressed, unused };
+}
+
+function suppresses(
+  directive: SuppressionDirective,
+  violation: Located,
+  ranges: DisableRange[]
+): boolean {
+  const { line } = violation;
+  if (!coversRule(directive, violation.rule)) {
+    return false;
+  }
+  if (directive.kind === 'disable-file') {
+    return true;
+  }
+  if (directive.kind === 'disable-line') {
+    return line === directive.position.line;
+  }
+  if (directive.kind === 'disable-next-line') {
+    return line === directive.position.line + 1;
+  }
+  return (
+    directive.kind === 'disable' &&
+    line !== undefined &&
+    ranges.some(
+      (range) =>
+        range.directive === directive &&
+        (range.rule === undefined || range.rule === violation.rule) &&
+        line >= range.start &&
+        line < range.end
+    )
+  );
+}
+
+/**
+ * Pairs each `disable` with the first later `enable` covering the same rule. Lines are
+ * 1-based; `end` is exclusive.
+ */
+function disableRanges(directives: SuppressionDirective[]): DisableRange[] {
+  return directives
+    .filter((directive) => directive.kind === 'disable')
+    .flatMap((directive) =>
+      (directive.rules.length > 0 ? directive.rules : [undefined]).map((rule) => {
+        const enable = directives.find(
+          (other) =>
+            other.kind === 'enable' &&
+            other.position.offset > directive.position.offset &&
+            (other.rules.length === 0 || (rule !== undefined && other.rules.includes(rule)))
+        );
+        return {
+          directive,
+          rule,
+          start: directive.position.line,
+          end: enable ? enable.position.line : Infinity,
+        };
+      })
+    );
+}
+
+function coversRule(directive: SuppressionDirective, rule: string): boolean {
+  return directive.rules.length === 0 || directive.rules.includes(rule);
+}
@@ -0,0 +1,10 @@
+import { readFileSync } from 'fs';
+
+export const TOOL_NAME = 'template-review-server';
+
+// package.json sits one level above both src/ and dist/
+const packageJson = JSON.parse(
+  readFileSync(new URL('../package.json', import.meta.url), 'utf8')
+) as { version: string };
+
+export const TOOL_VERSION = packageJson.version;
@@ -0,0 +1,122 @@
+import { analyzeAll } from '../src/analysis.js';
+import { PluginError } from '../src/plugins/loader.js';
+import { PatternMatch } from '../src/types.js';
+import { CLEAN_TEMPLATE, createTempDir, removeTempDir } from './helpers.js';
+
+describe('analyzeAll', () => {
+  it('combines every analyzer into one report', async () => {
+    const report = await analyzeAll(CLEAN_TEMPLATE, { type: 'review', version: '2' });
+    expect(report.language).toMatchObject({ code: 'en' });
+    expect(report.score.passing).toBe(true);
+    expect(report.tokens.total).toBeGreaterThan(0);
+    expect(report.conversation).toBeUndefined();
+    for (const part of [report.content, report.patterns, report.security, report.conflicts]) {
+      expect(part.score).toBeGreaterThan(0);
+    }
+  });
+
+  it('reads sections with the configured aliases and dialect', async () => {
+    const content = 'GOAL: Review code.\n\n# Task\nJOB: Review {{code}}.';
+    expect((await analyzeAll(content)).structure).toMatchObject({ hasRole: false });
+    const report = await analyzeAll(content, undefined, {
+      overrides: {
+        structure: {
+          sectionAliases: { ROLE: ['GOAL'], TASK: ['JOB'] },
+          dialect: 'colon',
+        },
+      },
+    });
+    expect(report.structure).toMatchObject({ dialect: 'colon', hasRole: true, hasTask: true });
+  });
+
+  it('reads a conversation through its system message with source positions', async () => {
+    const conversation = [
+      '<|system|>',
+      'ROLE: A helper.',
+      '',
+      'TASK: Always answer in English. Never answer in English.',
+      '<|user|>',
+      '{{question}}',
+    ].join('\n');
+    const report = await analyzeAll(conversation);
+    expect(report.conversation).toBeDefined();
+    const lines = (report.conflicts.details.conflictMatches as PatternMatch[]).map(
+      (match) => match.line
+    );
+    expect(lines.length).toBeGreaterThan(0);
+    // Line 3 of the system message is line 4 of the conversation
+    expect(lines.every((line) => line === 4)).toBe(true);
+  });
+
+  it('ignores conversation text that only looks like a variable', async () => {
+    const report = await analyzeAll(
+      JSON.stringify([
+        { role: 'system', content: 'ROLE: A planner.\n\nTASK: Plan {{goal}} as a checklist.' },
+        { role: 'user', content: 'Plan {{goal}}.' },
+        { role: 'assistant', content: '- [x] Read `items[0]`\n- [ ] Ship it' },
+      ])
+    );
+    expect(report.conversation?.variables).toEqual([{ name: 'goal', turns: [1, 2] }]);
+    expect(report.conversation?.issues).toEqual([]);
+  });
+
+  it('analyzes a conversation without a system message as empty', async () => {
+    const report = await analyzeAll(JSON.stringify([{ role: 'user', content: 'Hi' }]));
+    expect(report.conversation).toMatchObject({ format: 'json', hasSystem: false });
+    expect(report.structure).toMatchObject({ hasRole: false, hasTask: false });
+  });
+
+  describe('plugin analyzers', () => {
+    let dir: string;
+
+    beforeAll(async () => {
+      dir = await createTempDir({
+        'analyzers.mjs': [
+          'export default {',
+          '  name: \'house-style\',',
+          '  analyzers: [',
+          '    { id: \'shout\', analyze: ({ options }) => [{ message: options.message, severity: \'warning\', line: 2 }] },',
+          '    { id: \'quiet\', analyze: async () => [{ rule: \'hush\', message: \'Quiet\', severity: \'info\' }] },',
+          '  ],',
+          '};',
+        ].join('\n'),
+        'failing.mjs': [
+          'export default {',
+          '  name: \'failing\',',
+          '  analyzers: [{ id: \'boom\', analyze() { throw new Error(\'bad\'); } }],',
+          '};',
+        ].join('\n'),
+      });
+    });
+
+    afterAll(() => removeTempDir(dir));
+
+    it('adds their findings to the pattern matches', async () => {
+      const report = await analyzeAll(CLEAN_TEMPLATE, undefined, {
+        overrides: {
+          plugins: [{ path: `${dir}/analyzers.mjs`, options: { message: 'Too loud' } }],
+        },
+      });
+      const matches = report.patterns.details.patternMatches as PatternMatch[];
+      expect(matches).toEqual(
+        expect.arrayContaining([
+          {
+            rule: 'shout',
+            pattern: 'house-style/shout',
+            line: 2,
+            column: 1,
+            severity: 'warning',
+            message: 'Too loud',
+          },
+          expect.objectContaining({ rule: 'hush', pattern: 'house-style/quiet', line: 1 }),
+        ])
+      );
+    });
+
+    it('raises a PluginError when one fails', async () => {
+      await expect(
+        analyzeAll(CLEAN_TEMPLATE, undefined, { overrides: { plugins: [`${dir}/failing.mjs`] } })
+      ).rejects.toThrow(new PluginError('analyzer boom failed: bad', `${dir}/failing.mjs`));
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { FewShotExample, analyzeExamples } from '../../src/analyzers/examples.js';
+import { PatternMatch } from '../../src/types.js';
+
+const rulesOf = (content: string): string[] =>
+  (analyzeExamples(content).details.exampleMatches as PatternMatch[]).map((match) => match.rule);
+
+const examplesOf = (content: string): FewShotExample[] =>
+  analyzeExamples(content).details.examples as FewShotExample[];
+
+const classification = (outputs: string[]): string =>
+  [
+    'TASK: Classify the sentiment of {{review}}.',
+    '',
+    'FORMAT: A JSON object such as {"sentiment": "positive"}.',
+    '',
+    ...outputs.flatMap((output, index) => [
+      `Example ${index + 1}:`,
+      `Input: review number ${index + 1}`,
+      `Output: ${output}`,
+      '',
+    ]),
+  ].join('\n');
+
+describe('analyzeExamples', () => {
+  it('reads inputs, outputs and labels of example blocks', () => {
+    const examples = examplesOf(
+      classification(['{"sentiment": "Positive"}', '{"sentiment": "negative"}'])
+    );
+    expect(examples).toEqual([
+      {
+        kind: 'block',
+        name: 'Example 1',
+        line: 5,
+        column: 1,
+        words: 7,
+        input: 'review number 1',
+        output: '{"sentiment": "Positive"}',
+        label: 'positive',
+        followsFormat: true,
+      },
+      expect.objectContaining({ name: 'Example 2', label: 'negative', followsFormat: true }),
+    ]);
+  });
+
+  it('flags outputs that break FORMAT', () => {
+    const result = analyzeExamples(classification(['{"sentiment": "positive"}', 'Negative']));
+    expect(result.details.followsFormat).toBe(false);
+    expect(result.issues).toEqual([
+      'Example 2 at line 9 does not follow FORMAT: Response is not valid JSON, but FORMAT asks for JSON',
+    ]);
+    expect(result.score).toBeLessThan(100);
+    expect(result.suggestions).toHaveLength(1);
+  });
+
+  it('flags a dominant label', () => {
+    const positive = '{"sentiment": "positive"}';
+    expect(rulesOf(classification([positive, positive, positive]))).toEqual(['example-label-skew']);
+    const skewed = analyzeExamples(
+      classification([positive, positive, positive, '{"sentiment": "negative"}'])
+    );
+    expect(skewed.issues).toEqual(['3 of 4 labelled examples have the label "positive"']);
+    expect(skewed.details.labels).toEqual({ positive: 3, negative: 1 });
+    // Three examples over two labels cannot be split more evenly
+    expect(rulesOf(classification([positive, positive, '{"sentiment": "negative"}']))).toEqual([]);
+  });
+
+  it('reads tagged examples and fenced input/output pairs', () => {
+    const examples = examplesOf(
+      [
+        'TASK: Translate {{text}}.',
+        '',
+        '<example><input>Hello</input><output>Bonjour</output></example>',
+        '',
+        'Input:',
+        '```',
+        'Goodbye',
+        '```',
+        '',
+        '```output',
+        'Au revoir',
+        '```',
+      ].join('\n')
+    );
+    expect(examples.map((example) => [example.kind, example.input, example.output])).toEqual([
+      ['tag', 'Hello', 'Bonjour'],
+      ['fenced-pair', 'Goodbye', 'Au revoir'],
+    ]);
+  });
+
+  it('flags unfilled variables, copied task text and skewed lengths', () => {
+    const content = [
+      'TASK: Summarize the incident report below in plain words for the on-call engineer.',
+      '',
+      '<example>Summarize the incident report below in plain words for the on-call engineer</example>',
+      '',
+      'Example:',
+      'Input: {{report}}',
+      `Output: ${'The database ran out of disk space overnight. '.repeat(8).trim()}`,
+    ].join('\n');
+    const result = analyzeExamples(content);
+    expect(rulesOf(content)).toEqual([
+      'example-copies-task',
+      'example-length-skew',
+      'example-variable',
+    ]);
+    expect(result.issues[1]).toBe('Example lengths are skewed: 67 words at line 5, 12 at line 3');
+  });
+
+  it('passes a template without examples', () => {
+    const result = analyzeExamples('TASK: Do it.\n\nFORMAT: JSON');
+    expect(result.score).toBe(100);
+    expect(result.details).toMatchObject({ count: 0, followsFormat: undefined, labels: {} });
+  });
+});
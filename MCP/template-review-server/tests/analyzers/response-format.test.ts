@@ -0,0 +1,151 @@
+import {
+  checkResponseContract,
+  checkResponseFormat,
+  describeResponseFormat,
+  expectedResponseFormat,
+  parseJsonResponse,
+  readResponseContract,
+} from '../../src/analyzers/response-format.js';
+import { parseTemplate } from '../../src/utils/parser.js';
+
+const contractOf = (format: string): ReturnType<typeof readResponseContract> =>
+  readResponseContract(parseTemplate(`TASK: Summarize {{text}}.\n\nFORMAT: ${format}`));
+
+describe('readResponseContract', () => {
+  it('is empty without a FORMAT section', () => {
+    expect(readResponseContract(parseTemplate('TASK: x'))).toEqual({
+      hasFormatSection: false,
+      sections: [],
+      limits: {},
+    });
+    expect(expectedResponseFormat(parseTemplate('TASK: x'))).toBeUndefined();
+  });
+
+  it('picks the first named format', () => {
+    expect(contractOf('A JSON list of names').format).toBe('json');
+    expect(contractOf('An XML document').format).toBe('xml');
+    expect(contractOf('A table of results').format).toBe('table');
+    expect(contractOf('Bullet points').format).toBe('list');
+    expect(contractOf('Plain prose').format).toBeUndefined();
+    expect(describeResponseFormat('table')).toBe('a Markdown table');
+  });
+
+  it('skips formats that are ruled out', () => {
+    expect(
+      contractOf('Two short paragraphs of prose. Do not use a bulleted list or a table.').format
+    ).toBeUndefined();
+    expect(contractOf('- Never answer in JSON\n- Use a table').format).toBe('table');
+  });
+
+  it('reads a fenced schema or an inline example', () => {
+    const schema = contractOf(
+      'Return this:\n```json\n{"type": "object", "properties": {"a": {"type": "string"}}}\n```'
+    );
+    expect(schema).toMatchObject({ format: 'json', schemaSource: 'schema', line: 3 });
+    expect(schema.schema?.properties?.a).toEqual({ type: 'string' });
+
+    const example = contractOf('Reply like {"summary": "...", "score": 1}');
+    expect(example.format).toBe('json');
+    expect(example.schemaSource).toBe('example');
+    expect(example.schema?.required).toEqual(['summary', 'score']);
+  });
+
+  it('reads section names from headings or a sentence', () => {
+    expect(contractOf('Markdown:\n## Summary\n## Risks').sections).toEqual(['Summary', 'Risks']);
+    expect(contractOf('Use the sections Summary, Risks and Next steps.').sections).toEqual([
+      'Summary',
+      'Risks',
+      'Next steps',
+    ]);
+    expect(
+      contractOf('Use these headings:\n- **Summary** - one line\n- Risks - what may break').sections
+    ).toEqual(['Summary', 'Risks']);
+  });
+
+  it('reads length limits in every phrasing', () => {
+    expect(contractOf('Between 50-100 words.').limits).toEqual({ minWords: 50, maxWords: 100 });
+    expect(contractOf('Under 100 words, at most three sentences.').limits).toEqual({
+      maxWords: 99,
+      maxSentences: 3,
+    });
+    expect(contractOf('At least 3 bullet points, no more than 2 paragraphs.').limits).toEqual({
+      minItems: 3,
+      maxParagraphs: 2,
+    });
+    expect(contractOf('In exactly five items, max 280 characters.').limits).toEqual({
+      minItems: 5,
+      maxItems: 5,
+      maxCharacters: 280,
+    });
+  });
+});
+
+describe('checkResponseFormat', () => {
+  it('checks each format', () => {
+    expect(checkResponseFormat('```json\n{"a": 1}\n```', 'json')).toBeUndefined();
+    expect(checkResponseFormat('{oops', 'json')).toBe('is not valid JSON');
+    expect(checkResponseFormat('<a>b</a>', 'xml')).toBeUndefined();
+    expect(checkResponseFormat('a b', 'xml')).toBe('is not an XML document');
+    expect(checkResponseFormat('| a |\n|---|\n| 1 |', 'table')).toBeUndefined();
+    expect(checkResponseFormat('a', 'table')).toBe('has no Markdown table');
+    expect(checkResponseFormat('1. a', 'list')).toBeUndefined();
+    expect(checkResponseFormat('a', 'list')).toBe('has no bulleted or numbered list');
+  });
+
+  it('parses fenced JSON', () => {
+    expect(parseJsonResponse('```\n[1]\n```')).toEqual([1]);
+    expect(parseJsonResponse('nope')).toBeUndefined();
+  });
+});
+
+describe('checkResponseContract', () => {
+  it('reports a response that is not in the requested format', () => {
+    expect(checkResponseContract('plain', contractOf('JSON with a "summary" key'))).toEqual([
+      {
+        rule: 'response-format',
+        message: 'Response is not valid JSON, but FORMAT asks for JSON',
+        severity: 'error',
+        line: 1,
+      },
+    ]);
+  });
+
+  it('validates JSON against the example', () => {
+    const problems = checkResponseContract(
+      '{"summary": 3}',
+      contractOf('Reply like {"summary": "...", "score": 1}')
+    );
+    expect(problems.map((problem) => problem.message)).toEqual([
+      '$: missing required property "score", per the example in FORMAT',
+      '$.summary: expected string, got integer, per the example in FORMAT',
+    ]);
+  });
+
+  it('reports missing and misordered sections', () => {
+    const contract = contractOf('## Summary\n## Risks\n## Steps');
+    const problems = checkResponseContract('**Risks**\nnone\n\nSummary:\nfine', contract);
+    expect(problems).toEqual([
+      { rule: 'response-sections', message: 'Response has no "Steps" section', severity: 'error' },
+      {
+        rule: 'response-sections',
+        message: 'Response sections are out of order; expected Summary, Risks, Steps',
+        severity: 'warning',
+        line: 1,
+      },
+    ]);
+  });
+
+  it('counts words, sentences, paragraphs, characters and items', () => {
+    const contract = contractOf(
+      'At least 3 items, at most 4 words, in one sentence, in one paragraph, under 20 characters.'
+    );
+    const problems = checkResponseContract('- one two.\n\n- three four five. Six.', contract);
+    expect(problems.map((problem) => problem.message)).toEqual([
+      'Response has 6 words; FORMAT allows at most 4',
+      'Response has 3 sentences; FORMAT allows at most 1',
+      'Response has 2 paragraphs; FORMAT allows at most 1',
+      'Response has 35 characters; FORMAT allows at most 19',
+      'Response has 2 list items; FORMAT asks for at least 3',
+    ]);
+  });
+});
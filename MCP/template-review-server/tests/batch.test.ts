@@ -0,0 +1,76 @@
+import path from 'path';
+import { reviewTemplates } from '../src/batch.js';
+import { PathMatchError } from '../src/utils/glob.js';
+import { CLEAN_TEMPLATE, POOR_TEMPLATE, createTempDir, removeTempDir } from './helpers.js';
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await createTempDir({
+    'prompts/clean.md': CLEAN_TEMPLATE,
+    'prompts/poor.md': POOR_TEMPLATE,
+    'prompts/skipped.md': POOR_TEMPLATE,
+    'notes.json': '{}',
+    '.templatereviewignore': 'prompts/skipped.md\n',
+  });
+});
+
+afterEach(() => removeTempDir(dir));
+
+describe('reviewTemplates', () => {
+  it('reviews every matched template and summarizes the run', async () => {
+    const result = await reviewTemplates({ paths: ['.'], cwd: dir, top: 1 });
+    expect(result.files.map((review) => review.file)).toEqual([
+      'prompts/clean.md',
+      'prompts/poor.md',
+    ]);
+    expect(result.files.every((review) => review.cached === undefined)).toBe(true);
+
+    const { summary } = result;
+    expect(summary).toMatchObject({ fileCount: 2, reviewedCount: 2, validCount: 1 });
+    expect(summary.failedFiles).toEqual([]);
+    expect(summary.cache).toBeUndefined();
+    expect(summary.worstOffenders).toHaveLength(1);
+    expect(summary.worstOffenders[0].file).toBe('prompts/poor.md');
+    expect(summary.averageScores.overall).toBeCloseTo(
+      ((result.files[0].score ?? 0) + (result.files[1].score ?? 0)) / 2,
+      1
+    );
+    const hits = Object.values(summary.ruleHits);
+    expect(hits).toEqual([...hits].sort((a, b) => b - a));
+  });
+
+  it('reuses cached results for unchanged templates', async () => {
+    const first = await reviewTemplates({ paths: ['prompts/*.md'], cwd: dir, cache: true });
+    expect(first.summary.cache).toEqual({ hits: 0, misses: 2 });
+
+    const second = await reviewTemplates({ paths: ['prompts/*.md'], cwd: dir, cache: true });
+    expect(second.summary.cache).toEqual({ hits: 2, misses: 0 });
+    expect(second.files.every((review) => review.cached)).toBe(true);
+    expect(second.files.map((review) => review.score)).toEqual(
+      first.files.map((review) => review.score)
+    );
+  });
+
+  it('reports a bad config per file', async () => {
+    const result = await reviewTemplates({
+      paths: ['prompts/clean.md'],
+      cwd: dir,
+      configPath: path.join(dir, 'missing.json'),
+    });
+    expect(result.files[0].error).toMatch(/^Invalid rule config/);
+    expect(result.summary).toMatchObject({
+      fileCount: 1,
+      reviewedCount: 0,
+      failedFiles: ['prompts/clean.md'],
+      worstOffenders: [],
+    });
+    expect(result.summary.averageScores.overall).toBe(0);
+  });
+
+  it('rejects paths that match nothing', async () => {
+    await expect(
+      reviewTemplates({ paths: ['prompts/clean.md', 'nowhere'], cwd: dir })
+    ).rejects.toEqual(new PathMatchError(['nowhere']));
+  });
+});
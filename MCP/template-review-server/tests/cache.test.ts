@@ -0,0 +1,109 @@
+import { mkdir, readdir, utimes, writeFile } from 'fs/promises';
+import path from 'path';
+import { analyzeAll } from '../src/analysis.js';
+import {
+  CacheEntry,
+  CacheError,
+  cacheKey,
+  cacheStats,
+  clearCache,
+  readCacheEntry,
+  writeCacheEntry,
+} from '../src/cache.js';
+import { RuleConfig, loadDefaultConfig, mergeConfig } from '../src/config/loader.js';
+import { validateTemplate } from '../src/validators/rules.js';
+import { CLEAN_TEMPLATE, createTempDir, removeTempDir } from './helpers.js';
+
+let config: RuleConfig;
+let dir: string;
+
+beforeAll(async () => {
+  config = await loadDefaultConfig();
+});
+
+beforeEach(async () => {
+  dir = await createTempDir();
+});
+
+afterEach(() => removeTempDir(dir));
+
+describe('cacheKey', () => {
+  it('changes with the content and the config but not with key order', async () => {
+    const key = await cacheKey(CLEAN_TEMPLATE, config);
+    expect(key).toMatch(/^[0-9a-f]{64}$/);
+    expect(await cacheKey(CLEAN_TEMPLATE, config)).toBe(key);
+    expect(await cacheKey(`${CLEAN_TEMPLATE}\n`, config)).not.toBe(key);
+    expect(
+      await cacheKey(CLEAN_TEMPLATE, mergeConfig(config, { rules: { 'section-case': 'off' } }))
+    ).not.toBe(key);
+
+    const reordered = Object.fromEntries(Object.entries(config).reverse()) as RuleConfig;
+    expect(await cacheKey(CLEAN_TEMPLATE, reordered)).toBe(key);
+  });
+
+  it('changes when a plugin or a module it imports changes', async () => {
+    const plugin = path.join(dir, 'plugin.mjs');
+    const helper = path.join(dir, 'lib', 'helper.mjs');
+    await writeFile(plugin, 'import { word } from \'./lib/helper.mjs\';\nexport default {};\n');
+    const withPlugin = mergeConfig(config, { plugins: [{ path: plugin, options: {} }] });
+
+    const missing = await cacheKey(CLEAN_TEMPLATE, withPlugin);
+    await mkdir(path.dirname(helper));
+    await writeFile(helper, 'export const word = \'one\';\n');
+    const first = await cacheKey(CLEAN_TEMPLATE, withPlugin);
+    expect(first).not.toBe(missing);
+
+    await writeFile(helper, 'export const word = \'two\';\n');
+    expect(await cacheKey(CLEAN_TEMPLATE, withPlugin)).not.toBe(first);
+  });
+});
+
+describe('cache entries', () => {
+  const entry = async (): Promise<CacheEntry> => ({
+    analysis: await analyzeAll(CLEAN_TEMPLATE),
+    validation: await validateTemplate(CLEAN_TEMPLATE),
+  });
+
+  it('round-trips an entry and misses unknown keys', async () => {
+    const stored = await entry();
+    await writeCacheEntry(path.join(dir, 'cache'), 'k1', stored);
+    expect(await readCacheEntry(path.join(dir, 'cache'), 'k1')).toEqual(
+      JSON.parse(JSON.stringify(stored))
+    );
+    expect(await readCacheEntry(path.join(dir, 'cache'), 'k2')).toBeUndefined();
+  });
+
+  it('ignores entries written by another version or that cannot be read', async () => {
+    await writeFile(path.join(dir, 'old.json'), JSON.stringify({ version: '0.0.0' }));
+    await writeFile(path.join(dir, 'bad.json'), '{');
+    expect(await readCacheEntry(dir, 'old')).toBeUndefined();
+    expect(await readCacheEntry(dir, 'bad')).toBeUndefined();
+  });
+
+  it('reports stats by modification time and clears only the entries', async () => {
+    const stored = await entry();
+    await writeCacheEntry(dir, 'a', stored);
+    await writeCacheEntry(dir, 'b', stored);
+    await writeFile(path.join(dir, 'notes.txt'), 'not an entry');
+    await utimes(path.join(dir, 'a.json'), new Date('2020-01-01'), new Date('2020-01-01'));
+
+    const stats = await cacheStats(dir);
+    expect(stats).toMatchObject({ dir, entries: 2, oldest: '2020-01-01T00:00:00.000Z' });
+    expect(stats.bytes).toBeGreaterThan(0);
+    expect(stats.newest).not.toBe(stats.oldest);
+
+    expect(await clearCache(dir)).toEqual({ dir, removed: 2 });
+    expect(await cacheStats(dir)).toEqual({ dir, entries: 0, bytes: 0 });
+    expect((await readdir(dir)).sort()).toEqual(['CACHEDIR.TAG', 'notes.txt']);
+  });
+
+  it('refuses to clear a directory that is not a cache', async () => {
+    await writeFile(path.join(dir, 'package.json'), '{}');
+    await expect(clearCache(dir)).rejects.toThrow(CacheError);
+    expect(await readdir(dir)).toEqual(['package.json']);
+    expect(await clearCache(path.join(dir, 'missing'))).toEqual({
+      dir: path.join(dir, 'missing'),
+      removed: 0,
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { parseCliArgs, runCli } from '../src/cli.js';
+import { CLEAN_TEMPLATE, POOR_TEMPLATE } from './helpers.js';
+
+class ExitError extends Error {
+  constructor(public readonly code: number | undefined) {
+    super(`process.exit(${code})`);
+  }
+}
+
+interface CliRun {
+  stdout: string;
+  stderr: string;
+  exitCode: number | undefined;
+}
+
+/** Runs the CLI with stdout, stderr and process.exit captured */
+async function run(...args: Parameters<typeof runCli>): Promise<CliRun> {
+  const original = {
+    stdout: process.stdout.write,
+    stderr: process.stderr.write,
+    exit: process.exit,
+    exitCode: process.exitCode,
+  };
+  const output = { stdout: '', stderr: '' };
+  const capture =
+    (stream: keyof typeof output) =>
+      (chunk: string | Uint8Array): boolean => {
+        output[stream] += String(chunk);
+        return true;
+      };
+  process.stdout.write = capture('stdout') as typeof process.stdout.write;
+  process.stderr.write = capture('stderr') as typeof process.stderr.write;
+  process.exit = ((code?: number): never => {
+    throw new ExitError(code);
+  }) as typeof process.exit;
+  process.exitCode = undefined;
+
+  let exitCode: number | undefined;
+  try {
+    await runCli(...args);
+    exitCode = process.exitCode === undefined ? undefined : Number(process.exitCode);
+  } catch (error) {
+    if (!(error instanceof ExitError)) throw error;
+    exitCode = error.code;
+  } finally {
+    process.stdout.write = original.stdout;
+    process.stderr.write = original.stderr;
+    process.exit = original.exit;
+    process.exitCode = original.exitCode;
+  }
+  return { ...output, exitCode };
+}
+
+describe('parseCliArgs', () => {
+  it('splits flags from positional arguments', () => {
+    expect(parseCliArgs(['batch', '--format', 'sarif', 'a.md', '--fix', '--no-cache'])).toEqual({
+      positional: ['batch', 'a.md'],
+      format: 'sarif',
+      fix: true,
+      cache: false,
+    });
+    expect(parseCliArgs(['--format=text'])).toEqual({
+      positional: [],
+      format: 'text',
+      fix: false,
+      cache: true,
+    });
+  });
+
+  it('rejects an unknown format', () => {
+    expect(() => parseCliArgs(['--format', 'xml'])).toThrow(
+      'Unknown format: xml. Expected one of: json, sarif, junit, github, text'
+    );
+  });
+});
+
+describe('runCli', () => {
+  it('prints the result as JSON', async () => {
+    const result = await run('render_template', {
+      input: { template: 'Hi {{n}}', variables: { n: 'A' } },
+    });
+    expect(JSON.parse(result.stdout)).toMatchObject({ content: 'Hi A' });
+    expect(result.exitCode).toBeUndefined();
+  });
+
+  it('exits 1 without a command or for an unknown one', async () => {
+    const missing = await run(undefined);
+    expect(missing.exitCode).toBe(1);
+    expect(missing.stderr).toMatch(/^MCP Error: No command provided\. Expected one of: /);
+
+    const unknown = await run('nope', { input: {} });
+    expect(unknown).toEqual({
+      stdout: '',
+      stderr: 'MCP Error: Unknown command: nope\n',
+      exitCode: 1,
+    });
+  });
+
+  it('applies fixes only where supported', async () => {
+    const fixed = await run('validate_template', {
+      input: { template: 'Role: a\n\nTask: b {{c}}' },
+      fix: true,
+    });
+    expect(JSON.parse(fixed.stdout).content).toBe('ROLE: a\n\nTASK: b {{c}}');
+
+    const refused = await run('render_template', { input: { template: 'x' }, fix: true });
+    expect(refused.stderr).toBe('MCP Error: --fix is only supported for validate_template\n');
+    expect(refused.exitCode).toBe(1);
+  });
+
+  it('renders findings and exits 1 on errors', async () => {
+    const clean = await run('validate_template', {
+      input: { template: CLEAN_TEMPLATE },
+      format: 'text',
+    });
+    expect(clean.exitCode).toBeUndefined();
+
+    const poor = await run('validate_template', {
+      input: { template: POOR_TEMPLATE, templatePath: 'poor.md' },
+      format: 'github',
+    });
+    expect(poor.stdout).toMatch(/^::error file=poor\.md/m);
+    expect(poor.exitCode).toBe(1);
+  });
+
+  it('rejects a report format for a tool without findings', async () => {
+    const result = await run('render_template', { input: { template: 'x' }, format: 'sarif' });
+    expect(result.stderr).toBe('MCP Error: Format "sarif" is not supported for render_template\n');
+    expect(result.exitCode).toBe(1);
+  });
+
+  it('fails a failing result even as JSON', async () => {
+    const result = await run('test_template', {
+      input: {
+        template: 'Say hello',
+        cases: [{ name: 'x', assert: [{ type: 'contains', value: 'bye' }] }],
+      },
+    });
+    expect(JSON.parse(result.stdout).passed).toBe(false);
+    expect(result.exitCode).toBe(1);
+  });
+});
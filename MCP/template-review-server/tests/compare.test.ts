@@ -0,0 +1,55 @@
+import { compareTemplates } from '../src/compare.js';
+import { CLEAN_TEMPLATE, POOR_TEMPLATE } from './helpers.js';
+
+describe('compareTemplates', () => {
+  it('reports no regression for identical versions', async () => {
+    const comparison = await compareTemplates(CLEAN_TEMPLATE, CLEAN_TEMPLATE);
+    expect(comparison.score.delta).toBe(0);
+    expect(comparison.violations).toEqual({ added: [], resolved: [] });
+    expect(comparison.sections).toEqual({ added: [], removed: [] });
+    expect(comparison.regressed).toBe(false);
+    expect(comparison.reasons).toEqual([]);
+    expect(Object.values(comparison.dimensions).every((dimension) => dimension.delta === 0)).toBe(
+      true
+    );
+  });
+
+  it('flags a score drop and new errors', async () => {
+    const comparison = await compareTemplates(CLEAN_TEMPLATE, POOR_TEMPLATE);
+    expect(comparison.score.delta).toBeLessThan(0);
+    expect(comparison.sections.removed).toEqual(['ROLE', 'CONTEXT', 'TASK', 'FORMAT']);
+    expect(comparison.violations.added.length).toBeGreaterThan(0);
+    expect(comparison.regressed).toBe(true);
+    expect(comparison.reasons[0]).toMatch(/^Score dropped by [\d.]+ points/);
+    expect(comparison.reasons[1]).toMatch(/new error\(s\): /);
+  });
+
+  it('allows a drop within maxRegression and counts resolved violations', async () => {
+    const comparison = await compareTemplates(POOR_TEMPLATE, CLEAN_TEMPLATE, {
+      maxRegression: 100,
+    });
+    expect(comparison.score.delta).toBeGreaterThan(0);
+    expect(comparison.violations.resolved.length).toBeGreaterThan(0);
+    expect(comparison.violations.added).toEqual([]);
+    expect(comparison.sections.added).toEqual(['ROLE', 'CONTEXT', 'TASK', 'FORMAT']);
+    expect(comparison.maxRegression).toBe(100);
+    expect(comparison.regressed).toBe(false);
+  });
+
+  it('diffs the variable contracts', async () => {
+    const withContract = (variables: string): string =>
+      `---\nvariables:\n${variables}\n---\n${CLEAN_TEMPLATE}`;
+    const comparison = await compareTemplates(
+      withContract('  code: string\n  lang:\n    default: TS\n  old: string'),
+      withContract('  code: number\n  lang: string\n  fresh: string')
+    );
+    expect(comparison.variables).toEqual({
+      added: ['fresh'],
+      removed: ['old'],
+      changed: [
+        { name: 'code', changes: ['type: "string" → "number"'] },
+        { name: 'lang', changes: ['required: false → true', 'default: "TS" → none'] },
+      ],
+    });
+  });
+});
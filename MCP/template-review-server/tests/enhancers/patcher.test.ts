@@ -0,0 +1,127 @@
+import { enhanceTemplate, runEnhancement } from '../../src/enhancers/optimizer.js';
+import {
+  EditConflictError,
+  TemplateEdit,
+  applyEdits,
+  applyEnhancementEdits,
+  createEnhancementPatch,
+} from '../../src/enhancers/patcher.js';
+
+const MOVED =
+  'ROLE: helper\nCONTEXT: ctx\nTASK: do\n* Be concise\nkeep going\n- Be concise\nFORMAT: text';
+
+/** Every subset of the edits, as bit masks over their indexes */
+const subsets = <T>(items: T[]): T[][] =>
+  Array.from({ length: 2 ** items.length }, (_unused, mask) =>
+    items.filter((_item, index) => mask & (1 << index))
+  );
+
+describe('createEnhancementPatch', () => {
+  it.each([
+    ['a moved line', MOVED],
+    ['mixed variables and a late role', 'TASK: review ${code} and [topic]\n\n\nrole: helper'],
+    ['unstructured text', 'just some text\nreview it'],
+    ['frontmatter', '---\ntitle: x\n---\nTASK: create a poem\n\n\n\n• one\n• one'],
+    ['markdown', '# Task\nDo it  \n\n## Format\nText'],
+    ['xml', '<task>\nDo it\n</task>'],
+  ])('describes %s as edits that reproduce the enhanced text', async (_name, content) => {
+    const patch = await createEnhancementPatch(content);
+    const { enhancedContent } = runEnhancement(content);
+    expect(applyEdits(content, patch.edits)).toBe(enhancedContent);
+    expect(patch.originalContent).toBe(content);
+    // Every subset applies without overlapping
+    subsets(patch.edits).forEach((selected) =>
+      expect(() => applyEdits(content, selected)).not.toThrow()
+    );
+  });
+
+  it('joins the edits that move a line so no subset loses or duplicates it', async () => {
+    const patch = await createEnhancementPatch(MOVED);
+    expect(patch.edits.map((edit) => [edit.id, edit.steps])).toEqual([
+      ['edit-1', ['improveFormatting']],
+      ['edit-2', ['improveFormatting']],
+      ['edit-3', ['improveFormatting', 'removeRedundancies']],
+    ]);
+    subsets(patch.edits).forEach((selected) => {
+      const text = applyEdits(MOVED, selected);
+      expect(text.match(/Be concise/g)).toHaveLength(
+        selected.some((edit) => edit.id === 'edit-3') ? 1 : 2
+      );
+      expect(text).toContain('keep going');
+    });
+  });
+
+  it('reports spans and a unified diff', async () => {
+    const patch = await createEnhancementPatch('TASK: review ${code}\n\n\nrole: helper');
+    expect(patch.diff).toMatch(/^--- original\n\+\+\+ enhanced\n@@ /);
+    expect(patch.edits[0]).toMatchObject({
+      id: 'edit-1',
+      step: 'formatTemplateVariables',
+      span: { start: { line: 1, column: 1, offset: 0 } },
+      replacement: 'TASK: review {{code}}',
+    });
+    expect(patch.changes).toContain(
+      'Normalized variable format to {{variableName}} style: ${code} → {{code}}'
+    );
+  });
+
+  it('deletes a trailing line together with its separator', async () => {
+    const content = 'ROLE: a\n\nCONTEXT: b\n\nTASK: c\n\nFORMAT: d\nsame\nsame';
+    const patch = await createEnhancementPatch(content);
+    expect(applyEdits(content, patch.edits)).toBe(
+      'ROLE: a\n\nCONTEXT: b\n\nTASK: c\n\nFORMAT: d\nsame'
+    );
+  });
+
+  it('has no edits for a template that needs none', async () => {
+    const content = 'ROLE: a\n\nCONTEXT: b\n\nTASK: c\n\nFORMAT: d';
+    const patch = await createEnhancementPatch(content);
+    expect(patch).toMatchObject({ edits: [], diff: '', changes: [] });
+    expect(await enhanceTemplate(content)).toEqual({
+      enhancedContent: content,
+      changes: [],
+      originalContent: content,
+    });
+  });
+});
+
+describe('applyEnhancementEdits', () => {
+  it('applies the edits selected by id or by step', async () => {
+    const byId = await applyEnhancementEdits(MOVED, { ids: ['edit-1'] });
+    expect(byId).toEqual({
+      content: MOVED.replace('helper\n', 'helper\n\n'),
+      applied: ['edit-1'],
+      skipped: ['edit-2', 'edit-3'],
+    });
+
+    const byStep = await applyEnhancementEdits(MOVED, { steps: ['removeRedundancies'] });
+    expect(byStep.applied).toEqual(['edit-3']);
+
+    const all = await applyEnhancementEdits(MOVED);
+    expect(all.content).toBe(runEnhancement(MOVED).enhancedContent);
+    expect(all.skipped).toEqual([]);
+  });
+});
+
+describe('applyEdits', () => {
+  const edit = (id: string, start: number, end: number, replacement: string): TemplateEdit => ({
+    id,
+    step: 'improveFormatting',
+    steps: ['improveFormatting'],
+    span: {
+      start: { line: 1, column: start + 1, offset: start },
+      end: { line: 1, column: end + 1, offset: end },
+    },
+    replacement,
+  });
+
+  it('applies edits in any order', () => {
+    expect(applyEdits('abcdef', [edit('b', 4, 5, 'E'), edit('a', 0, 1, 'A')])).toBe('AbcdEf');
+  });
+
+  it('refuses overlapping edits', () => {
+    expect(() => applyEdits('abcdef', [edit('a', 0, 3, ''), edit('b', 2, 4, '')])).toThrow(
+      new EditConflictError(edit('a', 0, 3, ''), edit('b', 2, 4, ''))
+    );
+  });
+});
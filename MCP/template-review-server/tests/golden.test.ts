@@ -0,0 +1,43 @@
+import { readFile, readdir } from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { renderReport } from '../src/reporters/format.js';
+import { findTool, runTool } from '../src/tools.js';
+
+// Each `<name>.fixtures.json` runs against the template `<name>.*` beside it, and its report
+// must match `<name>.expected.json` and, in the text format, `<name>.expected.txt`
+const FIXTURES_DIR = fileURLToPath(new URL('./fixtures', import.meta.url));
+
+const files = await readdir(FIXTURES_DIR);
+const fixtureSets = files
+  .filter((file) => file.endsWith('.fixtures.json'))
+  .map((file) => {
+    const name = file.slice(0, -'.fixtures.json'.length);
+    const template = files.find(
+      (other) => other.startsWith(`${name}.`) && !/\.(fixtures|expected)\./.test(other)
+    );
+    return { name, template };
+  });
+
+const read = (file: string): Promise<string> => readFile(path.join(FIXTURES_DIR, file), 'utf8');
+
+describe('test_template golden fixtures', () => {
+  it('finds the fixture sets', () => {
+    expect(fixtureSets.map(({ name }) => name).sort()).toEqual(['support-chat', 'triage']);
+  });
+
+  it.each(fixtureSets)('$name matches its expected report', async ({ name, template }) => {
+    if (!template) throw new Error(`No template for ${name}.fixtures.json`);
+    const input = {
+      ...JSON.parse(await read(`${name}.fixtures.json`)),
+      template: await read(template),
+      templatePath: template,
+    };
+
+    const result = await runTool('test_template', input);
+    expect(result).toEqual(JSON.parse(await read(`${name}.expected.json`)));
+
+    const findings = findTool('test_template')?.findings?.(input, result) ?? [];
+    expect(renderReport('text', findings)).toBe(await read(`${name}.expected.txt`));
+  });
+});
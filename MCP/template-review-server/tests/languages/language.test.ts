@@ -0,0 +1,89 @@
+import {
+  detectLanguage,
+  loadLanguages,
+  splitSentences,
+  termPattern,
+} from '../../src/languages/language.js';
+import { PluginError } from '../../src/plugins/loader.js';
+import { TemplatePlugin } from '../../src/plugins/types.js';
+import { GERMAN_TEMPLATE } from '../helpers.js';
+
+const loaded = (plugin: TemplatePlugin): Parameters<typeof loadLanguages>[0] => [
+  { plugin, options: {}, source: 'test-plugin.mjs' },
+];
+
+describe('detectLanguage', () => {
+  it('detects a bundled language by its stopwords', async () => {
+    const { report, lexicon } = detectLanguage(GERMAN_TEMPLATE, await loadLanguages());
+    expect(report).toMatchObject({ code: 'de', source: 'detected', hasLexicon: false });
+    expect(report.confidence).toBeGreaterThan(0);
+    expect(report.note).toMatch(/^No lexicon for German \(de\); ambiguous-language, /);
+    expect(lexicon).toBeUndefined();
+  });
+
+  it('assumes English for too little text', async () => {
+    const { report } = detectLanguage('Hi.', await loadLanguages());
+    expect(report).toMatchObject({
+      code: 'en',
+      source: 'default',
+      confidence: 0,
+      hasLexicon: true,
+      note: 'Too little text to detect the language; assuming English',
+    });
+  });
+
+  it('honors a configured language, even an unknown one', async () => {
+    const languages = await loadLanguages();
+    expect(detectLanguage(GERMAN_TEMPLATE, languages, 'EN').report).toMatchObject({
+      code: 'en',
+      source: 'configured',
+    });
+    expect(detectLanguage('x', languages, 'tlh').report).toMatchObject({
+      code: 'tlh',
+      name: 'tlh',
+      hasLexicon: false,
+      note: expect.stringMatching(/^No lexicon for tlh;/),
+    });
+  });
+});
+
+describe('loadLanguages', () => {
+  it('lets plugins add and replace languages', async () => {
+    const languages = await loadLanguages(
+      loaded({
+        name: 'nl',
+        languages: [{ code: 'NL', name: 'Dutch', stopwords: ['de', 'het', 'een', 'en'] }],
+      })
+    );
+    expect(languages.get('nl')?.name).toBe('Dutch');
+    expect(detectLanguage('de kat en het huis en een boom', languages).report.code).toBe('NL');
+  });
+
+  it('rejects an invalid plugin language', async () => {
+    const plugin = { name: 'bad', languages: [{ code: 'x' }] } as unknown as TemplatePlugin;
+    await expect(loadLanguages(loaded(plugin))).rejects.toThrow(PluginError);
+  });
+});
+
+describe('splitSentences', () => {
+  it('splits with the locale, falling back for invalid codes', () => {
+    expect(splitSentences('¿Qué? Sí.', 'es').map((sentence) => sentence.text)).toEqual([
+      '¿Qué? ',
+      'Sí.',
+    ]);
+    expect(splitSentences('One. Two.', 'not a locale!')).toEqual([
+      { text: 'One. ', index: 0 },
+      { text: 'Two.', index: 5 },
+    ]);
+  });
+});
+
+describe('termPattern', () => {
+  it('matches whole words, accents included, and flexible spaces', () => {
+    expect('mañana'.match(termPattern('mañana'))).toEqual(['mañana']);
+    expect('mañanas'.match(termPattern('mañana'))).toBeNull();
+    expect('you  must go'.match(termPattern('you must'))).toEqual(['you  must']);
+    expect('a.b'.match(termPattern('a.b'))).toEqual(['a.b']);
+    expect('axb'.match(termPattern('a.b'))).toBeNull();
+  });
+});
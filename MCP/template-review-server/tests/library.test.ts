@@ -0,0 +1,151 @@
+import { readdir } from 'fs/promises';
+import path from 'path';
+import {
+  LibraryError,
+  getLibraryPrompt,
+  listLibrary,
+  listLibraryPrompts,
+  readLibraryTemplate,
+} from '../src/library.js';
+import { RenderError } from '../src/renderers/render.js';
+import { CLEAN_TEMPLATE, createTempDir, removeTempDir } from './helpers.js';
+
+const CONTRACT_TEMPLATE = [
+  '---',
+  'description: Counts bugs',
+  'variables:',
+  '  code: string',
+  '  limit:',
+  '    type: number',
+  '    default: 3',
+  '---',
+  'TASK: List up to {{limit}} bugs in {{code}}.',
+].join('\n');
+
+const CHAT_TEMPLATE = '<|system|>\nYou review code.\n<|user|>\nReview {{code}}\n';
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await createTempDir({
+    '.template-review.json': JSON.stringify({
+      library: { paths: ['prompts'], cacheDir: '.cache', ignoreFile: 'library-ignore' },
+    }),
+    'library-ignore': 'drafts/\n',
+    'prompts/review.md': CLEAN_TEMPLATE,
+    'prompts/plain.md': 'ROLE: A helpful assistant.',
+    'prompts/count bugs.md': CONTRACT_TEMPLATE,
+    'prompts/chat/code.prompt': CHAT_TEMPLATE,
+    'prompts/broken.prompt': '[{"role": "robot", "content": "{{x}}"}]',
+    'prompts/drafts/wip.md': 'TASK: {{later}}',
+    'outside.md': CLEAN_TEMPLATE,
+  });
+});
+
+afterEach(() => removeTempDir(dir));
+
+describe('listLibrary', () => {
+  it('indexes the configured paths with metadata', async () => {
+    const templates = await listLibrary({ cwd: dir });
+    expect(templates.map((template) => [template.name, template.uri])).toEqual([
+      ['prompts/broken', 'template://prompts/broken.prompt'],
+      ['prompts/chat/code', 'template://prompts/chat/code.prompt'],
+      ['prompts/count bugs', 'template://prompts/count%20bugs.md'],
+      ['prompts/plain', 'template://prompts/plain.md'],
+      ['prompts/review', 'template://prompts/review.md'],
+    ]);
+
+    const review = templates[4];
+    expect(review.metadata).toMatchObject({
+      dialect: 'colon',
+      variables: [{ name: 'code', type: 'string', required: true }],
+      grade: expect.any(String),
+    });
+    expect(review.metadata.score).toBeGreaterThan(0);
+
+    const counted = templates[2];
+    expect(counted.description).toBe('Counts bugs');
+    expect(counted.metadata.variables.map((variable) => variable.name)).toEqual(['code', 'limit']);
+
+    expect(templates[0].metadata.error).toMatch(/^Invalid conversation template/);
+  });
+
+  it('writes analysis to the configured cache directory and reuses it', async () => {
+    const first = await listLibrary({ cwd: dir });
+    expect((await readdir(path.join(dir, '.cache'))).length).toBeGreaterThan(0);
+    const second = await listLibrary({ cwd: dir });
+    expect(second).toEqual(first);
+    expect(second[4]).toBe(first[4]);
+  });
+
+  it('is empty when no library paths are configured', async () => {
+    const empty = await createTempDir({ 'a.md': CLEAN_TEMPLATE });
+    try {
+      expect(await listLibrary({ cwd: empty })).toEqual([]);
+    } finally {
+      await removeTempDir(empty);
+    }
+  });
+});
+
+describe('readLibraryTemplate', () => {
+  it('reads a template by URI', async () => {
+    const { template, content } = await readLibraryTemplate('template://prompts/count%20bugs.md', {
+      cwd: dir,
+    });
+    expect(template.file).toBe('prompts/count bugs.md');
+    expect(content).toBe(CONTRACT_TEMPLATE);
+  });
+
+  it('rejects an unknown URI', async () => {
+    await expect(readLibraryTemplate('template://outside.md', { cwd: dir })).rejects.toThrow(
+      new LibraryError('Unknown template resource: template://outside.md')
+    );
+  });
+});
+
+describe('library prompts', () => {
+  it('lists only readable templates with variables', async () => {
+    const prompts = await listLibraryPrompts({ cwd: dir });
+    expect(prompts.map((prompt) => prompt.name)).toEqual([
+      'prompts/chat/code',
+      'prompts/count bugs',
+      'prompts/review',
+    ]);
+  });
+
+  it('renders a prompt with typed arguments and defaults', async () => {
+    const { messages } = await getLibraryPrompt(
+      'prompts/count bugs',
+      { code: 'x = 1' },
+      { cwd: dir }
+    );
+    expect(messages).toEqual([
+      { role: 'user', content: { type: 'text', text: 'TASK: List up to 3 bugs in x = 1.' } },
+    ]);
+
+    await expect(
+      getLibraryPrompt('prompts/count bugs', { code: 'x', limit: 'many' }, { cwd: dir })
+    ).rejects.toThrow(RenderError);
+    const { messages: numbered } = await getLibraryPrompt(
+      'prompts/count bugs',
+      { code: 'x', limit: '5' },
+      { cwd: dir }
+    );
+    expect(numbered[0].content.text).toBe('TASK: List up to 5 bugs in x.');
+  });
+
+  it('keeps conversation turns, with the system message as a user turn', async () => {
+    const { messages } = await getLibraryPrompt('prompts/chat/code', { code: 'f()' }, { cwd: dir });
+    expect(messages).toEqual([
+      { role: 'user', content: { type: 'text', text: 'You review code.' } },
+      { role: 'user', content: { type: 'text', text: 'Review f()' } },
+    ]);
+  });
+
+  it('rejects an unknown prompt', async () => {
+    await expect(getLibraryPrompt('prompts/plain', {}, { cwd: dir })).rejects.toThrow(
+      new LibraryError('Unknown prompt: prompts/plain')
+    );
+  });
+});
@@ -0,0 +1,209 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { PassThrough } from 'stream';
+import { pathToFileURL } from 'url';
+import { CodeAction, Diagnostic, ErrorCodes, Hover } from '../../src/lsp/protocol.js';
+import { startLanguageServer } from '../../src/lsp/server.js';
+import { JsonRpcMessage, readMessages, writeMessage } from '../../src/lsp/transport.js';
+import { TOOL_NAME } from '../../src/version.js';
+import { CLEAN_TEMPLATE, createTempDir, removeTempDir } from '../helpers.js';
+
+/** Drives the server over in-memory streams the way an editor would */
+class TestClient {
+  private readonly input = new PassThrough();
+  private readonly received: JsonRpcMessage[] = [];
+  private readonly waiters: (() => void)[] = [];
+  private nextId = 1;
+
+  constructor() {
+    const output = new PassThrough();
+    startLanguageServer(this.input, output);
+    readMessages(output, (message) => {
+      this.received.push(message);
+      this.waiters.splice(0).forEach((wake) => wake());
+    });
+  }
+
+  notify(method: string, params: unknown): void {
+    writeMessage(this.input, { jsonrpc: '2.0', method, params });
+  }
+
+  async request(method: string, params?: unknown): Promise<JsonRpcMessage> {
+    const id = this.nextId++;
+    writeMessage(this.input, { jsonrpc: '2.0', id, method, params });
+    return this.take((message) => message.id === id);
+  }
+
+  async diagnostics(uri: string): Promise<Diagnostic[]> {
+    const message = await this.take(
+      (candidate) =>
+        candidate.method === 'textDocument/publishDiagnostics' &&
+        (candidate.params as { uri: string }).uri === uri
+    );
+    return (message.params as { diagnostics: Diagnostic[] }).diagnostics;
+  }
+
+  /** Removes and returns the first message that matches, waiting for it if need be */
+  private async take(matches: (message: JsonRpcMessage) => boolean): Promise<JsonRpcMessage> {
+    for (;;) {
+      const index = this.received.findIndex(matches);
+      if (index !== -1) {
+        return this.received.splice(index, 1)[0];
+      }
+      await new Promise<void>((resolve) => this.waiters.push(resolve));
+    }
+  }
+}
+
+const URI = 'untitled:review';
+const FIXABLE = 'Role: a reviewer\n\nTask: check {{code}}\n\nFormat: a list';
+
+let client: TestClient;
+
+beforeEach(() => {
+  client = new TestClient();
+});
+
+describe('language server', () => {
+  it('answers initialize with its capabilities', async () => {
+    const response = await client.request('initialize', { capabilities: {} });
+    const { version } = JSON.parse(
+      await readFile(new URL('../../package.json', import.meta.url), 'utf8')
+    );
+    expect(response.result).toMatchObject({
+      capabilities: { hoverProvider: true, textDocumentSync: { openClose: true, change: 1 } },
+      serverInfo: { name: TOOL_NAME, version },
+    });
+    expect((await client.request('shutdown')).result).toBeNull();
+  });
+
+  it('publishes diagnostics on open, change and close', async () => {
+    client.notify('textDocument/didOpen', {
+      textDocument: { uri: URI, version: 1, text: FIXABLE },
+    });
+    const opened = await client.diagnostics(URI);
+    const sectionCase = opened.find((diagnostic) => diagnostic.code === 'section-case');
+    expect(sectionCase).toMatchObject({
+      source: TOOL_NAME,
+      range: { start: { line: 0, character: 0 }, end: { line: 0, character: 16 } },
+      data: { fixable: true },
+    });
+
+    client.notify('textDocument/didChange', {
+      textDocument: { uri: URI, version: 2 },
+      contentChanges: [{ text: `${CLEAN_TEMPLATE}\n` }],
+    });
+    const changed = await client.diagnostics(URI);
+    expect(changed.map((diagnostic) => diagnostic.code)).not.toContain('section-case');
+
+    client.notify('textDocument/didClose', { textDocument: { uri: URI } });
+    expect(await client.diagnostics(URI)).toEqual([]);
+    const response = await client.request('textDocument/hover', {
+      textDocument: { uri: URI },
+      position: { line: 0, character: 0 },
+    });
+    expect(response.error).toEqual({
+      code: ErrorCodes.InvalidParams,
+      message: `Document is not open: ${URI}`,
+    });
+  });
+
+  it('offers quick fixes, fix-all and enhancer rewrites', async () => {
+    client.notify('textDocument/didOpen', {
+      textDocument: { uri: URI, version: 1, text: FIXABLE },
+    });
+    const diagnostics = await client.diagnostics(URI);
+    const range = { start: { line: 0, character: 0 }, end: { line: 4, character: 0 } };
+
+    const response = await client.request('textDocument/codeAction', {
+      textDocument: { uri: URI },
+      range,
+      context: { diagnostics },
+    });
+    const actions = response.result as CodeAction[];
+    const quickFix = actions.find((action) => action.title === 'Fix all section-case problems');
+    expect(quickFix?.kind).toBe('quickfix');
+    expect(quickFix?.edit.changes[URI][0].newText).toBe(
+      'ROLE: a reviewer\n\nTASK: check {{code}}\n\nFORMAT: a list'
+    );
+    expect(actions.map((action) => action.kind)).toEqual(
+      expect.arrayContaining(['source.fixAll', 'refactor.rewrite'])
+    );
+
+    const only = await client.request('textDocument/codeAction', {
+      textDocument: { uri: URI },
+      range,
+      context: { diagnostics: [], only: ['source'] },
+    });
+    expect((only.result as CodeAction[]).map((action) => action.kind)).toEqual(['source.fixAll']);
+  });
+
+  it('explains the rules under the cursor', async () => {
+    client.notify('textDocument/didOpen', {
+      textDocument: { uri: URI, version: 1, text: FIXABLE },
+    });
+    await client.diagnostics(URI);
+
+    const response = await client.request('textDocument/hover', {
+      textDocument: { uri: URI },
+      position: { line: 0, character: 2 },
+    });
+    const hover = response.result as Hover;
+    expect(hover.contents.kind).toBe('markdown');
+    expect(hover.contents.value).toContain('**section-case**');
+    expect(hover.contents.value).toContain('Auto-fixable with the quick fix or `--fix`.');
+
+    const nothing = await client.request('textDocument/hover', {
+      textDocument: { uri: URI },
+      position: { line: 1, character: 0 },
+    });
+    expect(nothing.result).toBeNull();
+  });
+
+  it('rejects unknown methods', async () => {
+    const response = await client.request('workspace/symbol', {});
+    expect(response.error).toEqual({
+      code: ErrorCodes.MethodNotFound,
+      message: 'Unknown method: workspace/symbol',
+    });
+  });
+
+  describe('with a broken project config', () => {
+    let dir: string;
+
+    beforeAll(async () => {
+      dir = await createTempDir({ '.template-review.json': '{"rules": 1}', 'a.md': FIXABLE });
+    });
+
+    afterAll(() => removeTempDir(dir));
+
+    it('reports the config as a diagnostic and the request as invalid', async () => {
+      const uri = pathToFileURL(path.join(dir, 'a.md')).href;
+      client.notify('textDocument/didOpen', { textDocument: { uri, version: 1, text: FIXABLE } });
+      const [diagnostic] = await client.diagnostics(uri);
+      expect(diagnostic).toMatchObject({ code: 'review-error', severity: 1 });
+      expect(diagnostic.message).toMatch(/^Invalid rule config/);
+
+      const response = await client.request('textDocument/codeAction', {
+        textDocument: { uri },
+        range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } },
+        context: { diagnostics: [] },
+      });
+      expect(response.error?.code).toBe(ErrorCodes.InvalidParams);
+    });
+  });
+});
+
+describe('transport', () => {
+  it('skips malformed headers and bodies', () => {
+    const input = new PassThrough();
+    const messages: JsonRpcMessage[] = [];
+    readMessages(input, (message) => messages.push(message));
+    const body = JSON.stringify({ jsonrpc: '2.0', method: 'a' });
+    input.write('Bogus: 1\r\n\r\n');
+    input.write('Content-Length: 3\r\n\r\n{x}');
+    input.write(`Content-Length: ${body.length}\r\n\r\n${body.slice(0, 5)}`);
+    input.write(body.slice(5));
+    expect(messages).toEqual([{ jsonrpc: '2.0', method: 'a' }]);
+  });
+});
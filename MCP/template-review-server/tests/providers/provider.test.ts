@@ -0,0 +1,105 @@
+import { ProviderError, createProvider } from '../../src/providers/provider.js';
+
+const REQUEST = { messages: [{ role: 'user' as const, content: 'Hi' }], caseName: 'greet' };
+
+describe('stub provider', () => {
+  it('answers with the canned response or echoes the last message', async () => {
+    const provider = createProvider({ type: 'stub', responses: { greet: 'Hello' } });
+    expect(provider.name).toBe('stub');
+    expect(await provider.complete(REQUEST)).toBe('Hello');
+    expect(await provider.complete({ ...REQUEST, caseName: 'other' })).toBe('Hi');
+    expect(await createProvider().complete({ messages: [], caseName: 'x' })).toBe('');
+  });
+});
+
+describe('openai provider', () => {
+  const originalFetch = globalThis.fetch;
+  let calls: { url: string; init: RequestInit }[];
+
+  /** Replaces fetch with one that records the request and returns `respond()` */
+  const stubFetch = (respond: () => Response | Promise<Response>): void => {
+    calls = [];
+    globalThis.fetch = (async (url: string, init: RequestInit) => {
+      calls.push({ url, init });
+      return respond();
+    }) as typeof fetch;
+  };
+
+  const provider = (extra: Record<string, unknown> = {}): ReturnType<typeof createProvider> =>
+    createProvider({
+      type: 'openai',
+      baseUrl: 'http://localhost:11434/v1/',
+      model: 'llama',
+      ...extra,
+    });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    delete process.env.TEST_TEMPLATE_KEY;
+  });
+
+  it('posts the messages and returns the completion', async () => {
+    stubFetch(() => Response.json({ choices: [{ message: { content: 'Hello' } }] }));
+    process.env.TEST_TEMPLATE_KEY = 'secret';
+    const openai = provider({ apiKeyEnv: 'TEST_TEMPLATE_KEY', maxTokens: 50, temperature: 0.5 });
+    expect(openai.name).toBe('openai:llama');
+    expect(await openai.complete(REQUEST)).toBe('Hello');
+
+    const [{ url, init }] = calls;
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(init.headers).toEqual({
+      'Content-Type': 'application/json',
+      Authorization: 'Bearer secret',
+    });
+    expect(JSON.parse(init.body as string)).toEqual({
+      model: 'llama',
+      messages: REQUEST.messages,
+      temperature: 0.5,
+      max_tokens: 50,
+    });
+  });
+
+  it('sends no key and a zero temperature by default', async () => {
+    stubFetch(() => Response.json({ choices: [{ message: { content: '' } }] }));
+    expect(await provider().complete(REQUEST)).toBe('');
+    expect(calls[0].init.headers).toEqual({ 'Content-Type': 'application/json' });
+    expect(JSON.parse(calls[0].init.body as string)).toEqual({
+      model: 'llama',
+      messages: REQUEST.messages,
+      temperature: 0,
+    });
+  });
+
+  it('fails without the API key variable', async () => {
+    stubFetch(() => Response.json({}));
+    await expect(provider({ apiKeyEnv: 'TEST_TEMPLATE_KEY' }).complete(REQUEST)).rejects.toThrow(
+      new ProviderError('environment variable TEST_TEMPLATE_KEY is not set', 'openai:llama')
+    );
+    expect(calls).toEqual([]);
+  });
+
+  it.each([
+    [
+      'a network failure',
+      (): Response => {
+        throw new Error('connect ECONNREFUSED');
+      },
+      'case greet: connect ECONNREFUSED',
+    ],
+    [
+      'an HTTP error',
+      (): Response => new Response('model not found', { status: 404 }),
+      'case greet: HTTP 404 model not found',
+    ],
+    [
+      'a response without content',
+      (): Response => Response.json({ choices: [] }),
+      'case greet: response has no message content',
+    ],
+  ])('reports %s', async (_name, respond, message) => {
+    stubFetch(respond);
+    await expect(provider().complete(REQUEST)).rejects.toThrow(
+      new ProviderError(message, 'openai:llama')
+    );
+  });
+});
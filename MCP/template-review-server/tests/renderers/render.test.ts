@@ -0,0 +1,60 @@
+import { RenderError, formatValue, renderTemplate } from '../../src/renderers/render.js';
+
+const CONTRACT = [
+  '---',
+  'variables:',
+  '  code:',
+  '    type: string',
+  '  count:',
+  '    type: number',
+  '    default: 3',
+  '  strict:',
+  '    type: boolean',
+  '    required: false',
+  '---',
+  'Review {{code}}, list {{count}} bugs. Strict: {{strict}}',
+].join('\n');
+
+describe('renderTemplate', () => {
+  it('substitutes placeholders and reports unused values', async () => {
+    const result = await renderTemplate('Hi {{name}}, {{name}} again', { name: 'Ada', extra: 1 });
+    expect(result).toEqual({
+      content: 'Hi Ada, Ada again',
+      used: ['name'],
+      defaulted: [],
+      unused: ['extra'],
+    });
+  });
+
+  it('fills defaults, blanks optional values and drops frontmatter', async () => {
+    const result = await renderTemplate(CONTRACT, { code: 'x = 1' });
+    expect(result.content).toBe('Review x = 1, list 3 bugs. Strict: ');
+    expect(result.defaulted).toEqual(['count']);
+  });
+
+  it('collects every problem in one error', async () => {
+    const error = await renderTemplate(CONTRACT + ' {{other}}', { count: 'three' }).catch(
+      (caught: unknown) => caught
+    );
+    expect(error).toBeInstanceOf(RenderError);
+    expect((error as RenderError).problems).toEqual([
+      'missing value for required variable "code"',
+      'variable "count" must be a number',
+      'missing value for "other"',
+    ]);
+  });
+
+  it('rejects a broken contract', async () => {
+    await expect(
+      renderTemplate('---\nvariables:\n  code:\n    type: date\n---\n{{code}}', { code: 'x' })
+    ).rejects.toThrow(/variables\.code/);
+  });
+});
+
+describe('formatValue', () => {
+  it('keeps strings and serializes anything else', () => {
+    expect(formatValue('a')).toBe('a');
+    expect(formatValue([1, 2])).toBe('[1,2]');
+    expect(formatValue({ a: true })).toBe('{"a":true}');
+  });
+});
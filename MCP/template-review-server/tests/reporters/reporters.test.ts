@@ -0,0 +1,328 @@
+import { analyzeAll } from '../../src/analysis.js';
+import { analyzeTokens } from '../../src/analyzers/tokens.js';
+import { compareTemplates } from '../../src/compare.js';
+import { checkResponse } from '../../src/response-check.js';
+import {
+  FileFindings,
+  findingsFromAnalysis,
+  findingsFromBatch,
+  findingsFromComparison,
+  findingsFromDuplicates,
+  findingsFromResponseCheck,
+  findingsFromTestReport,
+  findingsFromTokens,
+  findingsFromValidation,
+  sortFindings,
+} from '../../src/reporters/findings.js';
+import {
+  REPORT_FORMATS,
+  hasErrors,
+  isReportFormat,
+  renderReport,
+} from '../../src/reporters/format.js';
+import { TOOL_VERSION } from '../../src/version.js';
+import { validateTemplate } from '../../src/validators/rules.js';
+import { CLEAN_TEMPLATE, GERMAN_TEMPLATE, POOR_TEMPLATE } from '../helpers.js';
+
+const FILES: FileFindings[] = [
+  {
+    file: 'prompts/a,b:c.md',
+    findings: [
+      {
+        rule: 'section-case',
+        message: 'Use "uppercase"\nheaders & <tags> at 100%',
+        severity: 'warning',
+        source: 'validator',
+        line: 3,
+        column: 2,
+      },
+      {
+        rule: 'required-sections',
+        message: 'Missing ROLE section',
+        severity: 'error',
+        source: 'validator',
+      },
+      { rule: 'hint', message: 'Consider examples', severity: 'info', source: 'patterns', line: 1 },
+    ],
+  },
+  { file: 'prompts/clean.md', findings: [] },
+];
+
+describe('report formats', () => {
+  it('knows its formats and error state', () => {
+    expect(REPORT_FORMATS.every(isReportFormat)).toBe(true);
+    expect(isReportFormat('xml')).toBe(false);
+    expect(hasErrors(FILES)).toBe(true);
+    expect(hasErrors([FILES[1]])).toBe(false);
+  });
+
+  it('renders text in reading order with a total', () => {
+    expect(renderReport('text', FILES)).toBe(
+      [
+        'prompts/a,b:c.md',
+        '  -        error   Missing ROLE section  [required-sections]',
+        '  1:1      info    Consider examples  [hint]',
+        '  3:2      warning Use "uppercase"\nheaders & <tags> at 100%  [section-case]',
+        '',
+        '2 file(s) checked, 1 clean: 1 error(s), 1 warning(s), 1 info',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('renders escaped GitHub annotations', () => {
+    expect(renderReport('github', FILES)).toBe(
+      [
+        '::error file=prompts/a%2Cb%3Ac.md,title=required-sections::Missing ROLE section',
+        '::notice file=prompts/a%2Cb%3Ac.md,line=1,title=hint::Consider examples',
+        '::warning file=prompts/a%2Cb%3Ac.md,line=3,col=2,title=section-case::Use "uppercase"%0Aheaders & <tags> at 100%25',
+        '',
+      ].join('\n')
+    );
+    expect(renderReport('github', [FILES[1]])).toBe('');
+  });
+
+  it('renders JUnit with one failing case per error or warning', () => {
+    const xml = renderReport('junit', FILES);
+    expect(xml).toContain('<testsuites name="template-review-server" tests="4" failures="2">');
+    expect(xml).toContain('<testsuite name="prompts/a,b:c.md" tests="3" failures="2">');
+    expect(xml).toContain(
+      '<failure message="Use &quot;uppercase&quot;\nheaders &amp; &lt;tags&gt; at 100%" type="warning">'
+    );
+    expect(xml).toContain('<testcase name="hint:1:1" classname="prompts/a,b:c.md">');
+    expect(xml).toContain('<system-out>Consider examples</system-out>');
+    expect(xml).toContain('<testcase name="template-review" classname="prompts/clean.md"/>');
+  });
+
+  it('renders a SARIF log', () => {
+    const log = JSON.parse(renderReport('sarif', FILES));
+    expect(log.version).toBe('2.1.0');
+    expect(log.runs[0].tool.driver).toMatchObject({
+      version: TOOL_VERSION,
+      rules: [{ id: 'hint' }, { id: 'required-sections' }, { id: 'section-case' }],
+    });
+    expect(log.runs[0].results[0]).toEqual({
+      ruleId: 'required-sections',
+      ruleIndex: 1,
+      level: 'error',
+      message: { text: 'Missing ROLE section' },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: 'prompts/a,b:c.md' },
+            region: { startLine: 1, startColumn: 1 },
+          },
+        },
+      ],
+    });
+    expect(log.runs[0].results[1].level).toBe('note');
+  });
+});
+
+describe('findings', () => {
+  it('sorts by line, then column', () => {
+    expect(sortFindings(FILES[0].findings).map((finding) => finding.rule)).toEqual([
+      'required-sections',
+      'hint',
+      'section-case',
+    ]);
+  });
+
+  it('converts validation results', async () => {
+    const result = await validateTemplate('Role: x');
+    expect(findingsFromValidation(result)).toEqual(
+      expect.arrayContaining([
+        {
+          rule: 'section-case',
+          message: expect.any(String),
+          severity: 'warning',
+          source: 'validator',
+          line: 1,
+          column: 1,
+        },
+      ])
+    );
+  });
+
+  it('adds a score finding for a failing analysis', async () => {
+    const findings = findingsFromAnalysis(await analyzeAll(POOR_TEMPLATE));
+    expect(findings).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ rule: 'score-threshold', severity: 'error', source: 'score' }),
+      ])
+    );
+    expect(findingsFromAnalysis(await analyzeAll(CLEAN_TEMPLATE))).not.toEqual(
+      expect.arrayContaining([expect.objectContaining({ rule: 'score-threshold' })])
+    );
+  });
+
+  it('notes when the language has no lexicon', async () => {
+    const findings = findingsFromAnalysis(await analyzeAll(GERMAN_TEMPLATE));
+    expect(findings).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ rule: 'language-support', severity: 'info', source: 'language' }),
+      ])
+    );
+  });
+
+  it('reports token budgets only when exceeded', async () => {
+    const over = await analyzeTokens(CLEAN_TEMPLATE, { family: 'claude', budget: 5 });
+    expect(findingsFromTokens(over)).toEqual([
+      expect.objectContaining({
+        rule: 'token-budget',
+        message: expect.stringMatching(/over the budget of 5\. Largest section: /),
+        line: expect.any(Number),
+      }),
+    ]);
+    const under = await analyzeTokens(CLEAN_TEMPLATE, { family: 'claude', budget: 5000 });
+    expect(findingsFromTokens(under)).toEqual([]);
+  });
+
+  it('reports new violations and the regression', async () => {
+    const comparison = await compareTemplates(CLEAN_TEMPLATE, 'Task: do it');
+    const findings = findingsFromComparison(comparison);
+    expect(findings[0].message).toMatch(/^New: /);
+    expect(findings[findings.length - 1]).toEqual({
+      rule: 'regression',
+      message: `Regressed: ${comparison.reasons.join('; ')}`,
+      severity: 'error',
+      source: 'compare',
+    });
+    expect(findingsFromComparison(await compareTemplates(CLEAN_TEMPLATE, CLEAN_TEMPLATE))).toEqual(
+      []
+    );
+  });
+
+  it('converts pattern matches', async () => {
+    expect(findingsFromAnalysis(await analyzeAll(POOR_TEMPLATE))).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ severity: 'error', source: 'patterns', line: 1 }),
+      ])
+    );
+  });
+
+  it('reports failed test cases', () => {
+    const findings = findingsFromTestReport({
+      provider: 'stub',
+      passed: false,
+      summary: { total: 3, passed: 1, failed: 2 },
+      cases: [
+        { name: 'ok', passed: true, assertions: [{ type: 'contains', passed: true }] },
+        { name: 'render', passed: false, error: 'missing {{x}}', assertions: [] },
+        {
+          name: 'answer',
+          passed: false,
+          assertions: [
+            { type: 'contains', passed: false, message: 'does not contain "yes"' },
+            { type: 'regex', passed: true },
+          ],
+        },
+      ],
+    });
+    expect(findings).toEqual([
+      { rule: 'test-error', message: 'render: missing {{x}}', severity: 'error', source: 'test' },
+      {
+        rule: 'test-contains',
+        message: 'answer: does not contain "yes"',
+        severity: 'error',
+        source: 'test',
+      },
+    ]);
+  });
+
+  it('reports response problems', async () => {
+    const check = await checkResponse(
+      CLEAN_TEMPLATE.replace('A numbered list with one bug per line.', 'Respond in JSON.'),
+      'not json'
+    );
+    expect(findingsFromResponseCheck(check)).toEqual([
+      expect.objectContaining({ severity: 'error', source: 'response' }),
+    ]);
+  });
+
+  it('reports batch results per file', () => {
+    const files = findingsFromBatch({
+      files: [{ file: 'broken.md', error: 'EACCES' }],
+      summary: {
+        fileCount: 1,
+        reviewedCount: 0,
+        validCount: 0,
+        failedFiles: ['broken.md'],
+        averageScores: {
+          overall: 0,
+          content: 0,
+          patterns: 0,
+          security: 0,
+          clarity: 0,
+          conciseness: 0,
+          consistency: 0,
+        },
+        ruleHits: {},
+        worstOffenders: [],
+      },
+    });
+    expect(files).toEqual([
+      {
+        file: 'broken.md',
+        findings: [
+          { rule: 'read-error', message: 'EACCES', severity: 'error', source: 'validator' },
+        ],
+      },
+    ]);
+  });
+
+  it('reports duplicate copies and paragraphs', () => {
+    const files = findingsFromDuplicates({
+      fileCount: 3,
+      threshold: 0.8,
+      groups: [
+        {
+          canonical: 'a.md',
+          reason: 'highest score',
+          copies: [
+            { file: 'b.md', similarity: 1, identical: true, divergences: [], diff: '' },
+            {
+              file: 'c.md',
+              similarity: 0.876,
+              identical: false,
+              divergences: [{ canonical: { line: 2, count: 1 }, copy: { line: 4, count: 2 } }],
+              diff: '',
+            },
+          ],
+        },
+      ],
+      paragraphs: [
+        {
+          similarity: 0.9,
+          preview: 'Be brief',
+          locations: [
+            { file: 'a.md', line: 1 },
+            { file: 'c.md', line: 9 },
+          ],
+        },
+      ],
+    });
+    expect(files).toEqual([
+      {
+        file: 'b.md',
+        findings: [expect.objectContaining({ message: 'Identical copy of a.md', line: undefined })],
+      },
+      {
+        file: 'c.md',
+        findings: [
+          expect.objectContaining({
+            rule: 'near-duplicate',
+            message: '88% similar to a.md, diverging in 1 place(s); merge into a.md',
+            line: 4,
+          }),
+          expect.objectContaining({
+            rule: 'duplicate-paragraph',
+            message: 'Paragraph repeats a.md:1 (90% similar)',
+            severity: 'info',
+            line: 9,
+          }),
+        ],
+      },
+    ]);
+  });
+});
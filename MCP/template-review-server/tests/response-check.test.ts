@@ -0,0 +1,51 @@
+import { checkResponse } from '../src/response-check.js';
+
+const TEMPLATE = 'TASK: Summarize {{text}}.\n\nFORMAT: A bulleted list of at most 2 items.';
+
+describe('checkResponse', () => {
+  it('returns only the contract without a response', async () => {
+    const result = await checkResponse(TEMPLATE, undefined);
+    expect(result).toEqual({
+      contract: {
+        hasFormatSection: true,
+        line: 3,
+        format: 'list',
+        sections: [],
+        limits: { maxItems: 2 },
+      },
+      problems: [],
+    });
+  });
+
+  it('passes or fails the response on errors', async () => {
+    expect((await checkResponse(TEMPLATE, '- a\n- b')).passed).toBe(true);
+    const failed = await checkResponse(TEMPLATE, '- a\n- b\n- c');
+    expect(failed.passed).toBe(false);
+    expect(failed.problems.map((problem) => problem.rule)).toEqual(['response-length']);
+  });
+
+  it('warns when the template has no contract', async () => {
+    const result = await checkResponse('TASK: Anything.', 'text');
+    expect(result.passed).toBe(true);
+    expect(result.problems).toEqual([
+      {
+        rule: 'response-contract',
+        message: 'Template has no FORMAT section, so there is no contract to check against',
+        severity: 'warning',
+      },
+    ]);
+  });
+
+  it('reads the contract from the system message of a conversation', async () => {
+    const conversation = JSON.stringify([
+      { role: 'system', content: 'FORMAT: Reply in JSON.' },
+      { role: 'user', content: '{{question}}' },
+    ]);
+    const result = await checkResponse(conversation, 'not json');
+    expect(result.contract.format).toBe('json');
+    expect(result.passed).toBe(false);
+
+    const noSystem = JSON.stringify([{ role: 'user', content: 'FORMAT: JSON' }]);
+    expect((await checkResponse(noSystem, undefined)).contract.hasFormatSection).toBe(false);
+  });
+});
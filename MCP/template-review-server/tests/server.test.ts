@@ -0,0 +1,114 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { createServer } from '../src/server.js';
+import { CLEAN_TEMPLATE, createTempDir, removeTempDir } from './helpers.js';
+
+const cwd = process.cwd();
+let dir: string;
+let client: Client;
+
+beforeAll(async () => {
+  dir = await createTempDir({
+    '.template-review.json': JSON.stringify({ library: { paths: ['prompts'] } }),
+    'prompts/review.md': `---\ndescription: Reviews code\n---\n${CLEAN_TEMPLATE}`,
+    'prompts/plain.xml': '<role>A helpful assistant.</role>',
+    'prompts/greet.txt': 'Greet {{name}}',
+  });
+  // The library is read relative to the working directory, as when a client starts the server
+  process.chdir(dir);
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  client = new Client({ name: 'test', version: '1.0.0' }, { capabilities: {} });
+  await createServer().connect(serverTransport);
+  await client.connect(clientTransport);
+});
+
+afterAll(async () => {
+  await client.close();
+  process.chdir(cwd);
+  await removeTempDir(dir);
+});
+
+/** The JSON-RPC error code a request failed with */
+async function errorCodeOf(request: Promise<unknown>): Promise<unknown> {
+  return request.then(
+    () => undefined,
+    (error: { code?: unknown }) => error.code
+  );
+}
+
+describe('MCP server', () => {
+  it('lists every tool with an object input schema', async () => {
+    const { tools } = await client.listTools();
+    expect(tools.map((tool) => tool.name)).toContain('validate_template');
+    expect(tools.every((tool) => tool.inputSchema.type === 'object')).toBe(true);
+    const validate = tools.find((tool) => tool.name === 'validate_template');
+    expect(validate?.inputSchema).toMatchObject({ required: ['template'] });
+    expect(validate?.inputSchema).not.toHaveProperty('$schema');
+  });
+
+  it('returns tool results as JSON text', async () => {
+    const result = await client.callTool({
+      name: 'render_template',
+      arguments: { template: 'Hi {{n}}', variables: { n: 'Ada' } },
+    });
+    const [content] = result.content as { type: string; text: string }[];
+    expect(JSON.parse(content.text)).toMatchObject({ content: 'Hi Ada' });
+  });
+
+  it('maps tool failures to JSON-RPC errors', async () => {
+    expect(await errorCodeOf(client.callTool({ name: 'nope', arguments: {} }))).toBe(
+      ErrorCode.MethodNotFound
+    );
+    expect(await errorCodeOf(client.callTool({ name: 'validate_template', arguments: {} }))).toBe(
+      ErrorCode.InvalidParams
+    );
+    expect(
+      await errorCodeOf(
+        client.callTool({ name: 'render_template', arguments: { template: '{{missing}}' } })
+      )
+    ).toBe(ErrorCode.InvalidParams);
+    expect(
+      await errorCodeOf(
+        client.callTool({ name: 'review_templates', arguments: { paths: ['none/*.md'] } })
+      )
+    ).toBe(ErrorCode.InvalidParams);
+  });
+
+  it('exposes the library as resources', async () => {
+    const { resources } = await client.listResources();
+    expect(resources.map((resource) => [resource.uri, resource.mimeType])).toEqual([
+      ['template://prompts/greet.txt', 'text/plain'],
+      ['template://prompts/plain.xml', 'application/xml'],
+      ['template://prompts/review.md', 'text/markdown'],
+    ]);
+    expect(resources[2].description).toBe('Reviews code');
+    expect(resources[0].description).toMatch(
+      /^colon template, 1 variable\(s\), score [\d.]+ \(\w\)$/
+    );
+
+    const { contents } = await client.readResource({ uri: 'template://prompts/greet.txt' });
+    expect(contents).toMatchObject([
+      { uri: 'template://prompts/greet.txt', text: 'Greet {{name}}' },
+    ]);
+    expect(await errorCodeOf(client.readResource({ uri: 'template://none.md' }))).toBe(
+      ErrorCode.InvalidParams
+    );
+  });
+
+  it('exposes templates with variables as prompts', async () => {
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map((prompt) => prompt.name)).toEqual(['prompts/greet', 'prompts/review']);
+    expect(prompts[0].arguments).toEqual([{ name: 'name', required: true }]);
+
+    const { messages } = await client.getPrompt({
+      name: 'prompts/greet',
+      arguments: { name: 'Ada' },
+    });
+    expect(messages).toEqual([{ role: 'user', content: { type: 'text', text: 'Greet Ada' } }]);
+    expect(await errorCodeOf(client.getPrompt({ name: 'prompts/greet' }))).toBe(
+      ErrorCode.InvalidParams
+    );
+  });
+});
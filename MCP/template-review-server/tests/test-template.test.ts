@@ -0,0 +1,109 @@
+import { testTemplate } from '../src/test-template.js';
+import { TestAssertion } from '../src/validators/schema.js';
+
+/** Runs a single case whose stub output is `output` and returns its assertion results */
+async function check(
+  output: string,
+  assert: TestAssertion[]
+): Promise<{ passed: boolean; message?: string }[]> {
+  const report = await testTemplate('Anything', [{ name: 'case', assert }], {
+    type: 'stub',
+    responses: { case: output },
+  });
+  return report.cases[0].assertions.map(({ passed, message }) =>
+    message === undefined ? { passed } : { passed, message }
+  );
+}
+
+describe('testTemplate', () => {
+  it('sends the rendered template and summarizes the cases', async () => {
+    const report = await testTemplate('Greet {{name}}', [
+      { name: 'ada', variables: { name: 'Ada' }, assert: [{ type: 'contains', value: 'Ada' }] },
+      { name: 'bob', variables: { name: 'Bob' }, assert: [{ type: 'contains', value: 'Ada' }] },
+    ]);
+    expect(report.provider).toBe('stub');
+    expect(report.passed).toBe(false);
+    expect(report.summary).toEqual({ total: 2, passed: 1, failed: 1 });
+    expect(report.cases[0]).toEqual({
+      name: 'ada',
+      passed: true,
+      output: 'Greet Ada',
+      assertions: [{ type: 'contains', passed: true }],
+    });
+    expect(report.cases[1].assertions).toEqual([
+      { type: 'contains', passed: false, message: 'output does not contain "Ada"' },
+    ]);
+  });
+
+  it('appends the input as the user message', async () => {
+    const report = await testTemplate('You are terse.', [
+      { name: 'q', input: 'What is 2 + 2?', assert: [{ type: 'contains', value: '2 + 2' }] },
+    ]);
+    expect(report.cases[0].output).toBe('What is 2 + 2?');
+  });
+
+  it('renders each turn of a conversation template', async () => {
+    const conversation = JSON.stringify([
+      { role: 'system', content: 'Be brief.' },
+      { role: 'user', content: 'Translate "{{text}}"' },
+    ]);
+    const report = await testTemplate(conversation, [
+      { name: 'quote', variables: { text: 'a "b"' }, assert: [{ type: 'max-length', value: 50 }] },
+    ]);
+    expect(report.cases[0].output).toBe('Translate "a "b""');
+  });
+
+  it('fails a case whose template does not render', async () => {
+    const missing = await testTemplate('Hi {{name}}', [
+      { name: 'missing', assert: [{ type: 'contains', value: 'Hi' }] },
+    ]);
+    expect(missing.cases[0]).toMatchObject({ passed: false, assertions: [] });
+    expect(missing.cases[0].error).toMatch(/name/);
+
+    const broken = await testTemplate('[{"role": "user", "content": {{value}}}]', [
+      { name: 'broken', variables: { value: 'oops' }, assert: [{ type: 'contains', value: 'x' }] },
+    ]);
+    expect(broken.cases[0].error).toBe(
+      'Invalid conversation template: the rendered template is not a valid JSON message array'
+    );
+  });
+
+  it('checks contains and regex assertions', async () => {
+    expect(
+      await check('Hello World', [
+        { type: 'contains', value: 'hello', ignoreCase: true },
+        { type: 'contains', value: 'hello' },
+        { type: 'regex', pattern: '^hello', flags: 'i' },
+        { type: 'regex', pattern: '\\d+' },
+        { type: 'regex', pattern: '(' },
+      ])
+    ).toEqual([
+      { passed: true },
+      { passed: false, message: 'output does not contain "hello"' },
+      { passed: true },
+      { passed: false, message: 'output does not match /\\d+/' },
+      { passed: false, message: expect.stringMatching(/^Invalid regular expression/) },
+    ]);
+  });
+
+  it('checks json-schema and max-length assertions', async () => {
+    const schema = { type: 'object' as const, required: ['answer'] };
+    expect(
+      await check('```json\n{"answer": 4}\n```', [
+        { type: 'json-schema', schema },
+        { type: 'max-length', value: 4, unit: 'words' },
+        { type: 'max-length', value: 10 },
+      ])
+    ).toEqual([
+      { passed: true },
+      { passed: true },
+      { passed: false, message: 'output has 25 characters; at most 10 allowed' },
+    ]);
+    expect(await check('{}', [{ type: 'json-schema', schema }])).toEqual([
+      { passed: false, message: expect.stringMatching(/answer/) },
+    ]);
+    expect(await check('four', [{ type: 'json-schema', schema }])).toEqual([
+      { passed: false, message: 'output is not valid JSON' },
+    ]);
+  });
+});
@@ -0,0 +1,50 @@
+import { readFile, readdir } from 'fs/promises';
+import { getEncoding, TiktokenEncoding } from 'js-tiktoken';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { TokenizerFamily } from '../../src/tokenizers/families.js';
+import { countTokens, loadTokenizerTable } from '../../src/tokenizers/tokenizer.js';
+
+// The repository's own prompt files, the kind of text the estimates are meant for
+const REPO_ROOT = fileURLToPath(new URL('../../../..', import.meta.url));
+const PROMPT_DIRS = ['Claude', 'Cline', 'Kiro', 'SubAgents'];
+
+// Shorter files round too coarsely to compare relative error
+const MIN_TOKENS = 500;
+
+async function readPrompts(): Promise<{ file: string; text: string }[]> {
+  const prompts: { file: string; text: string }[] = [];
+  for (const dir of PROMPT_DIRS) {
+    const entries = await readdir(path.join(REPO_ROOT, dir), { recursive: true });
+    for (const entry of entries.sort()) {
+      if (/\.(md|xml)$/.test(entry)) {
+        const file = path.join(dir, entry);
+        prompts.push({ file, text: await readFile(path.join(REPO_ROOT, file), 'utf8') });
+      }
+    }
+  }
+  return prompts;
+}
+
+describe('countTokens', () => {
+  it.each<[TokenizerFamily, TiktokenEncoding]>([
+    ['gpt-4', 'cl100k_base'],
+    ['gpt-4o', 'o200k_base'],
+  ])('stays close to the real %s encoder (%s)', async (family, encoding) => {
+    const table = await loadTokenizerTable(family);
+    const encoder = getEncoding(encoding);
+    const errors: { file: string; error: number }[] = [];
+    for (const { file, text } of await readPrompts()) {
+      const actual = encoder.encode(text).length;
+      if (actual >= MIN_TOKENS) {
+        errors.push({ file, error: (countTokens(text, table) - actual) / actual });
+      }
+    }
+
+    // The README promises estimates within 10% and about 3% off on average
+    expect(errors.length).toBeGreaterThanOrEqual(10);
+    const mean = errors.reduce((sum, { error }) => sum + Math.abs(error), 0) / errors.length;
+    expect(mean).toBeLessThan(0.05);
+    expect(errors.filter(({ error }) => Math.abs(error) >= 0.1)).toEqual([]);
+  });
+});
@@ -0,0 +1,150 @@
+import { TemplateComparison } from '../src/compare.js';
+import { EnhancementPatch } from '../src/enhancers/patcher.js';
+import { TestReport } from '../src/test-template.js';
+import { TOOLS, ToolInputError, UnknownToolError, findTool, runTool } from '../src/tools.js';
+import { FixResult } from '../src/validators/rules.js';
+import { CLEAN_TEMPLATE, POOR_TEMPLATE, createTempDir, removeTempDir } from './helpers.js';
+
+/** Runs a tool and converts its result to findings, as the CLI does */
+async function runWithFindings(
+  name: string,
+  args: Record<string, unknown>
+): Promise<{ result: unknown; files: string[]; fails: boolean }> {
+  const tool = findTool(name);
+  if (!tool?.findings) throw new Error(`${name} has no findings`);
+  const result = await runTool(name, args);
+  return {
+    result,
+    files: tool.findings(args, result).map((file) => file.file),
+    fails: tool.fails?.(result) ?? false,
+  };
+}
+
+describe('runTool', () => {
+  it('rejects unknown tools and invalid arguments', async () => {
+    await expect(runTool('nope', {})).rejects.toThrow(new UnknownToolError('nope'));
+    await expect(runTool('validate_template', {})).rejects.toThrow(
+      new ToolInputError('template: expected a string containing the template text')
+    );
+    await expect(runTool('review_templates', { paths: [] })).rejects.toThrow(ToolInputError);
+  });
+
+  it('registers each tool once', () => {
+    const names = TOOLS.map((tool) => tool.name);
+    expect(new Set(names).size).toBe(names.length);
+    expect(findTool('analyze_template')?.name).toBe('analyze_template');
+  });
+
+  it('analyzes a template', async () => {
+    const { result, files } = await runWithFindings('analyze_template', {
+      template: CLEAN_TEMPLATE,
+      metadata: { version: '1' },
+    });
+    expect(result).toMatchObject({ score: { passing: true } });
+    expect(files).toEqual(['template']);
+  });
+
+  it('enhances in full and patch modes and applies selected edits', async () => {
+    const full = await runTool('enhance_template', { template: 'Do {{x}}' });
+    expect(full).toMatchObject({
+      originalContent: 'Do {{x}}',
+      enhancedContent: expect.any(String),
+    });
+
+    const patch = (await runTool('enhance_template', {
+      template: 'Do {{x}}',
+      mode: 'patch',
+    })) as EnhancementPatch;
+    expect(patch.edits.length).toBeGreaterThan(0);
+    const applied = await runTool('apply_template_edits', {
+      template: 'Do {{x}}',
+      ids: [patch.edits[0].id],
+    });
+    expect(applied).toMatchObject({ applied: [patch.edits[0].id] });
+  });
+
+  it('validates and fixes', async () => {
+    const validated = await runWithFindings('validate_template', {
+      template: CLEAN_TEMPLATE,
+      templatePath: 'prompts/review.md',
+    });
+    expect(validated.result).toMatchObject({ isValid: true, violations: [] });
+    expect(validated.files).toEqual(['prompts/review.md']);
+
+    const fixed = (await runTool('validate_template', {
+      template: 'Role: a\n\nTask: b {{c}}',
+      fix: true,
+    })) as FixResult;
+    expect(fixed.content).toBe('ROLE: a\n\nTASK: b {{c}}');
+  });
+
+  it('renders a template', async () => {
+    expect(await runTool('render_template', { template: 'Hi {{n}}', variables: { n: 1 } })).toEqual(
+      { content: 'Hi 1', used: ['n'], defaulted: [], unused: [] }
+    );
+  });
+
+  it('counts tokens against a budget', async () => {
+    const { result } = await runWithFindings('count_tokens', {
+      template: CLEAN_TEMPLATE,
+      family: 'gpt-4o',
+      budget: 5,
+      variables: { code: 'const x = 1;' },
+    });
+    expect(result).toMatchObject({ family: 'gpt-4o', budget: 5, overBudget: true });
+  });
+
+  it('compares versions and fails on a regression', async () => {
+    const { result, fails } = await runWithFindings('compare_template', {
+      oldTemplate: CLEAN_TEMPLATE,
+      newTemplate: POOR_TEMPLATE,
+    });
+    expect((result as TemplateComparison).regressed).toBe(true);
+    expect(fails).toBe(true);
+  });
+
+  it('checks a response', async () => {
+    const { result, files } = await runWithFindings('check_response', {
+      template: 'FORMAT: JSON',
+      response: '{}',
+      responsePath: 'out.json',
+    });
+    expect(result).toMatchObject({ passed: true });
+    expect(files).toEqual(['out.json']);
+  });
+
+  it('tests a template with the stub provider', async () => {
+    const { result, fails } = await runWithFindings('test_template', {
+      template: 'Say {{word}}',
+      cases: [
+        { name: 'echo', variables: { word: 'hi' }, assert: [{ type: 'contains', value: 'hi' }] },
+      ],
+    });
+    expect((result as TestReport).passed).toBe(true);
+    expect(fails).toBe(false);
+  });
+
+  describe('over files', () => {
+    let dir: string;
+
+    beforeAll(async () => {
+      dir = await createTempDir({ 'a.md': CLEAN_TEMPLATE, 'b.md': CLEAN_TEMPLATE });
+    });
+
+    afterAll(() => removeTempDir(dir));
+
+    it('reviews templates', async () => {
+      const { files } = await runWithFindings('review_templates', { paths: ['*.md'], cwd: dir });
+      expect(files).toEqual(['a.md', 'b.md']);
+    });
+
+    it('finds duplicates', async () => {
+      const { result, files } = await runWithFindings('find_duplicates', {
+        paths: ['.'],
+        cwd: dir,
+      });
+      expect(result).toMatchObject({ fileCount: 2, groups: [{ copies: [{ identical: true }] }] });
+      expect(files.length).toBeGreaterThan(0);
+    });
+  });
+});
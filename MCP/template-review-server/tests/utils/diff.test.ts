@@ -0,0 +1,108 @@
+import { createUnifiedDiff, diffHunks, diffLines } from '../../src/utils/diff.js';
+
+/** Lines in common, as found by the classic quadratic LCS table */
+const lcsLength = (a: string[], b: string[]): number => {
+  const table = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i][j] =
+        a[i] === b[j] ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+  return table[0][0];
+};
+
+/** Small deterministic generator, so failures reproduce */
+const random = (seed: number): (() => number) => {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+};
+
+describe('diffLines', () => {
+  it('keeps common lines and marks the rest', () => {
+    expect(diffLines(['a', 'b', 'c'], ['a', 'x', 'c'])).toEqual([
+      { type: 'equal', line: 'a', oldIndex: 0, newIndex: 0 },
+      { type: 'delete', line: 'b', oldIndex: 1 },
+      { type: 'insert', line: 'x', newIndex: 1 },
+      { type: 'equal', line: 'c', oldIndex: 2, newIndex: 2 },
+    ]);
+  });
+
+  it('handles empty sides', () => {
+    expect(diffLines([], [])).toEqual([]);
+    expect(diffLines([], ['a']).map((op) => op.type)).toEqual(['insert']);
+    expect(diffLines(['a'], []).map((op) => op.type)).toEqual(['delete']);
+  });
+
+  it('finds a shortest edit script', () => {
+    const next = random(7);
+    for (let run = 0; run < 300; run++) {
+      const a = Array.from(
+        { length: Math.floor(next() * 12) },
+        () => 'abc'[Math.floor(next() * 3)]
+      );
+      const b = Array.from(
+        { length: Math.floor(next() * 12) },
+        () => 'abc'[Math.floor(next() * 3)]
+      );
+      const ops = diffLines(a, b);
+      expect(ops.filter((op) => op.type !== 'insert').map((op) => op.line)).toEqual(a);
+      expect(ops.filter((op) => op.type !== 'delete').map((op) => op.line)).toEqual(b);
+      expect(ops.filter((op) => op.type === 'equal')).toHaveLength(lcsLength(a, b));
+    }
+  });
+
+  it('stays fast on long inputs with scattered changes', () => {
+    const a = Array.from({ length: 50000 }, (_unused, index) => `line ${index}`);
+    const b = a.map((line, index) => (index % 1000 === 0 ? `${line} changed` : line));
+    const started = Date.now();
+    const ops = diffLines(a, b);
+    expect(Date.now() - started).toBeLessThan(5000);
+    expect(ops.filter((op) => op.type === 'delete')).toHaveLength(50);
+  });
+});
+
+describe('diffHunks', () => {
+  it('groups consecutive changes', () => {
+    expect(diffHunks(['a', 'b', 'c', 'd'], ['a', 'x', 'y', 'c'])).toEqual([
+      { oldStart: 1, oldEnd: 2, newStart: 1, newEnd: 3 },
+      { oldStart: 3, oldEnd: 4, newStart: 4, newEnd: 4 },
+    ]);
+  });
+});
+
+describe('createUnifiedDiff', () => {
+  it('is empty for equal texts', () => {
+    expect(createUnifiedDiff('a\nb', 'a\nb')).toBe('');
+  });
+
+  it('renders hunks with context and custom names', () => {
+    const before = Array.from({ length: 12 }, (_unused, index) => `${index}`).join('\n');
+    const after = before.replace('1\n', '').replace('10', 'ten');
+    expect(createUnifiedDiff(before, after, { fromFile: 'a', toFile: 'b', context: 1 })).toBe(
+      [
+        '--- a',
+        '+++ b',
+        '@@ -1,3 +1,2 @@',
+        ' 0',
+        '-1',
+        ' 2',
+        '@@ -10,3 +9,3 @@',
+        ' 9',
+        '-10',
+        '+ten',
+        ' 11',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('points an empty range at the line before it', () => {
+    expect(createUnifiedDiff('a', 'a\nb', { context: 0 })).toBe(
+      '--- original\n+++ enhanced\n@@ -1,0 +2 @@\n+b\n'
+    );
+  });
+});
@@ -0,0 +1,128 @@
+import path from 'path';
+import { PathMatchError, expandPaths, globToRegExp, hasGlobMagic } from '../../src/utils/glob.js';
+import { createIgnoreMatcher, loadIgnoreMatcher } from '../../src/utils/ignore.js';
+import { createTempDir, removeTempDir } from '../helpers.js';
+
+describe('globToRegExp', () => {
+  it.each([
+    ['*.md', 'a.md', true],
+    ['*.md', 'dir/a.md', false],
+    ['**/*.md', 'a.md', true],
+    ['**/*.md', 'x/y/a.md', true],
+    ['docs/**', 'docs/x/y', true],
+    ['a?.txt', 'ab.txt', true],
+    ['[ab].md', 'c.md', false],
+    ['[!ab].md', 'c.md', true],
+    ['*.{md,xml}', 'a.xml', true],
+    ['[unclosed', '[unclosed', true],
+    ['a.b', 'axb', false],
+  ])('%s matches %s: %s', (glob, file, expected) => {
+    expect(globToRegExp(glob).test(file)).toBe(expected);
+  });
+
+  it('detects glob magic', () => {
+    expect(hasGlobMagic('src/*.md')).toBe(true);
+    expect(hasGlobMagic('src/a.md')).toBe(false);
+  });
+});
+
+describe('expandPaths', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await createTempDir({
+      'a.md': 'a',
+      'notes.json': '{}',
+      'nested/b.xml': 'b',
+      'nested/deeper/c.prompt': 'c',
+      'nested/skip.md': 'skip',
+      'node_modules/pkg/readme.md': 'never',
+      'empty/readme.json': '{}',
+    });
+  });
+
+  afterAll(() => removeTempDir(dir));
+
+  const relative = (files: string[]): string[] =>
+    files.map((file) => path.relative(dir, file).split(path.sep).join('/'));
+
+  it('expands files, directories and globs into a sorted list', async () => {
+    const files = await expandPaths(['nested', 'a.md', 'notes.json', '**/*.md'], {
+      cwd: dir,
+      isIgnored: (file) => file.endsWith('skip.md'),
+    });
+    expect(relative(files)).toEqual([
+      'a.md',
+      'nested/b.xml',
+      'nested/deeper/c.prompt',
+      'notes.json',
+    ]);
+  });
+
+  it('takes template extensions from the options', async () => {
+    expect(relative(await expandPaths(['.'], { cwd: dir, extensions: ['.xml'] }))).toEqual([
+      'nested/b.xml',
+    ]);
+  });
+
+  it('names every path or glob that matches nothing', async () => {
+    const run = expandPaths(['a.md', 'missing.md', 'empty', '*.txt'], { cwd: dir });
+    await expect(run).rejects.toThrow(new PathMatchError(['missing.md', 'empty', '*.txt']));
+    await expect(expandPaths(['missing.md'], { cwd: dir })).rejects.toThrow(
+      'No templates match \'missing.md\''
+    );
+  });
+
+  it('counts a pattern whose files an earlier pattern already matched', async () => {
+    expect(relative(await expandPaths(['a.md', '*.md'], { cwd: dir }))).toEqual(['a.md']);
+  });
+});
+
+describe('ignore files', () => {
+  const base = path.resolve('/repo');
+  const matcher = createIgnoreMatcher(
+    ['# comment', '', 'drafts/', '*.bak', '/root-only.md', 'docs/*.md', '!docs/keep.md'],
+    base
+  );
+  const at = (file: string, isDirectory = false): boolean =>
+    matcher(path.join(base, file), isDirectory);
+
+  it('matches gitignore-style patterns', () => {
+    expect(at('drafts', true)).toBe(true);
+    expect(at('drafts')).toBe(false);
+    expect(at('x/y/old.bak')).toBe(true);
+    expect(at('root-only.md')).toBe(true);
+    expect(at('sub/root-only.md')).toBe(false);
+    expect(at('docs/a.md')).toBe(true);
+    expect(at('docs/keep.md')).toBe(false);
+  });
+
+  it('never matches outside the base directory', () => {
+    expect(matcher(path.resolve('/elsewhere/a.bak'), false)).toBe(false);
+    expect(matcher(base, true)).toBe(false);
+  });
+
+  it('loads the default ignore files and a named one', async () => {
+    const dir = await createTempDir({
+      '.templatereviewignore': 'a.md\n',
+      '.clineignore': 'b.md\n',
+      'custom.ignore': 'c.md\n',
+    });
+    try {
+      const defaults = await loadIgnoreMatcher(dir);
+      expect(['a.md', 'b.md', 'c.md'].map((file) => defaults(path.join(dir, file), false))).toEqual(
+        [true, true, false]
+      );
+      const custom = await loadIgnoreMatcher(dir, 'custom.ignore');
+      expect(['a.md', 'c.md'].map((file) => custom(path.join(dir, file), false))).toEqual([
+        false,
+        true,
+      ]);
+      await expect(loadIgnoreMatcher(dir, 'missing.ignore')).rejects.toThrow(
+        'Ignore file not found: missing.ignore'
+      );
+    } finally {
+      await removeTempDir(dir);
+    }
+  });
+});
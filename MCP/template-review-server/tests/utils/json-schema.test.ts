@@ -0,0 +1,86 @@
+import {
+  isJsonSchema,
+  schemaFromExample,
+  validateJsonSchema,
+} from '../../src/utils/json-schema.js';
+
+describe('isJsonSchema', () => {
+  it('tells schemas from examples', () => {
+    expect(isJsonSchema({ $schema: 'x' })).toBe(true);
+    expect(isJsonSchema({ type: 'object', properties: {} })).toBe(true);
+    expect(isJsonSchema({ type: ['array', 'null'], items: {} })).toBe(true);
+    expect(isJsonSchema({ type: 'object' })).toBe(false);
+    expect(isJsonSchema({ type: 'book', properties: {} })).toBe(false);
+    expect(isJsonSchema({ summary: 'text' })).toBe(false);
+    expect(isJsonSchema([])).toBe(false);
+  });
+});
+
+describe('schemaFromExample', () => {
+  it('requires every key and keeps value types', () => {
+    expect(
+      schemaFromExample({ name: 'a', count: 1, ratio: 0.5, tags: ['x'], none: null, empty: [] })
+    ).toEqual({
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        count: { type: 'number' },
+        ratio: { type: 'number' },
+        tags: { type: 'array', items: { type: 'string' } },
+        none: {},
+        empty: { type: 'array' },
+      },
+      required: ['name', 'count', 'ratio', 'tags', 'none', 'empty'],
+    });
+  });
+});
+
+describe('validateJsonSchema', () => {
+  it('reports every mismatch with its path', () => {
+    const schema = {
+      type: 'object' as const,
+      required: ['id', 'items'],
+      additionalProperties: false,
+      properties: {
+        id: { type: 'integer' as const, minimum: 1, maximum: 9 },
+        label: { type: 'string' as const, minLength: 2, maxLength: 3 },
+        kind: { enum: ['a', 'b'] },
+        items: {
+          type: 'array' as const,
+          minItems: 1,
+          maxItems: 1,
+          items: { type: 'number' as const },
+        },
+      },
+    };
+    expect(
+      validateJsonSchema({ id: 0, label: 'abcd', kind: 'c', items: [1, 'x'], extra: true }, schema)
+    ).toEqual([
+      { path: '$.id', message: 'expected at least 1, got 0' },
+      { path: '$.label', message: 'expected at most 3 characters, got 4' },
+      { path: '$.kind', message: 'expected one of "a", "b"' },
+      { path: '$.items', message: 'expected at most 1 items, got 2' },
+      { path: '$.items[1]', message: 'expected number, got string' },
+      { path: '$', message: 'unexpected property "extra"' },
+    ]);
+    expect(validateJsonSchema({ id: 10, label: 'a', items: [] }, schema)).toEqual([
+      { path: '$.id', message: 'expected at most 9, got 10' },
+      { path: '$.label', message: 'expected at least 2 characters, got 1' },
+      { path: '$.items', message: 'expected at least 1 items, got 0' },
+    ]);
+    expect(validateJsonSchema({}, schema)).toEqual([
+      { path: '$', message: 'missing required property "id"' },
+      { path: '$', message: 'missing required property "items"' },
+    ]);
+  });
+
+  it('accepts integers as numbers and stops at a wrong type', () => {
+    expect(validateJsonSchema(3, { type: 'number' })).toEqual([]);
+    expect(validateJsonSchema(1.5, { type: 'integer' })).toEqual([
+      { path: '$', message: 'expected integer, got number' },
+    ]);
+    expect(validateJsonSchema(null, { type: ['string', 'boolean'], minLength: 1 })).toEqual([
+      { path: '$', message: 'expected string or boolean, got null' },
+    ]);
+  });
+});
@@ -0,0 +1,211 @@
+import {
+  createPositionLookup,
+  isInCode,
+  isPlaceholder,
+  normalizeSectionName,
+  parseTemplate,
+  resolveSectionName,
+  sectionHeaderPattern,
+} from '../../src/utils/parser.js';
+
+describe('parseTemplate', () => {
+  describe('colon dialect', () => {
+    const template = parseTemplate(
+      'ROLE: You are a reviewer\n\nTASK:\nReview {{code}}\n- check names\n* check tests\n\nFORMAT: A list'
+    );
+
+    it('reads sections up to the next header', () => {
+      expect(template.dialect).toBe('colon');
+      expect(template.sections.map((section) => section.name)).toEqual(['ROLE', 'TASK', 'FORMAT']);
+      expect(template.sections[1].body).toBe('Review {{code}}\n- check names\n* check tests');
+    });
+
+    it('records header and body spans', () => {
+      const task = template.sections[1];
+      expect(task.headerSpan.start).toEqual({ line: 3, column: 1, offset: 26 });
+      expect(task.bodySpan.start.line).toBe(4);
+      expect(template.source.slice(task.bodySpan.start.offset, task.bodySpan.end.offset)).toBe(
+        task.body
+      );
+    });
+
+    it('finds bullets and variables', () => {
+      expect(template.bullets.map((bullet) => [bullet.marker, bullet.text])).toEqual([
+        ['-', 'check names'],
+        ['*', 'check tests'],
+      ]);
+      expect(template.variables).toMatchObject([
+        { raw: '{{code}}', name: 'code', syntax: 'mustache' },
+      ]);
+    });
+  });
+
+  it('reads Markdown headings with aliases resolved', () => {
+    const template = parseTemplate(
+      '# Persona\nA helper\n\n## Output_Format\nJSON\n\n# Task\nDo it'
+    );
+    expect(template.dialect).toBe('markdown');
+    expect(
+      template.sections.map((section) => [section.name, section.canonical, section.level])
+    ).toEqual([
+      ['PERSONA', 'ROLE', 1],
+      ['OUTPUT FORMAT', 'FORMAT', 2],
+      ['TASK', 'TASK', 1],
+    ]);
+    // A heading runs to the next heading of the same or a higher level
+    expect(template.sections[0].body).toBe('A helper\n\n## Output_Format\nJSON');
+  });
+
+  it('reads XML elements and ignores comments and self-closing tags', () => {
+    const template = parseTemplate(
+      '<prompt>\n<role>Reviewer</role>\n<!-- <task>hidden</task> -->\n<br/>\n<task>Check <b>it</b></task>\n</prompt>'
+    );
+    expect(template.dialect).toBe('xml');
+    expect(template.sections.map((section) => [section.name, section.level])).toEqual([
+      ['PROMPT', 1],
+      ['ROLE', 2],
+      ['TASK', 2],
+    ]);
+    expect(template.sections[2].body).toBe('Check <b>it</b>');
+  });
+
+  it('falls back on hints when no known section is found', () => {
+    expect(parseTemplate('<notes>\nhello\n</notes>').dialect).toBe('xml');
+    expect(parseTemplate('# Notes\nhello').dialect).toBe('markdown');
+    expect(parseTemplate('hello').dialect).toBe('colon');
+  });
+
+  it('honors a forced dialect and custom section names', () => {
+    const template = parseTemplate('GOAL: win\n# Task\nplay', {
+      dialect: 'colon',
+      sectionNames: ['GOAL'],
+    });
+    expect(template.dialect).toBe('colon');
+    expect(template.sections.map((section) => section.name)).toEqual(['GOAL']);
+  });
+
+  it('treats nothing inside a code fence as structure', () => {
+    const template = parseTemplate(
+      'TASK: run\n```bash\nROLE: not a header\n- not a bullet\n```\n~~~\nopen fence'
+    );
+    expect(template.sections.map((section) => section.name)).toEqual(['TASK']);
+    expect(template.bullets).toEqual([]);
+    expect(template.codeFences.map((fence) => [fence.language, fence.content])).toEqual([
+      ['bash', 'ROLE: not a header\n- not a bullet'],
+      ['', 'open fence'],
+    ]);
+  });
+
+  it('collects labelled and tagged examples', () => {
+    const template = parseTemplate(
+      'TASK: classify\n\nExample 1:\nInput: hi\nOutput: greeting\n\nAfter\n<example>bye</example>'
+    );
+    expect(template.examples.map((example) => [example.label, example.body])).toEqual([
+      ['Example 1', 'Input: hi\nOutput: greeting'],
+      ['example', 'bye'],
+    ]);
+  });
+
+  it('closes an example at the next section header', () => {
+    const template = parseTemplate('Examples:\nfoo\nFORMAT: text');
+    expect(template.examples[0].body).toBe('foo');
+    expect(template.sections.map((section) => section.name)).toEqual(['FORMAT']);
+  });
+
+  describe('frontmatter', () => {
+    it('reads YAML data and skips its variables', () => {
+      const template = parseTemplate(
+        '---\ndescription: "Uses {{name}} # literally"\ntags: {a: 1}\nnotes: |\n  one\n  two\n---\nHello {{name}}'
+      );
+      expect(template.frontmatter?.data).toEqual({
+        description: 'Uses {{name}} # literally',
+        tags: { a: 1 },
+        notes: 'one\ntwo\n',
+      });
+      expect(template.frontmatter?.error).toBeUndefined();
+      expect(template.variables).toHaveLength(1);
+      expect(template.variables[0].span.start.line).toBe(8);
+      expect(template.dialect).toBe('markdown');
+    });
+
+    it('reports invalid YAML with its line in the template', () => {
+      const template = parseTemplate('---\nok: 1\nbad: [1, 2\n---\nBody');
+      expect(template.frontmatter?.data).toEqual({});
+      expect(template.frontmatter?.error).toMatch(/^line \d+: /);
+    });
+
+    it('keeps only maps as data', () => {
+      expect(parseTemplate('---\n- a\n- b\n---\nBody').frontmatter?.data).toEqual({});
+    });
+  });
+
+  it('reads every variable syntax', () => {
+    const template = parseTemplate('Hi {{ user name }}, ${HOME} and [topic] but not [link](url)');
+    expect(template.variables.map((variable) => [variable.name, variable.syntax])).toEqual([
+      ['user name', 'mustache'],
+      ['HOME', 'dollar'],
+      ['topic', 'bracket'],
+    ]);
+  });
+});
+
+describe('isPlaceholder', () => {
+  const placeholders = (content: string): string[] => {
+    const template = parseTemplate(content);
+    return template.variables
+      .filter((variable) => isPlaceholder(template, variable))
+      .map((variable) => variable.raw);
+  };
+
+  it('accepts mustache variables anywhere', () => {
+    expect(placeholders('`{{a}}` and {{b}}')).toEqual(['{{a}}', '{{b}}']);
+  });
+
+  it('rejects task boxes, index access and numbers', () => {
+    expect(
+      placeholders('- [x] done\n1. [TODO] later\narr[idx] and [0]\nAsk about [topic]')
+    ).toEqual(['[topic]']);
+  });
+
+  it('rejects variables in code', () => {
+    expect(placeholders('Run `echo ${HOME}`\n```\n[name]\n```\n${USER}')).toEqual(['${USER}']);
+  });
+});
+
+describe('isInCode', () => {
+  it('detects inline code and fences', () => {
+    const template = parseTemplate('a `b` c\n```\nd\n```');
+    const at = (offset: number): boolean => isInCode(template, template.positionAt(offset));
+    expect(at(0)).toBe(false);
+    expect(at(3)).toBe(true);
+    expect(at(6)).toBe(false);
+    expect(at(12)).toBe(true);
+  });
+});
+
+describe('section names', () => {
+  it('normalizes case, markup and separators', () => {
+    expect(normalizeSectionName('**output_format**:')).toBe('OUTPUT FORMAT');
+    expect(normalizeSectionName('Output-Format')).toBe('OUTPUT FORMAT');
+  });
+
+  it('resolves aliases to the canonical name', () => {
+    expect(resolveSectionName('background', { CONTEXT: ['BACKGROUND'] })).toBe('CONTEXT');
+    expect(resolveSectionName('misc', { CONTEXT: ['BACKGROUND'] })).toBe('MISC');
+  });
+
+  it('escapes names in the header pattern', () => {
+    const pattern = sectionHeaderPattern(['C++', 'TASK']);
+    expect(pattern.test('c++: x')).toBe(true);
+    expect(pattern.test('CCC: x')).toBe(false);
+  });
+});
+
+describe('createPositionLookup', () => {
+  it('maps offsets to 1-based lines and columns', () => {
+    const positionAt = createPositionLookup('ab\ncd\n');
+    expect(positionAt(0)).toEqual({ line: 1, column: 1, offset: 0 });
+    expect(positionAt(4)).toEqual({ line: 2, column: 2, offset: 4 });
+    expect(positionAt(6)).toEqual({ line: 3, column: 1, offset: 6 });
+  });
+});
@@ -0,0 +1,11 @@
+import { YamlError, parseYaml } from '../../src/utils/yaml.js';
+
+describe('parseYaml', () => {
+  it('reads block scalars', () => {
+    expect(parseYaml('text: |\n  one\n  two\n')).toEqual({ text: 'one\ntwo\n' });
+  });
+
+  it('reports the line of a syntax error', () => {
+    expect(() => parseYaml('a: [1, 2\nb: 3')).toThrow(YamlError);
+  });
+});
@@ -0,0 +1,61 @@
+import { parseTemplate } from '../../src/utils/parser.js';
+import { matchesType, readVariableContract } from '../../src/validators/contract.js';
+
+const contractOf = (frontmatter: string): ReturnType<typeof readVariableContract> =>
+  readVariableContract(parseTemplate(`---\n${frontmatter}\n---\nBody`));
+
+describe('readVariableContract', () => {
+  it('reads declarations, bare types and defaults', () => {
+    const contract = contractOf(
+      'variables:\n  code:\n    description: Source\n  count: number\n  lang:\n    default: TS'
+    );
+    expect(contract.declared).toBe(true);
+    expect(contract.errors).toEqual([]);
+    expect(contract.variables).toEqual([
+      { name: 'code', type: 'string', required: true, description: 'Source' },
+      { name: 'count', type: 'number', required: true },
+      { name: 'lang', type: 'string', required: false, default: 'TS' },
+    ]);
+  });
+
+  it('reads a list of names', () => {
+    expect(contractOf('variables: [a, b]').variables.map((variable) => variable.name)).toEqual([
+      'a',
+      'b',
+    ]);
+  });
+
+  it('treats an empty key as declared with no variables', () => {
+    expect(contractOf('variables:')).toEqual({ declared: true, variables: [], errors: [] });
+    expect(contractOf('title: x')).toEqual({ declared: false, variables: [], errors: [] });
+  });
+
+  it('reports bad declarations and defaults', () => {
+    expect(contractOf('variables: 3').errors).toEqual([
+      'variables: expected a map of variable declarations or a list of names',
+    ]);
+    const contract = contractOf(
+      'variables:\n  a:\n    kind: x\n  b:\n    type: number\n    default: "3"\n  c: string'
+    );
+    expect(contract.variables.map((variable) => variable.name)).toEqual(['c']);
+    expect(contract.errors).toHaveLength(2);
+    expect(contract.errors[1]).toBe('variables.b: default value is not a number');
+  });
+
+  it('reports invalid frontmatter', () => {
+    const contract = readVariableContract(parseTemplate('---\nvariables: [a\n---\nBody'));
+    expect(contract.declared).toBe(false);
+    expect(contract.errors[0]).toMatch(/^frontmatter is not valid YAML: /);
+  });
+});
+
+describe('matchesType', () => {
+  it('distinguishes arrays from objects', () => {
+    expect(matchesType([], 'array')).toBe(true);
+    expect(matchesType([], 'object')).toBe(false);
+    expect(matchesType(null, 'object')).toBe(false);
+    expect(matchesType({}, 'object')).toBe(true);
+    expect(matchesType(1, 'number')).toBe(true);
+    expect(matchesType('1', 'number')).toBe(false);
+  });
+});
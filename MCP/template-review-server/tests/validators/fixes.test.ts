@@ -0,0 +1,85 @@
+import { RuleConfig, loadDefaultConfig, mergeConfig } from '../../src/config/loader.js';
+import { parseTemplate } from '../../src/utils/parser.js';
+import {
+  FIXABLE_RULES,
+  applyFixes,
+  findTrailingWhitespace,
+  isFixableRule,
+} from '../../src/validators/fixes.js';
+
+let config: RuleConfig;
+
+beforeAll(async () => {
+  config = await loadDefaultConfig();
+});
+
+describe('isFixableRule', () => {
+  it('knows the fixable rules', () => {
+    expect(FIXABLE_RULES.every(isFixableRule)).toBe(true);
+    expect(isFixableRule('required-sections')).toBe(false);
+  });
+});
+
+describe('applyFixes', () => {
+  it('moves sections into the configured order', () => {
+    const content = 'Intro\nTASK: do it\n\nROLE: helper\n\nCONTEXT: ctx';
+    expect(applyFixes(content, ['section-order'], config)).toBe(
+      'Intro\nROLE: helper\n\nCONTEXT: ctx\n\nTASK: do it'
+    );
+  });
+
+  it('upper-cases colon headers only', () => {
+    expect(applyFixes('Role: a\nTask: b', ['section-case'], config)).toBe('ROLE: a\nTASK: b');
+    expect(applyFixes('# Role\na', ['section-case'], config)).toBe('# Role\na');
+  });
+
+  it('rewrites placeholders when formats are mixed', () => {
+    expect(applyFixes('Hi {{name}} from ${city} about [topic]', ['variable-format'], config)).toBe(
+      'Hi {{name}} from {{city}} about {{topic}}'
+    );
+  });
+
+  it('leaves text that only looks like a placeholder alone', () => {
+    const content = '- [x] done\n- [TODO] later\nUse arr[0] and `${HOME}`\nHi {{name}}';
+    expect(applyFixes(content, ['variable-format'], config)).toBe(content);
+  });
+
+  it('leaves a single placeholder format alone', () => {
+    expect(applyFixes('Hi ${name}', ['variable-format'], config)).toBe('Hi ${name}');
+  });
+
+  it('switches bullets to the preferred marker', () => {
+    expect(applyFixes('- a\n  * b\n• c', ['bullet-consistency'], config)).toBe('- a\n  - b\n- c');
+  });
+
+  it('collapses extra blank lines outside code', () => {
+    const content = 'ROLE: a\n\n\n\nTASK: b\n```\nx\n\n\n\ny\n```';
+    expect(applyFixes(content, ['section-spacing'], config)).toBe(
+      'ROLE: a\n\nTASK: b\n```\nx\n\n\n\ny\n```'
+    );
+    const spaced = mergeConfig(config, { formatting: { sectionSpacing: 2 } });
+    expect(applyFixes('a\n\n\n\n\nb', ['section-spacing'], spaced)).toBe('a\n\n\nb');
+  });
+
+  it('strips trailing whitespace but keeps hard breaks and code', () => {
+    const content = 'ROLE: a \nline one  \nline two\nlast\t\n```\ncode  \n```\nend  ';
+    expect(applyFixes(content, ['trailing-whitespace'], config)).toBe(
+      'ROLE: a\nline one  \nline two\nlast\n```\ncode  \n```\nend'
+    );
+  });
+
+  it('applies only the selected rules and is idempotent', () => {
+    const content = 'Task: b\n* x\nRole: a  ';
+    const once = applyFixes(content, FIXABLE_RULES, config);
+    expect(once).toBe('ROLE: a\nTASK: b\n- x');
+    expect(applyFixes(once, FIXABLE_RULES, config)).toBe(once);
+    expect(applyFixes(content, ['unknown-rule'], config)).toBe(content);
+  });
+});
+
+describe('findTrailingWhitespace', () => {
+  it('skips a two-space break before a blank line only when it is not a break', () => {
+    const template = parseTemplate('one  \n\ntwo  \nthree');
+    expect(findTrailingWhitespace(template)).toEqual([{ start: 3, end: 5 }]);
+  });
+});
@@ -0,0 +1,245 @@
+import { RuleConfig, loadDefaultConfig, mergeConfig } from '../../src/config/loader.js';
+import { PluginError } from '../../src/plugins/loader.js';
+import { fixTemplate, validateTemplate } from '../../src/validators/rules.js';
+import { CLEAN_TEMPLATE, createTempDir, removeTempDir } from '../helpers.js';
+
+let config: RuleConfig;
+
+beforeAll(async () => {
+  config = await loadDefaultConfig();
+});
+
+const rulesOf = async (content: string, overrides?: Partial<RuleConfig>): Promise<string[]> => {
+  const result = await validateTemplate(content, {
+    config: overrides ? mergeConfig(config, overrides) : config,
+  });
+  return result.violations.map((violation) => violation.rule);
+};
+
+describe('validateTemplate', () => {
+  it('accepts a clean template', async () => {
+    const result = await validateTemplate(CLEAN_TEMPLATE, { config });
+    expect(result).toEqual({ isValid: true, violations: [], suppressed: [] });
+  });
+
+  it('reports missing and misordered sections', async () => {
+    const result = await validateTemplate('TASK: Do {{x}}.\n\nROLE: Helper.', { config });
+    expect(result.isValid).toBe(false);
+    expect(result.violations).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          rule: 'required-sections',
+          message: 'Missing CONTEXT/BACKGROUND section',
+          severity: 'error',
+        }),
+        expect.objectContaining({ rule: 'recommended-sections', severity: 'warning' }),
+        expect.objectContaining({ rule: 'section-order', line: 3, column: 1, fixable: true }),
+      ])
+    );
+  });
+
+  it('reports content problems', async () => {
+    const long = `${'word '.repeat(40)}end.`;
+    const rules = await rulesOf(`${CLEAN_TEMPLATE}\n\n${long} Maybe use (a (b)) etc.`);
+    expect(rules).toEqual(
+      expect.arrayContaining(['sentence-length', 'nested-instructions', 'ambiguous-language'])
+    );
+  });
+
+  it('reports variable problems', async () => {
+    const rules = await rulesOf(`${CLEAN_TEMPLATE}\nAlso {{bad name}} and \${other}.`);
+    expect(rules).toEqual(expect.arrayContaining(['variable-format', 'variable-naming']));
+  });
+
+  it('suggests variables in long templates without any', async () => {
+    const content = `${CLEAN_TEMPLATE.replace('{{code}}', 'the code')}\n\n${'Keep it short. '.repeat(40)}`;
+    expect(await rulesOf(content)).toContain('variable-usage');
+  });
+
+  it('checks placeholders against the frontmatter contract', async () => {
+    const content = `---\nvariables:\n  code: string\n  spare:\n    type: number\n---\n${CLEAN_TEMPLATE}\nSee {{extra}}.`;
+    const result = await validateTemplate(content, { config });
+    expect(result.violations.map((violation) => [violation.rule, violation.line])).toEqual([
+      ['variable-undeclared', 14],
+      ['variable-unused', 1],
+    ]);
+  });
+
+  it('reports unreadable frontmatter as a contract error', async () => {
+    const result = await validateTemplate(`---\nvariables: [a\n---\n${CLEAN_TEMPLATE}`, { config });
+    expect(result.violations).toEqual([
+      expect.objectContaining({
+        rule: 'variable-contract',
+        message: expect.stringMatching(/^frontmatter is not valid YAML: line \d+: /),
+        line: 1,
+      }),
+    ]);
+  });
+
+  it('reports formatting problems as fixable', async () => {
+    const result = await validateTemplate(
+      'Role: A reviewer.\n\n\nCONTEXT: Code.  \n\nTASK: Review {{code}}.\n- one\n* two\n\nFORMAT: Text.',
+      { config }
+    );
+    expect(result.violations.map((violation) => [violation.rule, violation.fixable])).toEqual([
+      ['bullet-consistency', true],
+      ['section-case', true],
+      ['section-spacing', true],
+      ['trailing-whitespace', true],
+    ]);
+  });
+
+  it('asks for a schema when FORMAT wants JSON', async () => {
+    const content = CLEAN_TEMPLATE.replace(
+      'A numbered list with one bug per line.',
+      'Respond in JSON.'
+    );
+    expect(await rulesOf(content)).toEqual(['format-json-schema']);
+  });
+
+  it('enforces the token budget', async () => {
+    const rules = await rulesOf(CLEAN_TEMPLATE, { tokens: { family: 'claude', budget: 10 } });
+    expect(rules).toEqual(['token-budget']);
+  });
+
+  it('drops rules that are off and applies configured severities', async () => {
+    const result = await validateTemplate('TASK: Do it.', {
+      config: mergeConfig(config, {
+        rules: { 'required-sections': 'off', 'recommended-sections': 'error' },
+      }),
+    });
+    expect(result.violations.map((violation) => [violation.rule, violation.severity])).toEqual([
+      ['recommended-sections', 'error'],
+    ]);
+  });
+
+  it('honors suppressions and reports unused ones', async () => {
+    const content = `<!-- template-review-disable-next-line trailing-whitespace -->\n${CLEAN_TEMPLATE.replace('reviewer.', 'reviewer. ')}\n<!-- template-review-disable-line section-order -->`;
+    const result = await validateTemplate(content, { config });
+    expect(result.suppressed.map((violation) => violation.rule)).toEqual(['trailing-whitespace']);
+    expect(result.violations).toEqual([
+      expect.objectContaining({ rule: 'unused-directive', line: 9, fixable: false }),
+    ]);
+  });
+
+  describe('conversations', () => {
+    it('validates the system message and reports its line in JSON', async () => {
+      const content = JSON.stringify(
+        [
+          { role: 'system', content: CLEAN_TEMPLATE.replace('CONTEXT', 'Context') },
+          { role: 'user', content: 'Review this' },
+        ],
+        null,
+        2
+      );
+      const result = await validateTemplate(content, { config });
+      expect(result.violations).toEqual([
+        expect.objectContaining({ rule: 'section-case', line: 3, fixable: false }),
+      ]);
+    });
+
+    it('maps positions into text conversations', async () => {
+      const content = `<|system|>\n${CLEAN_TEMPLATE.replace('CONTEXT', 'Context')}\n<|user|>\nHi`;
+      const result = await validateTemplate(content, { config });
+      expect(result.violations).toEqual([
+        expect.objectContaining({ rule: 'section-case', line: 4, column: 1, fixable: false }),
+      ]);
+    });
+
+    it('checks turn-taking without a system message', async () => {
+      const content = JSON.stringify([
+        { role: 'assistant', content: 'Hi' },
+        { role: 'assistant', content: 'Again' },
+      ]);
+      expect(await rulesOf(content)).toEqual(
+        expect.arrayContaining(['conversation-roles', 'conversation-system'])
+      );
+    });
+  });
+
+  describe('plugins', () => {
+    let dir: string;
+
+    beforeAll(async () => {
+      dir = await createTempDir({
+        'rules.mjs': [
+          'export default {',
+          '  name: \'house-style\',',
+          '  rules: [{',
+          '    id: \'no-please\',',
+          '    defaultSeverity: \'error\',',
+          '    check({ template, options, report }) {',
+          '      const index = template.source.indexOf(options.word);',
+          '      if (index !== -1) report(`Avoid "${options.word}"`, template.positionAt(index));',
+          '    },',
+          '  }],',
+          '};',
+        ].join('\n'),
+        'broken.mjs': [
+          'export const plugin = { name: \'broken\', rules: [{ id: \'boom\', check() {',
+          '  throw new Error(\'bad\');',
+          '} }] };',
+        ].join('\n'),
+        'clash.mjs': 'export default { name: \'clash\', rules: [{ id: \'schema\', check() {} }] };',
+        'invalid.mjs': 'export default { rules: [] };',
+      });
+    });
+
+    afterAll(() => removeTempDir(dir));
+
+    it('runs plugin rules with their options and default severity', async () => {
+      const result = await validateTemplate(`${CLEAN_TEMPLATE} Please.`, {
+        config: mergeConfig(config, {
+          plugins: [{ path: `${dir}/rules.mjs`, options: { word: 'Please' } }],
+        }),
+      });
+      expect(result.violations).toEqual([
+        expect.objectContaining({ rule: 'no-please', severity: 'error', line: 7 }),
+      ]);
+    });
+
+    it.each([
+      ['broken.mjs', /rule boom failed: bad/],
+      ['clash.mjs', /already used by a built-in rule/],
+      ['invalid.mjs', /expected a default or "plugin" export/],
+      ['missing.mjs', /Plugin error/],
+    ])('raises a PluginError for %s', async (file, message) => {
+      const run = validateTemplate(CLEAN_TEMPLATE, {
+        config: mergeConfig(config, { plugins: [`${dir}/${file}`] }),
+      });
+      await expect(run).rejects.toThrow(PluginError);
+      await expect(
+        validateTemplate(CLEAN_TEMPLATE, {
+          config: mergeConfig(config, { plugins: [`${dir}/${file}`] }),
+        })
+      ).rejects.toThrow(message);
+    });
+  });
+});
+
+describe('fixTemplate', () => {
+  it('fixes every fixable violation and reports what it fixed', async () => {
+    const content =
+      'TASK: Review {{code}}.\n* one\n- two  \n\n\n\nCONTEXT: Code.\n\nrole: A reviewer.';
+    const result = await fixTemplate(content, { config });
+    expect(result.content).toBe(
+      'ROLE: A reviewer.\n\nCONTEXT: Code.\n\nTASK: Review {{code}}.\n- one\n- two'
+    );
+    expect(new Set(result.fixed.map((violation) => violation.rule))).toEqual(
+      new Set([
+        'bullet-consistency',
+        'section-case',
+        'section-order',
+        'section-spacing',
+        'trailing-whitespace',
+      ])
+    );
+    expect(result.violations.map((violation) => violation.rule)).toEqual(['recommended-sections']);
+  });
+
+  it('loads the config when none is given', async () => {
+    const result = await fixTemplate(CLEAN_TEMPLATE);
+    expect(result.content).toBe(CLEAN_TEMPLATE);
+    expect(result.fixed).toEqual([]);
+  });
+});
@@ -0,0 +1,76 @@
+import { parseTemplate } from '../../src/utils/parser.js';
+import { applySuppressions, parseDirectives } from '../../src/validators/suppressions.js';
+
+const directivesOf = (content: string): ReturnType<typeof parseDirectives> =>
+  parseDirectives(parseTemplate(content));
+
+describe('parseDirectives', () => {
+  it('reads kinds, rule lists and reasons', () => {
+    const directives = directivesOf(
+      [
+        '<!-- template-review-disable-file -->',
+        '<!-- template-review-disable a, b c -- legacy wording -->',
+        '<!-- template-review-enable -->',
+        '<!-- template-review-disable-line x -->',
+        '<!-- template-review-disable-next-line y -->',
+      ].join('\n')
+    );
+    expect(directives.map((directive) => [directive.kind, directive.rules])).toEqual([
+      ['disable-file', []],
+      ['disable', ['a', 'b', 'c']],
+      ['enable', []],
+      ['disable-line', ['x']],
+      ['disable-next-line', ['y']],
+    ]);
+    expect(directives[1].position).toMatchObject({ line: 2, column: 1 });
+  });
+
+  it('ignores directives in code fences', () => {
+    expect(directivesOf('```\n<!-- template-review-disable-file -->\n```')).toEqual([]);
+  });
+});
+
+describe('applySuppressions', () => {
+  const violation = (rule: string, line?: number): { rule: string; line?: number } => ({
+    rule,
+    line,
+  });
+
+  it('disables lines until a matching enable', () => {
+    const directives = directivesOf(
+      'a\n<!-- template-review-disable r1 r2 -->\nb\n<!-- template-review-enable r1 -->\nc'
+    );
+    const result = applySuppressions(
+      [violation('r1', 3), violation('r1', 5), violation('r2', 5), violation('r3', 3)],
+      directives
+    );
+    expect(result.suppressed).toEqual([violation('r1', 3), violation('r2', 5)]);
+    expect(result.kept).toEqual([violation('r1', 5), violation('r3', 3)]);
+    expect(result.unused).toEqual([]);
+  });
+
+  it('handles line, next-line and file directives', () => {
+    const directives = directivesOf(
+      'x <!-- template-review-disable-line r -->\n<!-- template-review-disable-next-line -->\ny\n<!-- template-review-disable-file f -->'
+    );
+    const result = applySuppressions(
+      [violation('r', 1), violation('r', 2), violation('any', 3), violation('f')],
+      directives
+    );
+    expect(result.kept).toEqual([violation('r', 2)]);
+    expect(result.suppressed).toHaveLength(3);
+  });
+
+  it('never suppresses a violation without a line through a range', () => {
+    const directives = directivesOf('<!-- template-review-disable -->');
+    const result = applySuppressions([violation('r')], directives);
+    expect(result.kept).toEqual([violation('r')]);
+    expect(result.unused).toEqual([{ directive: directives[0] }]);
+  });
+
+  it('reports each rule of a directive that silenced nothing', () => {
+    const directives = directivesOf('<!-- template-review-disable-next-line used spare -->\nx');
+    const result = applySuppressions([violation('used', 2)], directives);
+    expect(result.unused).toEqual([{ directive: directives[0], rule: 'spare' }]);
+  });
+});